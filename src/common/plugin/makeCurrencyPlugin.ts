@@ -1,26 +1,47 @@
+import { validateMnemonic } from 'bip39'
+import { asNumber, asOptional } from 'cleaners'
 import {
   EdgeCorePluginOptions,
   EdgeCurrencyEngine,
   EdgeCurrencyEngineOptions,
   EdgeCurrencyPlugin,
   EdgeCurrencyTools,
-  EdgeWalletInfo
+  EdgeWalletInfo,
+  JsonObject
 } from 'edge-core-js/types'
 
+import {
+  discoverFormats,
+  FormatDiscovery
+} from '../utxobased/engine/discoverFormats'
 import { makeUtxoEngine } from '../utxobased/engine/makeUtxoEngine'
 import { asUtxoUserSettings } from '../utxobased/engine/types'
+import { currencyFormatToPurposeType } from '../utxobased/engine/utils'
+import { asBip39Passphrase, asSeedType } from '../utxobased/keymanager/cleaners'
+import { electrumSeedType } from '../utxobased/keymanager/electrum'
+import {
+  BIP43PurposeTypeEnum,
+  convertXKey,
+  seedOrMnemonicToFingerprint,
+  xkeyPurposeType,
+  xkeyToFingerprint
+} from '../utxobased/keymanager/keymanager'
 import { makeCurrencyTools } from './makeCurrencyTools'
 import { makeEngineEmitter } from './makeEngineEmitter'
 import { makePluginState } from './pluginState'
-import { EngineConfig, PluginInfo } from './types'
+import {
+  asCurrencyFormat,
+  CurrencyFormat,
+  EngineConfig,
+  PluginInfo
+} from './types'
 
 export function makeCurrencyPlugin(
   pluginOptions: EdgeCorePluginOptions,
   pluginInfo: PluginInfo
 ): EdgeCurrencyPlugin {
-  const { currencyInfo } = pluginInfo
+  const { currencyInfo, coinInfo } = pluginInfo
   const { io, log, pluginDisklet } = pluginOptions
-  const currencyTools = makeCurrencyTools(io, pluginInfo)
   const { defaultSettings, pluginId, currencyCode } = currencyInfo
   const pluginState = makePluginState({
     io,
@@ -30,9 +51,95 @@ export function makeCurrencyPlugin(
     log,
     defaultSettings: asUtxoUserSettings(defaultSettings)
   })
+  const currencyTools = makeCurrencyTools(io, pluginInfo, pluginState, log)
   return {
     currencyInfo,
 
+    otherMethods: {
+      /**
+       * Reports the history of a mnemonic in every format of the currency,
+       * and in accounts 0 to `discoverAccounts - 1` of each.
+       */
+      async discoverFormats(
+        seed: string,
+        opts?: JsonObject
+      ): Promise<FormatDiscovery[]> {
+        if (!validateMnemonic(seed)) throw new Error('Invalid mnemonic')
+        return await discoverFormats({
+          pluginInfo,
+          pluginState,
+          io,
+          log,
+          seed,
+          passphrase: asBip39Passphrase(opts?.passphrase),
+          accounts: asOptional(asNumber)(opts?.discoverAccounts)
+        })
+      },
+
+      /**
+       * Re-encodes an extended public or private key, such as a ypub, zpub
+       * or Ltub from other software, with the prefix of the given format.
+       */
+      convertExtendedKey(key: string, format: string): string {
+        return convertXKey({
+          xkey: key.trim(),
+          toType: currencyFormatToPurposeType(asCurrencyFormat(format)),
+          coin: coinInfo.name
+        })
+      },
+
+      /**
+       * Returns the format matching the prefix of an extended key.
+       * Plain xpubs are reported as bip44, though bip32, bip48 and bip86
+       * keys share their prefix. Ypub and Zpub keys are bip48 ones.
+       */
+      getExtendedKeyFormat(key: string): CurrencyFormat {
+        const type = xkeyPurposeType({ xkey: key.trim(), coin: coinInfo.name })
+        switch (type) {
+          case BIP43PurposeTypeEnum.WrappedSegwit:
+            return 'bip49'
+          case BIP43PurposeTypeEnum.Segwit:
+            return 'bip84'
+          case BIP43PurposeTypeEnum.MultisigWrappedSegwit:
+            return 'bip48p2sh'
+          case BIP43PurposeTypeEnum.MultisigSegwit:
+            return 'bip48'
+          default:
+            return 'bip44'
+        }
+      },
+
+      /**
+       * Computes the master fingerprint of a mnemonic, or the fingerprint of
+       * an extended key, which is the master one for root keys.
+       */
+      getMasterFingerprint(key: string, opts?: JsonObject): string {
+        key = key.trim()
+        if (!key.includes(' ')) {
+          return xkeyToFingerprint({ xkey: key, coin: coinInfo.name })
+        }
+        const isBip39 = validateMnemonic(key)
+        const isElectrum = electrumSeedType(key) != null
+        const seedType =
+          asOptional(asSeedType)(opts?.seedType) ??
+          (isBip39 ? 'bip39' : 'electrum')
+        if (opts?.seedType == null && isBip39 && isElectrum) {
+          throw new Error(
+            'Ambiguous seed: pass a seedType of bip39 or electrum'
+          )
+        }
+        if (seedType === 'bip39' ? !isBip39 : !isElectrum) {
+          throw new Error('Invalid mnemonic')
+        }
+        return seedOrMnemonicToFingerprint({
+          seed: key,
+          passphrase: asBip39Passphrase(opts?.passphrase),
+          seedType,
+          coin: coinInfo.name
+        })
+      }
+    },
+
     async makeCurrencyEngine(
       walletInfo: EdgeWalletInfo,
       engineOptions: EdgeCurrencyEngineOptions
@@ -57,9 +164,7 @@ export function makeCurrencyPlugin(
     },
 
     async makeCurrencyTools(): Promise<EdgeCurrencyTools> {
-      pluginState.load().catch(e => {
-        throw e
-      })
+      await pluginState.load()
       return currencyTools
     }
   }
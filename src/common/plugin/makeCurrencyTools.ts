@@ -1,10 +1,11 @@
 import * as bn from 'biggystring'
 import * as bip39 from 'bip39'
-import { asMaybe, uncleaner } from 'cleaners'
+import { asBoolean, asMaybe, asNumber, asOptional, uncleaner } from 'cleaners'
 import {
   EdgeCurrencyTools,
   EdgeEncodeUri,
   EdgeIo,
+  EdgeLog,
   EdgeMemoRules,
   EdgeMetaToken,
   EdgeWalletInfo,
@@ -13,18 +14,51 @@ import {
 import * as uri from 'uri-js'
 import urlParse from 'url-parse'
 
-import { parsePathname, validateMemo } from '../utxobased/engine/utils'
 import {
+  discoverFormats,
+  pickDiscoveredFormats
+} from '../utxobased/engine/discoverFormats'
+import {
+  currencyFormatToPurposeType,
+  isMultisigPurposeType,
+  parsePathname,
+  validateMemo
+} from '../utxobased/engine/utils'
+import {
+  asAccount,
+  asBip39Passphrase,
+  asDerivationPath,
+  asDescriptorPublicKey,
+  asMultisigConfig,
   asNumbWalletInfo,
   asPrivateKey,
   asPublicKey,
+  asSeedType,
   getSupportedFormats,
   inferPrivateKeyFormat,
+  MultisigConfig,
   PrivateKey
 } from '../utxobased/keymanager/cleaners'
+import {
+  ElectrumSeedType,
+  electrumSeedType
+} from '../utxobased/keymanager/electrum'
+import { PluginState } from './pluginState'
 import { EncodeUriMetadata, ExtendedParseUri, PluginInfo } from './types'
 import { getFormatsForNetwork } from './utils'
 
+// The wallets which Electrum seeds restore, with their chains derived below
+// the master key or below m/0'
+const ELECTRUM_DERIVATIONS: {
+  [type in ElectrumSeedType]?: {
+    format: PrivateKey['format']
+    derivationPath: string
+  }
+} = {
+  standard: { format: 'bip44', derivationPath: 'm' },
+  segwit: { format: 'bip84', derivationPath: "m/0'" }
+}
+
 /**
  * The core currency plugin.
  * Provides information about the currency,
@@ -32,7 +66,9 @@ import { getFormatsForNetwork } from './utils'
  */
 export function makeCurrencyTools(
   io: EdgeIo,
-  pluginInfo: PluginInfo
+  pluginInfo: PluginInfo,
+  pluginState: PluginState,
+  log: EdgeLog
 ): EdgeCurrencyTools {
   const { currencyInfo, engineInfo, coinInfo } = pluginInfo
 
@@ -40,15 +76,37 @@ export function makeCurrencyTools(
   const wasCurrencyPrivateKey = uncleaner(asCurrencyPrivateKey)
   const asCurrencyNumbWalletInfo = asNumbWalletInfo(pluginInfo)
 
+  // Multisig formats can't derive addresses without their cosigners
+  const toMultisigConfig = (
+    format: PrivateKey['format'],
+    raw: unknown
+  ): MultisigConfig | undefined => {
+    if (!isMultisigPurposeType(currencyFormatToPurposeType(format))) {
+      if (raw != null) throw new Error(`The ${format} format isn't multisig`)
+      return
+    }
+    if (raw == null)
+      throw new Error(`The ${format} format needs a multisig config`)
+    return asMultisigConfig(raw)
+  }
+
   const fns: EdgeCurrencyTools = {
     async checkPublicKey(publicKeyData: JsonObject): Promise<boolean> {
-      const publicKey = asMaybe(asPublicKey)(publicKeyData)
+      const publicKey =
+        asMaybe(asPublicKey)(publicKeyData) ??
+        asMaybe(asDescriptorPublicKey(coinInfo.name))(publicKeyData)
 
       if (publicKey == null) return false
 
       const privateKeyFormat = inferPrivateKeyFormat(publicKey)
       const supportedFormats = getSupportedFormats(engineInfo, privateKeyFormat)
 
+      // Multisig wallets can't derive addresses without their cosigners
+      const isMultisig = isMultisigPurposeType(
+        currencyFormatToPurposeType(privateKeyFormat)
+      )
+      if (isMultisig && publicKey.multisig == null) return false
+
       // Public must have an defined xpub for every supported format
       return supportedFormats.every(
         format => publicKey.publicKeys[format] != null
@@ -61,11 +119,16 @@ export function makeCurrencyTools(
     ): Promise<JsonObject> {
       const mnemonic = bip39.entropyToMnemonic(Buffer.from(io.random(32)))
 
+      const format = opts?.format ?? engineInfo.formats?.[0] ?? 'bip44'
       const privateKey: PrivateKey = {
         imported: false,
         seed: mnemonic,
-        format: opts?.format ?? engineInfo.formats?.[0] ?? 'bip44',
-        coinType: opts?.coinType ?? coinInfo.coinType ?? 0
+        format,
+        coinType: opts?.coinType ?? coinInfo.coinType ?? 0,
+        multisig: toMultisigConfig(format, opts?.multisig),
+        account: asOptional(asAccount)(opts?.account),
+        derivationPath: asOptional(asDerivationPath)(opts?.derivationPath),
+        passphrase: asBip39Passphrase(opts?.passphrase)
       }
 
       return wasCurrencyPrivateKey(privateKey)
@@ -75,7 +138,41 @@ export function makeCurrencyTools(
       entropy: string,
       opts?: JsonObject
     ): Promise<JsonObject> {
-      const isMnemonic = bip39.validateMnemonic(entropy)
+      // Some phrases are valid as both kinds of seeds, which restore
+      // different wallets, so the caller has to tell them apart
+      const seedType = asOptional(asSeedType)(opts?.seedType)
+      const isMnemonic =
+        seedType !== 'electrum' && bip39.validateMnemonic(entropy)
+      const electrumType =
+        seedType !== 'bip39' && entropy.trim().includes(' ')
+          ? electrumSeedType(entropy)
+          : undefined
+      if (isMnemonic && electrumType != null) {
+        throw new Error('Ambiguous seed: pass a seedType of bip39 or electrum')
+      }
+      if (seedType === 'electrum' && electrumType == null) {
+        throw new Error('Invalid Electrum seed')
+      }
+
+      if (electrumType != null) {
+        const derivation = ELECTRUM_DERIVATIONS[electrumType]
+        if (
+          derivation == null ||
+          !(engineInfo.formats ?? []).includes(derivation.format)
+        ) {
+          throw new Error(`Electrum ${electrumType} seeds are unsupported`)
+        }
+        const privateKey: PrivateKey = {
+          imported: true,
+          seed: entropy,
+          seedType: 'electrum',
+          format: derivation.format,
+          coinType: coinInfo.coinType ?? 0,
+          derivationPath: derivation.derivationPath,
+          passphrase: asBip39Passphrase(opts?.passphrase)
+        }
+        return wasCurrencyPrivateKey(privateKey)
+      }
 
       // Handle error case(s) if not a valid form of entropy
       if (!isMnemonic) {
@@ -88,11 +185,47 @@ export function makeCurrencyTools(
         throw new Error('Invalid mnemonic')
       }
 
+      const format = opts?.format ?? engineInfo.formats?.[0] ?? 'bip44'
       const privateKey: PrivateKey = {
         imported: true,
         seed: entropy,
-        format: opts?.format ?? engineInfo.formats?.[0] ?? 'bip44',
-        coinType: opts?.coinType ?? coinInfo.coinType ?? 0
+        format,
+        coinType: opts?.coinType ?? coinInfo.coinType ?? 0,
+        multisig: toMultisigConfig(format, opts?.multisig),
+        account: asOptional(asAccount)(opts?.account),
+        derivationPath: asOptional(asDerivationPath)(opts?.derivationPath),
+        passphrase: asBip39Passphrase(opts?.passphrase)
+      }
+
+      // Use the formats and account the seed has history with, unless the
+      // caller knows which wallet the seed came from
+      const discover = asOptional(asBoolean, false)(opts?.discoverFormats)
+      if (discover && opts?.format == null && opts?.account == null) {
+        const [best, ...others] = pickDiscoveredFormats(
+          await discoverFormats({
+            pluginInfo,
+            pluginState,
+            io,
+            log,
+            seed: entropy,
+            passphrase: privateKey.passphrase,
+            accounts: asOptional(asNumber)(opts?.discoverAccounts)
+          })
+        )
+        if (best != null) {
+          privateKey.format = best.privateKeyFormat
+          privateKey.account = best.account
+          // Other formats of the same account are part of the same wallet
+          const supportedFormats = getSupportedFormats(
+            engineInfo,
+            best.privateKeyFormat
+          )
+          const walletFormats = others
+            .filter(discovery => discovery.account === best.account)
+            .map(discovery => discovery.format)
+            .filter(format => !supportedFormats.includes(format))
+          if (walletFormats.length > 0) privateKey.walletFormats = walletFormats
+        }
       }
 
       return wasCurrencyPrivateKey(privateKey)
@@ -19,6 +19,9 @@ interface MetadataConfig {
 export interface Metadata {
   state: LocalWalletMetadata
   clear: () => Promise<void>
+  freezeUtxos: (utxoIds: string[]) => Promise<void>
+  unfreezeUtxos: (utxoIds: string[]) => Promise<void>
+  setSyncCheckpoint: (blockHeight: number) => Promise<void>
 }
 
 export const makeMetadata = async (
@@ -33,9 +36,42 @@ export const makeMetadata = async (
       return cache
     },
     clear: async () => {
+      // Frozen UTXOs are a user choice, so they survive a resync
+      const { frozenUtxoIds } = cache
       await memlet.delete(metadataPath)
       const cleanCache = await resetMetadata()
-      Object.assign(cache, cleanCache)
+      Object.assign(cache, cleanCache, { frozenUtxoIds })
+      await setMetadata(cache)
+    },
+    freezeUtxos: async (utxoIds: string[]) => {
+      await lock.acquireAsync()
+      try {
+        const frozenUtxoIds = new Set([...cache.frozenUtxoIds, ...utxoIds])
+        cache.frozenUtxoIds = [...frozenUtxoIds]
+        await setMetadata(cache)
+      } finally {
+        lock.release()
+      }
+    },
+    unfreezeUtxos: async (utxoIds: string[]) => {
+      await lock.acquireAsync()
+      try {
+        cache.frozenUtxoIds = cache.frozenUtxoIds.filter(
+          utxoId => !utxoIds.includes(utxoId)
+        )
+        await setMetadata(cache)
+      } finally {
+        lock.release()
+      }
+    },
+    setSyncCheckpoint: async (blockHeight: number) => {
+      await lock.acquireAsync()
+      try {
+        cache.syncCheckpoint = blockHeight
+        await setMetadata(cache)
+      } finally {
+        lock.release()
+      }
     }
   }
 
@@ -102,7 +138,9 @@ export const makeMetadata = async (
     const data: LocalWalletMetadata = {
       balance: '0',
       addressBalances: {},
-      lastSeenBlockHeight: 0
+      lastSeenBlockHeight: 0,
+      frozenUtxoIds: [],
+      syncCheckpoint: 0
     }
     await memlet.setJson(metadataPath, data)
     return data
@@ -1,5 +1,13 @@
 import { bip32 } from 'altcoin-js'
-import { asNumber, asObject, asString, asValue, Cleaner } from 'cleaners'
+import {
+  asArray,
+  asNumber,
+  asObject,
+  asOptional,
+  asString,
+  asValue,
+  Cleaner
+} from 'cleaners'
 import { Disklet } from 'disklet'
 import {
   EdgeCurrencyEngineOptions,
@@ -16,8 +24,17 @@ import { UtxoPicker } from '../utxobased/keymanager/utxopicker'
 import { EngineEmitter } from './makeEngineEmitter'
 import { PluginState } from './pluginState'
 
+// The bip48 formats are multisig accounts using P2WSH and P2SH-P2WSH scripts
 export type CurrencyFormat = ReturnType<typeof asCurrencyFormat>
-export const asCurrencyFormat = asValue('bip32', 'bip44', 'bip49', 'bip84')
+export const asCurrencyFormat = asValue(
+  'bip32',
+  'bip44',
+  'bip49',
+  'bip84',
+  'bip86',
+  'bip48',
+  'bip48p2sh'
+)
 
 // Path up to changeIndex
 export interface ChangePath {
@@ -29,13 +46,18 @@ export interface AddressPath {
   format: CurrencyFormat
   changeIndex: number
   addressIndex: number
+  // The account of the wallet keys, if not account 0 of the format
+  account?: number
+  // The custom path of the wallet's account keys, such as m/0
+  derivationPath?: string
 }
 
 export interface TxOptions {
   utxos?: IUTXO[]
   subtractFee?: boolean
   setRBF?: boolean
-  CPFP?: string
+  // One or more unconfirmed parent txids to accelerate
+  CPFP?: string | string[]
 }
 
 export interface PluginInfo {
@@ -101,6 +123,9 @@ export interface CoinPrefixes {
   wrappedSegwitXPub?: number[]
   segwitXPriv?: number[]
   segwitXPub?: number[]
+  // SLIP-132 prefixes of bip48 account xpubs, such as Ypub and Zpub
+  multisigWrappedSegwitXPub?: number[]
+  multisigSegwitXPub?: number[]
   pubkeyHash: number[]
   scriptHash: number[]
   bech32?: string[]
@@ -169,5 +194,9 @@ export const asLocalWalletMetadata = asObject({
   balance: asString,
   // scriptPubkey -> balance
   addressBalances: asObject(asString),
-  lastSeenBlockHeight: asNumber
+  lastSeenBlockHeight: asNumber,
+  // UTXO ids (txid_vout) excluded from automatic coin selection
+  frozenUtxoIds: asOptional(asArray(asString), []),
+  // The block height up to which the history of every address was synced
+  syncCheckpoint: asOptional(asNumber, 0)
 })
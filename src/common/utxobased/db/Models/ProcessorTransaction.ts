@@ -46,7 +46,8 @@ export const fromEdgeTransaction = (
     // We may want to calculate these preemptively, but for now this will work.
     ourIns: [],
     ourOuts: [],
-    ourAmount: tx.nativeAmount ?? '0'
+    ourAmount: tx.nativeAmount ?? '0',
+    replacedTxid: otherParams.edgeSpendInfo?.rbfTxid
   }
 }
 
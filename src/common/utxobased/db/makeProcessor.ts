@@ -83,7 +83,11 @@ export interface Processor {
 
   saveTransaction: (args: SaveTransactionArgs) => Promise<IProcessorTransaction>
   numTransactions: () => number
+  // remove a transaction and its index entries
   removeTransaction: (txId: string) => Promise<void>
+  // mark a transaction which will never confirm as dropped, keeping it in the
+  // history but no longer querying it by block height
+  dropTransaction: (txId: string) => Promise<IProcessorTransaction | undefined>
   fetchTransactions: (
     args: FetchTransactionArgs
   ) => Promise<Array<IProcessorTransaction | undefined>>
@@ -262,6 +266,8 @@ export async function makeProcessor(
 
         // Use the existing transaction if it does exist.
         const transaction = processorTx ?? tx
+        // Server data never knows which transaction we meant to replace
+        if (tx.replacedTxid != null) transaction.replacedTxid = tx.replacedTxid
 
         // Mark the used inputs with the provided script pubkey
         for (const scriptPubkey of scriptPubkeys) {
@@ -282,7 +288,18 @@ export async function makeProcessor(
           transaction.ourAmount = calculateTxAmount(transaction)
         }
 
-        if (transaction.blockHeight !== tx.blockHeight) {
+        if (transaction.confirmations === 'dropped') {
+          // dropped transactions stay out of the block height index until
+          // the transaction is back
+          if (tx.confirmations !== 'dropped') {
+            transaction.confirmations = tx.confirmations
+            transaction.blockHeight = tx.blockHeight
+            await tables.txIdsByBlockHeight.insert('', {
+              txid: transaction.txid,
+              blockHeight: transaction.blockHeight
+            })
+          }
+        } else if (transaction.blockHeight !== tx.blockHeight) {
           // the transaction already exists, so delete it and re-insert at a different blockHeight
           await tables.txIdsByBlockHeight.delete(
             '',
@@ -328,8 +345,47 @@ export async function makeProcessor(
       return baselets.all.txIdsByDate.size('')
     },
 
-    async removeTransaction(_txId: string): Promise<void> {
-      return
+    async removeTransaction(txId: string): Promise<void> {
+      await baselets.tx(async tables => {
+        const [transaction] = await tables.txById.query('', [txId])
+        // Nothing to do if the transaction was never saved
+        if (transaction == null) return
+
+        // Remove the index entries before the main table entry
+        if (transaction.confirmations !== 'dropped') {
+          await tables.txIdsByBlockHeight.delete(
+            '',
+            transaction.blockHeight,
+            transaction.txid
+          )
+        }
+        await tables.txIdsByDate.delete('', transaction.date, transaction.txid)
+        await tables.txById.delete('', [transaction.txid])
+      })
+    },
+
+    async dropTransaction(
+      txId: string
+    ): Promise<IProcessorTransaction | undefined> {
+      return await baselets.tx(async tables => {
+        const [transaction] = await tables.txById.query('', [txId])
+        if (transaction == null || transaction.confirmations === 'dropped') {
+          return transaction
+        }
+
+        // Dropped transactions are no longer updated by block height
+        await tables.txIdsByBlockHeight.delete(
+          '',
+          transaction.blockHeight,
+          transaction.txid
+        )
+        const droppedTx: IProcessorTransaction = {
+          ...transaction,
+          confirmations: 'dropped'
+        }
+        await tables.txById.insert('', droppedTx.txid, droppedTx)
+        return droppedTx
+      })
     },
 
     async fetchTransactions(
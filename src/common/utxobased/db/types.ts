@@ -53,6 +53,8 @@ export interface IProcessorTransaction {
   ourIns: string[]
   ourOuts: string[]
   ourAmount: string
+  // The transaction replaced by this fee bump or cancellation
+  replacedTxid?: string
 }
 
 export interface ITransactionOutput {
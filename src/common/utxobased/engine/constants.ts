@@ -5,3 +5,11 @@ export const CACHE_THROTTLE = 0.05
 export const MAX_CONNECTIONS = 2
 
 export const NEW_CONNECTIONS = 8
+
+// Number of times an unconfirmed transaction must be reported missing by a
+// server before it is considered dropped from the mempool
+export const DROPPED_TX_MISSING_COUNT = 3
+
+// Minimum age (seconds) of an unconfirmed transaction before it can be
+// considered dropped, giving it time to propagate after broadcast
+export const DROPPED_TX_MIN_AGE = 60 * 60
@@ -0,0 +1,251 @@
+import { add, gt } from 'biggystring'
+import { EdgeIo, EdgeLog } from 'edge-core-js/types'
+
+import { EngineEmitter } from '../../plugin/makeEngineEmitter'
+import { PluginState } from '../../plugin/pluginState'
+import { CurrencyFormat, PluginInfo } from '../../plugin/types'
+import { PrivateKey, PublicKey } from '../keymanager/cleaners'
+import { BlockBook, BlockBookConfig, makeBlockBook } from '../network/BlockBook'
+import { isElectrumUri, makeElectrum } from '../network/Electrum'
+import { isEsploraUri, makeEsplora } from '../network/Esplora'
+import { SocketEmitter, SocketEvent } from '../network/MakeSocketEmitter'
+import { NEW_CONNECTIONS } from './constants'
+import { makeUtxoWalletTools } from './makeUtxoWalletTools'
+import {
+  currencyFormatToPurposeType,
+  deriveXpub,
+  xpubToDescriptor
+} from './utils'
+
+/**
+ * The history of one format and account of a seed, as reported by the
+ * backend for the account's extended public key.
+ */
+export interface FormatDiscovery {
+  format: CurrencyFormat
+  privateKeyFormat: PrivateKey['format']
+  account: number
+  balance: string
+  txs: number
+}
+
+export interface DiscoverFormatsArgs {
+  pluginInfo: PluginInfo
+  pluginState: PluginState
+  io: EdgeIo
+  log: EdgeLog
+  seed: string
+  passphrase?: string
+  // The number of accounts to scan for each format, starting from 0
+  accounts?: number
+}
+
+// The single signature formats which a seed may have been used with, and the
+// private key format that derives each of them
+const DISCOVERY_FORMATS: {
+  [format in CurrencyFormat]?: PrivateKey['format']
+} = {
+  bip44: 'bip44',
+  bip49: 'bip49',
+  bip84: 'bip49',
+  bip86: 'bip86'
+}
+
+// The servers which can look up the history of keys they don't know, unlike
+// Bitcoin Core nodes, with Blockbook servers first since they take a single
+// query for each account
+const DISCOVERY_SERVER_PATTERNS = [
+  ['wss:', 'ws:'],
+  ['electrums:', 'electrum:', 'https:', 'http:']
+]
+
+/**
+ * Scans every format of the currency, and the given number of accounts of
+ * each, for transactions and balance. Blockbook derives the addresses of an
+ * account itself, so each account takes a single query. Other servers are
+ * asked for each address, up to the gap limit of unused ones.
+ */
+export const discoverFormats = async (
+  args: DiscoverFormatsArgs
+): Promise<FormatDiscovery[]> => {
+  const {
+    pluginInfo,
+    pluginState,
+    io,
+    log,
+    seed,
+    passphrase,
+    accounts = 1
+  } = args
+  const { coinInfo, engineInfo } = pluginInfo
+
+  const queries: Array<Omit<FormatDiscovery, 'balance' | 'txs'>> = []
+  for (let account = 0; account < accounts; account++) {
+    for (const format of engineInfo.formats ?? []) {
+      const privateKeyFormat = DISCOVERY_FORMATS[format]
+      if (privateKeyFormat == null) continue
+      queries.push({ format, privateKeyFormat, account })
+    }
+  }
+
+  // The server list may still be loading
+  let servers = getDiscoveryServers(pluginState)
+  if (servers.length === 0) {
+    await pluginState.refreshServers()
+    servers = getDiscoveryServers(pluginState)
+  }
+
+  let lastError: unknown = new Error(
+    'No available connections\nCheck your internet signal'
+  )
+  for (const uri of servers) {
+    let blockbook: BlockBook | undefined
+    try {
+      blockbook = await connectBlockBook({ uri, pluginInfo, io, log })
+      const out: FormatDiscovery[] = []
+      for (const query of queries) {
+        const xpub = deriveXpub({
+          privateKey: {
+            seed,
+            passphrase,
+            format: query.privateKeyFormat,
+            coinType: coinInfo.coinType,
+            account: query.account
+          },
+          coin: coinInfo.name,
+          type: currencyFormatToPurposeType(query.format)
+        })
+        const history = isBlockbookUri(uri)
+          ? await fetchHistory(blockbook, xpubToDescriptor(query.format, xpub))
+          : await fetchAddressesHistory({
+              blockbook,
+              pluginInfo,
+              format: query.format,
+              xpub
+            })
+        out.push({ ...query, ...history })
+      }
+      return out
+    } catch (error) {
+      log.warn(`discoverFormats failed with server ${uri}: ${String(error)}`)
+      lastError = error
+    } finally {
+      await blockbook?.disconnect()
+    }
+  }
+  throw lastError
+}
+
+/**
+ * Returns the formats and accounts with any history, with the most funds, or
+ * else the most transactions, first.
+ */
+export const pickDiscoveredFormats = (
+  discoveries: FormatDiscovery[]
+): FormatDiscovery[] =>
+  discoveries
+    .filter(discovery => discovery.txs > 0)
+    .sort((a, b) =>
+      gt(a.balance, b.balance)
+        ? -1
+        : gt(b.balance, a.balance)
+        ? 1
+        : b.txs - a.txs
+    )
+
+type History = Pick<FormatDiscovery, 'balance' | 'txs'>
+
+const getDiscoveryServers = (pluginState: PluginState): string[] => {
+  const servers: string[] = []
+  for (const patterns of DISCOVERY_SERVER_PATTERNS) {
+    servers.push(...pluginState.getLocalServers(NEW_CONNECTIONS, patterns))
+  }
+  return servers
+}
+
+const isBlockbookUri = (uri: string): boolean =>
+  !isElectrumUri(uri) && !isEsploraUri(uri)
+
+const fetchHistory = async (
+  blockbook: BlockBook,
+  address: string
+): Promise<History> => {
+  const response = await blockbook.fetchAddress(address)
+  return {
+    balance: add(response.balance, response.unconfirmedBalance),
+    txs: response.txs + response.unconfirmedTxs
+  }
+}
+
+// Sums the history of the addresses of an account, stopping each chain at
+// the gap limit of unused addresses. The change chain is only used once the
+// receive chain is.
+const fetchAddressesHistory = async (args: {
+  blockbook: BlockBook
+  pluginInfo: PluginInfo
+  format: CurrencyFormat
+  xpub: string
+}): Promise<History> => {
+  const { blockbook, pluginInfo, format, xpub } = args
+  const publicKeys: PublicKey['publicKeys'] = {}
+  publicKeys[format] = xpub
+  const walletTools = makeUtxoWalletTools({
+    pluginInfo,
+    publicKey: { publicKeys }
+  })
+
+  const total: History = { balance: '0', txs: 0 }
+  for (const changeIndex of [0, 1]) {
+    if (changeIndex === 1 && total.txs === 0) break
+    let unused = 0
+    for (
+      let addressIndex = 0;
+      unused < pluginInfo.engineInfo.gapLimit;
+      addressIndex++
+    ) {
+      const changePath = { format, changeIndex, addressIndex }
+      const { scriptPubkey } = walletTools.getScriptPubkey(changePath)
+      const { address } = walletTools.scriptPubkeyToAddress({
+        changePath,
+        scriptPubkey
+      })
+      const history = await fetchHistory(blockbook, address)
+      unused = history.txs === 0 ? unused + 1 : 0
+      total.balance = add(total.balance, history.balance)
+      total.txs += history.txs
+    }
+  }
+  return total
+}
+
+// Connects to a single server, failing instead of waiting for a reconnect
+const connectBlockBook = async (args: {
+  uri: string
+  pluginInfo: PluginInfo
+  io: EdgeIo
+  log: EdgeLog
+}): Promise<BlockBook> => {
+  const { uri, pluginInfo, io, log } = args
+  const socketEmitter = new SocketEmitter()
+  const config: BlockBookConfig = {
+    wsAddress: uri,
+    socketEmitter,
+    engineEmitter: new EngineEmitter(),
+    log,
+    walletId: 'discoverFormats',
+    onQueueSpaceCB: async (): Promise<undefined> => undefined,
+    asAddress: pluginInfo.engineInfo.asBlockbookAddress
+  }
+  const blockbook = isElectrumUri(uri)
+    ? makeElectrum({ ...config, coin: pluginInfo.coinInfo.name })
+    : isEsploraUri(uri)
+    ? makeEsplora({ ...config, fetch: io.fetch })
+    : makeBlockBook(config)
+  await new Promise<void>((resolve, reject) => {
+    socketEmitter.on(SocketEvent.CONNECTION_CLOSE, (_uri, error) =>
+      reject(error ?? new Error('Socket close'))
+    )
+    blockbook.connect().then(resolve, reject)
+  })
+  return blockbook
+}
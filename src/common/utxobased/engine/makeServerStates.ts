@@ -1,4 +1,4 @@
-import { EdgeLog, EdgeTransaction } from 'edge-core-js/types'
+import { EdgeIo, EdgeLog, EdgeTransaction } from 'edge-core-js/types'
 import { parse } from 'uri-js'
 
 import { EngineEmitter, EngineEvent } from '../../plugin/makeEngineEmitter'
@@ -6,14 +6,32 @@ import { PluginState } from '../../plugin/pluginState'
 import { PluginInfo } from '../../plugin/types'
 import { removeItem } from '../../plugin/utils'
 import { NumbWalletInfo } from '../keymanager/cleaners'
-import { BlockBook, makeBlockBook } from '../network/BlockBook'
+import { formatToDescriptor } from '../keymanager/descriptors'
+import { isBitcoinCoreUri, makeBitcoinCore } from '../network/BitcoinCore'
+import { BlockBook, BlockBookConfig, makeBlockBook } from '../network/BlockBook'
 import { SubscribeAddressResponse } from '../network/BlockBookAPI'
 import Deferred from '../network/Deferred'
+import { isElectrumUri, makeElectrum } from '../network/Electrum'
+import { isEsploraUri, makeEsplora } from '../network/Esplora'
 import { SocketEmitter, SocketEvent } from '../network/MakeSocketEmitter'
 import { WsTask } from '../network/Socket'
 import { pushUpdate, removeIdFromQueue } from '../network/socketQueue'
 import { MAX_CONNECTIONS, NEW_CONNECTIONS } from './constants'
 
+// Blockbook and Electrum servers, which push updates over a socket, and the
+// user's own Bitcoin Core node
+const PRIMARY_SERVER_PATTERNS = [
+  'wss:',
+  'ws:',
+  'electrums:',
+  'electrum:',
+  'bitcoinds:',
+  'bitcoind:'
+]
+// Esplora servers, which have to be polled, so are only a fallback for when
+// every primary server is down
+const FALLBACK_SERVER_PATTERNS = ['https:', 'http:']
+
 interface ServerState {
   blockbook: BlockBook
   blockSubscriptionStatus: 'unsubscribed' | 'subscribing' | 'subscribed'
@@ -24,10 +42,13 @@ interface ServerState {
 
 interface ServerStateConfig {
   engineEmitter: EngineEmitter
+  io: EdgeIo
   log: EdgeLog
   pluginInfo: PluginInfo
   pluginState: PluginState
   walletInfo: NumbWalletInfo
+  // The height before which the wallet has no history, or 0 if unknown
+  getBirthdayHeight: () => Promise<number>
 }
 
 export interface ServerStates {
@@ -38,6 +59,7 @@ export interface ServerStates {
   stop: () => void
   serverCanGetTx: (uri: string, txid: string) => boolean
   serverCanGetAddress: (uri: string, address: string) => boolean
+  serverCanGetXpub: (uri: string) => boolean
   serverIsAwareOfAddress: (uri: string, address: string) => boolean
   getServerState: (uri: string) => ServerState | undefined
   refillServers: () => void
@@ -58,13 +80,23 @@ interface ServerStatesCache {
 }
 
 export function makeServerStates(config: ServerStateConfig): ServerStates {
-  const { engineEmitter, log, pluginInfo, pluginState, walletInfo } = config
+  const {
+    engineEmitter,
+    io,
+    log,
+    pluginInfo,
+    pluginState,
+    walletInfo,
+    getBirthdayHeight
+  } = config
   log('Making server states')
 
   const serverStatesCache: ServerStatesCache = {}
   let isEngineOn: boolean = true
   let serverList: string[] = []
   let reconnectCounter = 0
+  // The servers which closed with an error since they last connected
+  const downServers = new Set<string>()
   let reconnectTimer: ReturnType<typeof setTimeout> = setTimeout(() => {
     return
   }, 0)
@@ -72,8 +104,12 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
 
   // set server specific event emitters
   socketEmitter.on(SocketEvent.CONNECTION_OPEN, (uri: string) => {
-    reconnectCounter = 0
     log(`${uri} ** Connected **`)
+    downServers.delete(uri)
+    // Keep backing off from the primary servers while on the fallback
+    if (isEsploraUri(uri)) return
+    reconnectCounter = 0
+    stopFallbackServers()
   })
   socketEmitter.on(
     SocketEvent.CONNECTION_CLOSE,
@@ -85,6 +121,7 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
       log(`${uri} onClose ${msg}`)
       if (error != null) {
         pluginState.serverScoreDown(uri)
+        downServers.add(uri)
       }
       reconnect()
     }
@@ -129,6 +166,30 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
     addresses: new Set(),
     blockHeight: 0
   })
+  // The wallet's accounts as descriptors, for backends which derive the
+  // wallet's addresses themselves
+  const getWalletDescriptors = (): string[] => {
+    const { publicKey, walletFormats } = walletInfo.keys
+    const descriptors: string[] = []
+    for (const format of walletFormats) {
+      const xpub = publicKey.publicKeys[format]
+      if (xpub == null) continue
+      try {
+        descriptors.push(
+          formatToDescriptor({
+            format,
+            xpub,
+            coin: pluginInfo.coinInfo.name,
+            multisig: publicKey.multisig
+          })
+        )
+      } catch (e) {
+        log.warn(`no descriptor for ${format}: ${e.message}`)
+      }
+    }
+    return descriptors
+  }
+
   const setPickNextTaskCB = (
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     callback: (uri: string) => Promise<boolean | WsTask<any> | undefined>
@@ -150,6 +211,19 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
     }
   }
 
+  // Gives up the fallback connection for the primary server which is back
+  const stopFallbackServers = (): void => {
+    serverList = serverList.filter(uri => !isEsploraUri(uri))
+    for (const uri of Object.keys(serverStatesCache)) {
+      if (!isEsploraUri(uri)) continue
+      log(`${uri} no longer needed as a fallback`)
+      serverStatesCache[uri].blockbook.disconnect().catch(e => {
+        log.error(`${JSON.stringify(e.message)}`)
+      })
+      removeItem(serverStatesCache, uri)
+    }
+  }
+
   const reconnect = (): void => {
     if (isEngineOn) {
       log(`attempting server reconnect number ${reconnectCounter}`)
@@ -173,9 +247,20 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
   }
 
   const doRefillServers = (): void => {
-    const includePatterns = ['wss:', 'ws:']
     if (serverList.length === 0) {
-      serverList = pluginState.getLocalServers(NEW_CONNECTIONS, includePatterns)
+      serverList = pluginState.getLocalServers(
+        NEW_CONNECTIONS,
+        PRIMARY_SERVER_PATTERNS
+      )
+      if (serverList.every(uri => downServers.has(uri))) {
+        serverList = [
+          ...pluginState.getLocalServers(
+            NEW_CONNECTIONS,
+            FALLBACK_SERVER_PATTERNS
+          ),
+          ...serverList
+        ]
+      }
     }
     log(`refillServers: Top ${NEW_CONNECTIONS} servers:`, serverList)
     let chanceToBePicked = 1.25
@@ -190,6 +275,14 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
       // Skip reconnecting to an existing connection
       if (serverStatesCache[uri] != null) continue
 
+      // A single fallback connection leaves room to retry the primary servers
+      if (
+        isEsploraUri(uri) &&
+        Object.keys(serverStatesCache).some(isEsploraUri)
+      ) {
+        continue
+      }
+
       // Validate the URI of server to make sure it is valid
       const parsed = parse(uri)
       if (
@@ -207,8 +300,8 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
         continue
       }
 
-      // Make new Blockbook instance
-      const blockbook = makeBlockBook({
+      // Make new Blockbook instance, or another backend speaking for it
+      const blockbookConfig: BlockBookConfig = {
         wsAddress: uri,
         socketEmitter,
         engineEmitter,
@@ -231,7 +324,20 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
         },
         walletId: walletInfo.id,
         asAddress: pluginInfo.engineInfo.asBlockbookAddress
-      })
+      }
+      const blockbook = isElectrumUri(uri)
+        ? makeElectrum({ ...blockbookConfig, coin: pluginInfo.coinInfo.name })
+        : isBitcoinCoreUri(uri)
+        ? makeBitcoinCore({
+            ...blockbookConfig,
+            fetch: io.fetch,
+            credentials: pluginState.getServerCredentials(uri),
+            descriptors: getWalletDescriptors(),
+            getBirthdayHeight
+          })
+        : isEsploraUri(uri)
+        ? makeEsplora({ ...blockbookConfig, fetch: io.fetch })
+        : makeBlockBook(blockbookConfig)
 
       // Make new ServerStates instance
       serverStatesCache[uri] = makeServerStatesCacheEntry(blockbook)
@@ -283,6 +389,13 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
     return true
   }
 
+  // Only Blockbook servers derive the addresses of an xpub themselves
+  const serverCanGetXpub = (uri: string): boolean =>
+    serverStatesCache[uri] != null &&
+    !isElectrumUri(uri) &&
+    !isBitcoinCoreUri(uri) &&
+    !isEsploraUri(uri)
+
   const serverIsAwareOfAddress = (uri: string, address: string): boolean => {
     const serverState = serverStatesCache[uri]
     if (serverState == null) return false
@@ -405,6 +518,7 @@ export function makeServerStates(config: ServerStateConfig): ServerStates {
     stop,
     serverCanGetTx,
     serverCanGetAddress,
+    serverCanGetXpub,
     serverIsAwareOfAddress,
     getServerState,
     refillServers,
@@ -21,30 +21,53 @@ import { unixTime } from '../../../util/unixTime'
 import { makeFees } from '../../fees/makeFees'
 import { EngineEmitter, EngineEvent } from '../../plugin/makeEngineEmitter'
 import { makeMetadata } from '../../plugin/makeMetadata'
-import { EngineConfig, TxOptions } from '../../plugin/types'
+import { AddressPath, EngineConfig, TxOptions } from '../../plugin/types'
 import { makeProcessor } from '../db/makeProcessor'
 import {
   fromEdgeTransaction,
   toEdgeTransaction
 } from '../db/Models/ProcessorTransaction'
 import { IProcessorTransaction, IUTXO } from '../db/types'
+import { Bip322Format } from '../keymanager/bip322'
 import {
   asNumbWalletInfo,
   asPrivateKey,
   NumbWalletInfo
 } from '../keymanager/cleaners'
+import { formatToDescriptor } from '../keymanager/descriptors'
 import {
+  accountDerivationPath,
+  addPsbtDerivations,
+  bip38ToWIF,
+  combinePsbts,
+  completePsbt,
+  finalizePsbt,
+  isBip38Key,
+  isReplaceable,
+  makeBumpTx,
+  makeCpfpTx,
   makeTx,
+  MakeTxReturn,
   MakeTxTarget,
-  PrivateKeyEncoding,
-  signTx
+  maxSpendable,
+  privateKeyToWIF,
+  seedOrMnemonicToFingerprint,
+  transactionVirtualSize,
+  verifyMessage
 } from '../keymanager/keymanager'
 import { makeUtxoEngineState, transactionChanged } from './makeUtxoEngineState'
 import { makeUtxoWalletTools } from './makeUtxoWalletTools'
 import { createPayment, getPaymentDetails, sendPayment } from './paymentRequest'
-import { asUtxoUserSettings, UtxoTxOtherParams } from './types'
+import { makeInMemorySigner, SignerInput, UtxoSigner } from './signer'
+import { asUtxoUserSettings, UtxoInfo, UtxoTxOtherParams } from './types'
 import { getOwnUtxosFromTx } from './util/getOwnUtxosFromTx'
-import { fetchOrDeriveXprivFromKeys, sumUtxos } from './utils'
+import {
+  CurrencyFormatKeys,
+  currencyFormatToPurposeType,
+  deriveSweepKeys,
+  fetchOrDeriveXprivFromKeys,
+  sumUtxos
+} from './utils'
 
 export async function makeUtxoEngine(
   config: EngineConfig
@@ -117,9 +140,364 @@ export async function makeUtxoEngine(
     walletTools,
     walletInfo,
     processor,
+    metadata,
     pluginState
   })
 
+  /**
+   * Fetches the UTXOs a spend may use, leaving out frozen UTXOs. Honors the
+   * `utxoSourceAddress` spend option and `noUnconfirmed`.
+   */
+  const fetchSpendableUtxos = async (
+    edgeSpendInfo: EdgeSpendInfo
+  ): Promise<IUTXO[]> => {
+    const { utxoSourceAddress } = edgeSpendInfo.otherParams ?? {}
+    const scriptPubkey =
+      utxoSourceAddress == null
+        ? undefined
+        : walletTools.addressToScriptPubkey(utxoSourceAddress)
+    const utxos = filterUndefined(
+      await processor.fetchUtxos({ scriptPubkey, utxoIds: [] })
+    )
+    return utxos.filter(
+      utxo =>
+        !metadata.state.frozenUtxoIds.includes(utxo.id) &&
+        (edgeSpendInfo.noUnconfirmed !== true || utxo.blockHeight > 0)
+    )
+  }
+
+  /**
+   * Finds the derivation path of one of our addresses, along with the xprivs
+   * to sign for it.
+   */
+  const fetchSigningKeys = async (
+    address: string
+  ): Promise<{ path: AddressPath; xprivKeys: CurrencyFormatKeys }> => {
+    const scriptPubkey = walletTools.addressToScriptPubkey(address)
+    const processorAddress = await processor.fetchAddress(scriptPubkey)
+    if (processorAddress?.path == null) {
+      throw new Error('Missing address to sign with')
+    }
+    const privateKey = asMaybeCurrencyPrivateKey(sensitiveWalletInfo.keys)
+
+    if (privateKey == null)
+      throw new Error('Cannot sign a message for a read-only wallet')
+
+    // Derive the xprivs on the fly, since we do not persist them
+    const xprivKeys = await fetchOrDeriveXprivFromKeys({
+      privateKey,
+      walletLocalEncryptedDisklet,
+      coin: coinInfo.name
+    })
+    return { path: processorAddress.path, xprivKeys }
+  }
+
+  /**
+   * Adds the BIP32 derivations of our inputs and outputs to a PSBT, returning
+   * the derivations of the inputs as well. Without a master fingerprint, the
+   * seed's is used if we have it, otherwise derivations are relative to the
+   * xpubs.
+   */
+  const addWalletDerivations = async (
+    psbt: NonNullable<UtxoTxOtherParams['psbt']>,
+    masterFingerprint?: string
+  ): Promise<{ psbtBase64: string; inputs: SignerInput[] }> => {
+    const privateKey = asMaybeCurrencyPrivateKey(sensitiveWalletInfo.keys)
+    const fingerprint =
+      masterFingerprint ??
+      (privateKey == null
+        ? undefined
+        : seedOrMnemonicToFingerprint({
+            seed: privateKey.seed,
+            passphrase: privateKey.passphrase,
+            seedType: privateKey.seedType,
+            coin: coinInfo.name
+          }))
+
+    const getSignerInput = async (
+      scriptPubkey: Buffer
+    ): Promise<SignerInput> => {
+      /**
+       * Buffer.from is necessary because Buffers are converted to
+       * Uint8Arrays after through passing the bridge.
+       */
+      const address = await processor.fetchAddress(
+        Buffer.from(scriptPubkey).toString('hex')
+      )
+      // Foreign inputs and outputs have no derivation info
+      if (address?.path == null) return {}
+      return {
+        path: address.path,
+        derivation: walletTools.getPsbtDerivation({
+          path: address.path,
+          masterFingerprint: fingerprint
+        })
+      }
+    }
+
+    const inputs = await Promise.all(
+      psbt.inputs.map(async input => await getSignerInput(input.scriptPubkey))
+    )
+    const outputs = await Promise.all(
+      psbt.outputs.map(
+        async output => await getSignerInput(output.scriptPubkey)
+      )
+    )
+    const psbtBase64 = addPsbtDerivations({
+      psbtBase64: psbt.base64,
+      inputs: inputs.map(input => input.derivation),
+      outputs: outputs.map(output => output.derivation)
+    })
+    return { psbtBase64, inputs }
+  }
+
+  // Set by the app to sign with a hardware wallet or other external signer
+  let externalSigner: UtxoSigner | undefined
+
+  /**
+   * Wraps an unsigned transaction from makeTx into an EdgeTransaction.
+   */
+  const makeSpendTransaction = async (args: {
+    tx: MakeTxReturn
+    edgeSpendInfo: EdgeSpendInfo
+    feeRate: number
+    ourReceiveAddresses: string[]
+  }): Promise<EdgeTransaction> => {
+    const { tx, edgeSpendInfo, feeRate, ourReceiveAddresses } = args
+
+    let nativeAmount = '0'
+    const ourScriptPubkeys: string[] = tx.inputs.map(input =>
+      input.scriptPubkey.toString('hex')
+    )
+    for (const output of tx.outputs) {
+      const scriptPubkey = output.scriptPubkey.toString('hex')
+      const own = await processor.fetchAddress(scriptPubkey)
+      if (own == null) {
+        // Not our output
+        nativeAmount = bs.sub(nativeAmount, output.value.toString())
+      } else {
+        // Our output
+        ourScriptPubkeys.push(scriptPubkey)
+      }
+    }
+
+    const networkFee = tx.fee.toString()
+    nativeAmount = bs.sub(nativeAmount, networkFee)
+
+    const otherParams: UtxoTxOtherParams = {
+      unsignedTx: tx.hex,
+      psbt: {
+        base64: tx.psbtBase64,
+        inputs: tx.inputs,
+        outputs: tx.outputs
+      },
+      edgeSpendInfo,
+      ourScriptPubkeys
+    }
+
+    const transaction = {
+      walletId: walletInfo.id,
+      ourReceiveAddresses,
+      otherParams,
+      currencyCode: currencyInfo.currencyCode,
+      txid: '',
+      date: unixTime(),
+      blockHeight: 0,
+      nativeAmount,
+      networkFee,
+      feeRateUsed: {
+        satPerVByte: feeRate
+      },
+      signedTx: ''
+    }
+
+    return transaction
+  }
+
+  /**
+   * Builds a BIP125 replacement for the unconfirmed transaction in
+   * `edgeSpendInfo.rbfTxid`. The replacement spends all of the original
+   * inputs, pays all of the original recipients and only changes the amount
+   * returned as change, adding inputs when the change cannot cover the fee.
+   *
+   * Setting `edgeSpendInfo.otherParams.cancel` instead cancels the original,
+   * sending all of its inputs minus the fee back to a fresh change address.
+   */
+  const makeReplacementSpend = async (
+    edgeSpendInfo: EdgeSpendInfo,
+    feeRate: number
+  ): Promise<EdgeTransaction> => {
+    const { rbfTxid } = edgeSpendInfo
+    const cancel = edgeSpendInfo.otherParams?.cancel === true
+    if (rbfTxid == null) throw new Error('Missing transaction to replace')
+    const [replacedTx] = await processor.fetchTransactions({ txId: rbfTxid })
+    if (replacedTx == null) throw new Error('transaction not found')
+    if (replacedTx.blockHeight > 0) {
+      throw new Error('Cannot replace a confirmed transaction')
+    }
+    if (!isReplaceable(replacedTx.hex)) {
+      throw new Error('Transaction does not signal replace-by-fee')
+    }
+
+    const replacedUtxos = filterUndefined(
+      await processor.fetchUtxos({
+        utxoIds: replacedTx.inputs.map(
+          ({ txId, outputIndex }) => `${txId}_${outputIndex}`
+        )
+      })
+    )
+    if (replacedUtxos.length !== replacedTx.inputs.length) {
+      log.error('transaction to be replaced found, but not its input utxos')
+      throw new Error(
+        'transaction to be replaced found, but not its input utxos'
+      )
+    }
+
+    // Outputs on our change branch are change, everything else is a recipient.
+    // A cancellation drops every output and only pays back to us.
+    const targets: MakeTxTarget[] = []
+    const ourReceiveAddresses: string[] = []
+    let changeAddress: string | undefined
+    for (const output of cancel ? [] : replacedTx.outputs) {
+      const { scriptPubkey } = output
+      const path = (await processor.fetchAddress(scriptPubkey))?.path
+      if (path != null) {
+        const { address } = walletTools.scriptPubkeyToAddress({
+          scriptPubkey,
+          changePath: path
+        })
+        if (path.changeIndex === 1 && changeAddress == null) {
+          changeAddress = address
+          continue
+        }
+        ourReceiveAddresses.push(address)
+      }
+      targets.push({ scriptPubkey, value: parseInt(output.amount) })
+    }
+    if (changeAddress == null) {
+      const freshAddress = await engineState.getFreshAddress({ branch: 1 })
+      changeAddress = freshAddress.segwitAddress ?? freshAddress.publicAddress
+    }
+
+    // Extra inputs must be confirmed (BIP125 rule 2) and cannot come from
+    // the transaction being replaced. A cancellation never needs them.
+    const utxos = cancel
+      ? []
+      : filterUndefined(await processor.fetchUtxos({ utxoIds: [] })).filter(
+          utxo =>
+            utxo.blockHeight > 0 &&
+            utxo.txid !== rbfTxid &&
+            !metadata.state.frozenUtxoIds.includes(utxo.id)
+        )
+
+    const action = cancel ? 'Cancelling' : 'Replacing'
+    log.warn(`spend: ${action} ${rbfTxid} with fee rate ${feeRate} sat/B`)
+    const tx = makeBumpTx({
+      replacedUtxos,
+      replacedFee: parseInt(replacedTx.fees),
+      utxos,
+      targets,
+      feeRate,
+      coin: coinInfo.name,
+      currencyCode: currencyInfo.currencyCode,
+      freshChangeAddress: changeAddress,
+      log,
+      outputSort: 'bip69'
+    })
+    if (tx.changeUsed) {
+      ourReceiveAddresses.push(changeAddress)
+    } else if (cancel) {
+      // Everything went to fees, so there is nothing left to send back
+      throw new InsufficientFundsError(currencyInfo.currencyCode)
+    }
+
+    return await makeSpendTransaction({
+      tx,
+      edgeSpendInfo,
+      feeRate,
+      ourReceiveAddresses
+    })
+  }
+
+  /**
+   * Builds a child-pays-for-parent transaction for one or more unconfirmed
+   * parents. The child spends the largest of our outputs from each parent
+   * and pays enough fee for the whole package to reach the given fee rate.
+   * Unconfirmed ancestors of the parents are not taken into account.
+   */
+  const makeCpfpSpend = async (
+    edgeSpendInfo: EdgeSpendInfo,
+    parentTxids: string | string[],
+    feeRate: number
+  ): Promise<EdgeTransaction> => {
+    const txids = typeof parentTxids === 'string' ? [parentTxids] : parentTxids
+    if (txids.length < 1) throw new Error('Need to provide parent transactions')
+
+    const parentUtxos: IUTXO[] = []
+    let parentFee = 0
+    let parentVsize = 0
+    for (const txid of txids) {
+      const [parentTx] = await processor.fetchTransactions({ txId: txid })
+      if (parentTx == null) throw new Error('transaction not found')
+      if (parentTx.blockHeight > 0) {
+        throw new Error(`Transaction ${txid} is already confirmed`)
+      }
+
+      const outputs = filterUndefined(
+        await processor.fetchUtxos({
+          utxoIds: parentTx.ourOuts.map(n => `${txid}_${n}`)
+        })
+      ).filter(utxo => !utxo.spent)
+      if (outputs.length < 1) {
+        throw new Error(`Transaction ${txid} has no outputs we can spend`)
+      }
+      parentUtxos.push(
+        outputs.reduce((a, b) => (bs.gt(a.value, b.value) ? a : b))
+      )
+      parentFee += parseInt(parentTx.fees)
+      parentVsize += transactionVirtualSize(parentTx.hex)
+    }
+
+    // Extra inputs must be confirmed, since unconfirmed ones would bring
+    // their own parents into the package
+    const utxos = filterUndefined(
+      await processor.fetchUtxos({ utxoIds: [] })
+    ).filter(
+      utxo =>
+        utxo.blockHeight > 0 && !metadata.state.frozenUtxoIds.includes(utxo.id)
+    )
+
+    const freshAddress = await engineState.getFreshAddress({ branch: 1 })
+    const freshChangeAddress =
+      freshAddress.segwitAddress ?? freshAddress.publicAddress
+
+    log.warn(`spend: CPFP for ${txids.join(', ')} at fee rate ${feeRate} sat/B`)
+    const tx = makeCpfpTx({
+      parentUtxos,
+      parentFee,
+      parentVsize,
+      utxos,
+      targets: [],
+      feeRate,
+      coin: coinInfo.name,
+      currencyCode: currencyInfo.currencyCode,
+      setRBF: false,
+      freshChangeAddress,
+      log,
+      outputSort: 'bip69'
+    })
+    if (!tx.changeUsed) {
+      throw new InsufficientFundsError(currencyInfo.currencyCode)
+    }
+
+    return await makeSpendTransaction({
+      tx,
+      edgeSpendInfo,
+      feeRate,
+      ourReceiveAddresses: [freshChangeAddress]
+    })
+  }
+
   const fns: EdgeCurrencyEngine = {
     async startEngine(): Promise<void> {
       emitter.emit(
@@ -211,16 +589,51 @@ export async function makeUtxoEngine(
     getDisplayPrivateSeed(): string | null {
       const privateKey = asMaybeCurrencyPrivateKey(sensitiveWalletInfo.keys)
       if (privateKey == null) return null
-      return privateKey.format === 'bip32'
-        ? Buffer.from(privateKey.seed, 'base64').toString('hex')
-        : privateKey.seed
+      if (privateKey.format === 'bip32') {
+        return Buffer.from(privateKey.seed, 'base64').toString('hex')
+      }
+      // The seed cannot be restored without its passphrase
+      return privateKey.passphrase == null
+        ? privateKey.seed
+        : `${privateKey.seed}\nPassphrase: ${privateKey.passphrase}`
     },
 
     getDisplayPublicSeed(): string | null {
-      const xpubs = publicKey.publicKeys
-      return Object.values(xpubs)
-        .filter(xpub => xpub != null)
-        .join('\n')
+      // Key origins need the master fingerprint, so only wallets with their
+      // seed can include them
+      const privateKey = asMaybeCurrencyPrivateKey(sensitiveWalletInfo.keys)
+      const fingerprint =
+        privateKey == null
+          ? undefined
+          : seedOrMnemonicToFingerprint({
+              seed: privateKey.seed,
+              passphrase: privateKey.passphrase,
+              seedType: privateKey.seedType,
+              coin: coinInfo.name
+            })
+
+      const descriptors: string[] = []
+      for (const format of walletFormats) {
+        const xpub = publicKey.publicKeys[format]
+        if (xpub == null) continue
+        const path = accountDerivationPath({
+          type: currencyFormatToPurposeType(format),
+          coin: coinInfo.name,
+          coinType: coinInfo.coinType,
+          account: publicKey.account,
+          derivationPath: publicKey.derivationPath
+        })
+        descriptors.push(
+          formatToDescriptor({
+            format,
+            xpub,
+            coin: coinInfo.name,
+            origin: fingerprint == null ? undefined : { fingerprint, path },
+            multisig: publicKey.multisig
+          })
+        )
+      }
+      return descriptors.join('\n')
     },
 
     async getEnabledTokens(): Promise<string[]> {
@@ -279,20 +692,66 @@ export async function makeUtxoEngine(
       return addressData.used
     },
 
+    async getMaxSpendable(edgeSpendInfo: EdgeSpendInfo): Promise<string> {
+      const [maxTarget, ...otherTargets] = edgeSpendInfo.spendTargets
+      if (maxTarget == null) throw new Error('Need to provide Spend Targets')
+      const targets: MakeTxTarget[] = edgeSpendInfo.spendTargets.map(
+        target => ({
+          address: target.publicAddress,
+          value:
+            target.nativeAmount == null
+              ? undefined
+              : parseInt(target.nativeAmount),
+          memo: target.memo
+        })
+      )
+      const utxos = await fetchSpendableUtxos(edgeSpendInfo)
+
+      // The standard fee rate depends on the amount sent
+      const getFeeRate = async (nativeAmount: string): Promise<number> =>
+        parseInt(
+          await fees.getRate({
+            ...edgeSpendInfo,
+            spendTargets: [{ ...maxTarget, nativeAmount }, ...otherTargets]
+          })
+        )
+      const getMax = (feeRate: number): number =>
+        maxSpendable({ utxos, targets, feeRate, coin: coinInfo.name })
+
+      // Start from the rate for the whole balance, which is the highest, and
+      // use a lower rate if the max amount still gets it
+      const feeRate = await getFeeRate(sumUtxos(utxos))
+      const max = getMax(feeRate)
+      const maxFeeRate = await getFeeRate(`${max}`)
+      if (maxFeeRate < feeRate) {
+        const higherMax = getMax(maxFeeRate)
+        if ((await getFeeRate(`${higherMax}`)) <= maxFeeRate) {
+          return `${higherMax}`
+        }
+      }
+      return `${max}`
+    },
+
     async makeSpend(
       edgeSpendInfo: EdgeSpendInfo,
       options?: TxOptions
     ): Promise<EdgeTransaction> {
+      // Fee bumps keep the targets of the transaction they replace
+      if (edgeSpendInfo.rbfTxid != null) {
+        const feeRate = parseInt(await fees.getRate(edgeSpendInfo))
+        return await makeReplacementSpend(edgeSpendInfo, feeRate)
+      }
+      // Child-pays-for-parent just sends to change, so needs no targets
+      if (options?.CPFP != null) {
+        const feeRate = parseInt(await fees.getRate(edgeSpendInfo))
+        return await makeCpfpSpend(edgeSpendInfo, options.CPFP, feeRate)
+      }
+
       const { spendTargets } = edgeSpendInfo
-      const { outputSort = 'bip69', utxoSourceAddress, forceChangeAddress } =
+      const { outputSort = 'bip69', forceChangeAddress } =
         edgeSpendInfo.otherParams ?? {}
 
-      let utxoScriptPubkey: string | undefined
-      if (utxoSourceAddress != null) {
-        utxoScriptPubkey = walletTools.addressToScriptPubkey(utxoSourceAddress)
-      }
-
-      if (options?.CPFP == null && spendTargets.length < 1) {
+      if (spendTargets.length < 1) {
         throw new Error('Need to provide Spend Targets')
       }
       // Calculate the total amount to send
@@ -300,14 +759,8 @@ export async function makeUtxoEngine(
         (sum, { nativeAmount }) => bs.add(sum, nativeAmount ?? '0'),
         '0'
       )
-      const utxos =
-        options?.utxos ??
-        filterUndefined(
-          (await processor.fetchUtxos({
-            scriptPubkey: utxoScriptPubkey,
-            utxoIds: []
-          })) as IUTXO[]
-        )
+      // Frozen UTXOs are only spent when explicitly passed in the options
+      const utxos = options?.utxos ?? (await fetchSpendableUtxos(edgeSpendInfo))
 
       if (
         bs.gt(totalAmountToSend, `${sumUtxos(utxos)}`) ||
@@ -316,7 +769,7 @@ export async function makeUtxoEngine(
         throw new InsufficientFundsError(currencyInfo.currencyCode)
       }
 
-      let targets: MakeTxTarget[] = []
+      const targets: MakeTxTarget[] = []
       const ourReceiveAddresses: string[] = []
       for (const target of spendTargets) {
         if (
@@ -374,47 +827,13 @@ export async function makeUtxoEngine(
         freshAddress.publicAddress
 
       const setRBF = options?.setRBF ?? false
-      const rbfTxid = edgeSpendInfo.rbfTxid
-      let maxUtxo: undefined | IUTXO
-      let feeRate = parseInt(await fees.getRate(edgeSpendInfo))
-      if (rbfTxid != null) {
-        const [rbfTx] = await processor.fetchTransactions({ txId: rbfTxid })
-        if (rbfTx == null) throw new Error('transaction not found')
-        // double the fee used for the RBF transaction
-        feeRate *= 2
-        const rbfInputs = rbfTx.inputs
-        const maxInput = rbfInputs.reduce((a, b) =>
-          bs.gt(a.amount, b.amount) ? a : b
-        )
-        const maxId = `${maxInput.txId}_${maxInput.outputIndex}`
-        maxUtxo = (await processor.fetchUtxos({ utxoIds: [maxId] }))[0]
-        if (maxUtxo == null) {
-          log.error('transaction to be replaced found, but not its input utxos')
-          throw new Error(
-            'transaction to be replaced found, but not its input utxos'
-          )
-        }
-      }
-      if (options?.CPFP != null) {
-        const [childTx] = await processor.fetchTransactions({
-          txId: options?.CPFP
-        })
-        if (childTx == null) throw new Error('transaction not found')
-        const utxos: IUTXO[] = []
-        for (const txid of childTx.ourOuts) {
-          const [output] = await processor.fetchUtxos({ utxoIds: [txid] })
-          if (output != null) utxos.push(output)
-        }
-        maxUtxo = utxos.reduce((a, b) => (bs.gt(a.value, b.value) ? a : b))
-        // cpfp just sends to change, no target addresses are required
-        targets = []
-      }
+      const feeRate = parseInt(await fees.getRate(edgeSpendInfo))
       log.warn(`spend: Using fee rate ${feeRate} sat/B`)
       const subtractFee =
         options?.subtractFee != null ? options.subtractFee : false
       const tx = makeTx({
         utxos,
-        forceUseUtxo: maxUtxo != null ? [maxUtxo] : [],
+        forceUseUtxo: [],
         targets,
         feeRate,
         coin: coinInfo.name,
@@ -429,53 +848,12 @@ export async function makeUtxoEngine(
         ourReceiveAddresses.push(freshChangeAddress)
       }
 
-      let nativeAmount = '0'
-      const ourScriptPubkeys: string[] = tx.inputs.map(input =>
-        input.scriptPubkey.toString('hex')
-      )
-      for (const output of tx.outputs) {
-        const scriptPubkey = output.scriptPubkey.toString('hex')
-        const own = await processor.fetchAddress(scriptPubkey)
-        if (own == null) {
-          // Not our output
-          nativeAmount = bs.sub(nativeAmount, output.value.toString())
-        } else {
-          // Our output
-          ourScriptPubkeys.push(scriptPubkey)
-        }
-      }
-
-      const networkFee = tx.fee.toString()
-      nativeAmount = bs.sub(nativeAmount, networkFee)
-
-      const otherParams: UtxoTxOtherParams = {
-        unsignedTx: tx.hex,
-        psbt: {
-          base64: tx.psbtBase64,
-          inputs: tx.inputs,
-          outputs: tx.outputs
-        },
+      return await makeSpendTransaction({
+        tx,
         edgeSpendInfo,
-        ourScriptPubkeys
-      }
-
-      const transaction = {
-        walletId: walletInfo.id,
-        ourReceiveAddresses,
-        otherParams,
-        currencyCode: currencyInfo.currencyCode,
-        txid: '',
-        date: unixTime(),
-        blockHeight: 0,
-        nativeAmount,
-        networkFee,
-        feeRateUsed: {
-          satPerVByte: feeRate
-        },
-        signedTx: ''
-      }
-
-      return transaction
+        feeRate,
+        ourReceiveAddresses
+      })
     },
 
     async resyncBlockchain(): Promise<void> {
@@ -525,58 +903,66 @@ export async function makeUtxoEngine(
       if (psbt == null || edgeSpendInfo == null)
         throw new Error('Invalid transaction data')
 
-      const privateKey = asMaybeCurrencyPrivateKey(sensitiveWalletInfo.keys)
-
-      if (privateKey == null)
-        throw new Error('Cannot sign a transaction for a read-only wallet')
-
-      // Derive the xprivs on the fly, since we do not persist them
-      const xprivKeys = await fetchOrDeriveXprivFromKeys({
-        privateKey,
-        walletLocalEncryptedDisklet,
-        coin: coinInfo.name
-      })
-
-      // Use the privateKeys (WIFs) from spendInfo, otherwise get them from the
-      // PBST inputs.
-      const privateKeyEncodings = await (async (): Promise<
-        PrivateKeyEncoding[]
-      > => {
-        if (edgeSpendInfo.privateKeys != null) {
-          return edgeSpendInfo.privateKeys.map(wif =>
-            walletTools.getPrivateKeyEncodingFromWif(wif)
-          )
-        } else {
-          return await Promise.all(
-            psbt.inputs.map(async ({ hash, index }) => {
-              const txid = Buffer.from(hash).reverse().toString('hex')
-
-              const [utxo] = await processor.fetchUtxos({
-                utxoIds: [`${txid}_${index}`]
-              })
-              if (utxo == null) throw new Error('Invalid UTXO')
-
-              const address = await processor.fetchAddress(utxo.scriptPubkey)
-              if (address?.path == null)
-                throw new Error('Invalid script pubkey')
-
-              const privateKey = walletTools.getPrivateKey({
-                path: address.path,
-                xprivKeys
-              })
-              return {
-                hex: privateKey,
-                compressed: true // We shouldn't ever be storing/deriving uncompressed keys
-              }
-            })
+      const signer = ((): UtxoSigner => {
+        // Sweeps are signed with the private keys (WIFs) they were made with
+        const { privateKeys } = otherParams
+        if (privateKeys != null) {
+          return makeInMemorySigner(async () =>
+            privateKeys.map(wif =>
+              walletTools.getPrivateKeyEncodingFromWif(wif)
+            )
           )
         }
+        if (externalSigner != null) return externalSigner
+
+        const privateKey = asMaybeCurrencyPrivateKey(sensitiveWalletInfo.keys)
+        if (privateKey == null)
+          throw new Error('Cannot sign a transaction for a read-only wallet')
+
+        return makeInMemorySigner(async inputs => {
+          // Derive the xprivs on the fly, since we do not persist them
+          const xprivKeys = await fetchOrDeriveXprivFromKeys({
+            privateKey,
+            walletLocalEncryptedDisklet,
+            coin: coinInfo.name
+          })
+          return inputs.map(({ path }) => {
+            if (path == null) throw new Error('Invalid script pubkey')
+            return {
+              hex: walletTools.getPrivateKey({ path, xprivKeys }),
+              compressed: true // We shouldn't ever be storing/deriving uncompressed keys
+            }
+          })
+        })
       })()
-      const signedTx = await signTx({
-        psbtBase64: psbt.base64,
+
+      const { psbtBase64, inputs } = await addWalletDerivations(
+        psbt,
+        signer.masterFingerprint
+      )
+      // External signers could return the PSBT of another transaction than
+      // the one the user approved, which completePsbt rejects
+      const signedTx = completePsbt({
+        psbtBase64: await signer.signPsbt({
+          psbtBase64,
+          inputs,
+          coin: coinInfo.name
+        }),
         coin: coinInfo.name,
-        privateKeyEncodings: privateKeyEncodings
+        unsignedPsbtBase64: psbtBase64
       })
+
+      // Multisig transactions still waiting for cosigners keep the partially
+      // signed PSBT, which can be passed around using exportPsbt/importPsbt
+      if (!signedTx.complete) {
+        transaction.otherParams = {
+          ...otherParams,
+          psbt: { ...psbt, base64: signedTx.psbtBase64 }
+        }
+        transaction.date = unixTime()
+        return transaction
+      }
+
       transaction.txid = signedTx.id
       transaction.signedTx = signedTx.hex
 
@@ -621,20 +1007,56 @@ export async function makeUtxoEngine(
         )
       }
 
+      if (spendInfo.privateKeys == null || spendInfo.privateKeys.length < 1) {
+        throw new Error('No private keys given')
+      }
+      const { bip38Passphrase, bip39Passphrase } = spendInfo.otherParams ?? {}
+
+      // A mnemonic or an extended private key sweeps a whole HD wallet
+      const sweepKeys =
+        spendInfo.privateKeys.length === 1
+          ? deriveSweepKeys({
+              engineInfo,
+              key: spendInfo.privateKeys[0],
+              passphrase: bip39Passphrase,
+              coin: coinInfo.name,
+              coinType: coinInfo.coinType
+            })
+          : undefined
+
       const tmpWalletInfo: NumbWalletInfo = {
         id: walletInfo.id,
         type: walletInfo.type,
         keys: {
           privateKeyFormat: walletInfo.keys.privateKeyFormat,
-          walletFormats: allFormats,
+          walletFormats:
+            sweepKeys == null
+              ? allFormats
+              : allFormats.filter(format => sweepKeys.xpubKeys[format] != null),
           publicKey: {
-            publicKeys: {}
+            publicKeys: sweepKeys?.xpubKeys ?? {}
           }
         }
       }
 
-      const privateKeys = spendInfo.privateKeys ?? []
-      if (privateKeys.length < 1) throw new Error('No private keys given')
+      // Decrypt BIP38 keys one at a time, since scrypt is memory hungry
+      const privateKeys: string[] = []
+      for (const key of spendInfo.privateKeys) {
+        if (!isBip38Key(key)) {
+          privateKeys.push(key)
+          continue
+        }
+        if (bip38Passphrase == null) {
+          throw new Error('Missing passphrase for BIP38 private key')
+        }
+        privateKeys.push(
+          await bip38ToWIF({
+            encryptedKey: key,
+            passphrase: bip38Passphrase,
+            coin: coinInfo.name
+          })
+        )
+      }
 
       // Make temporary wallet disklet
       const tmpDisklet = makeMemoryDisklet()
@@ -658,9 +1080,9 @@ export async function makeUtxoEngine(
           try {
             await tmpState.stop()
 
-            const tmpUtxos = (await tmpProcessor.fetchUtxos({
-              utxoIds: []
-            })) as IUTXO[]
+            const tmpUtxos = filterUndefined(
+              await tmpProcessor.fetchUtxos({ utxoIds: [] })
+            ).filter(utxo => !metadata.state.frozenUtxoIds.includes(utxo.id))
             if (tmpUtxos === null || tmpUtxos.length < 1) {
               throw new Error('Private key has no funds')
             }
@@ -672,6 +1094,30 @@ export async function makeUtxoEngine(
             ]
             // @ts-expect-error TODO: TheCharlatan - add option to makeSpend declaration in edge-core-js
             const tx = await this.makeSpend(spendInfo, options)
+            const txOtherParams = tx.otherParams as UtxoTxOtherParams
+            let signingKeys = privateKeys
+            if (sweepKeys != null) {
+              // Signing takes one key per input, in the order of the inputs
+              const { psbt } = txOtherParams
+              signingKeys = await Promise.all(
+                (psbt?.inputs ?? []).map(async ({ scriptPubkey }) => {
+                  const address = await tmpProcessor.fetchAddress(
+                    scriptPubkey.toString('hex')
+                  )
+                  if (address?.path == null) {
+                    throw new Error('Invalid script pubkey')
+                  }
+                  return privateKeyToWIF({
+                    privateKey: tmpWalletTools.getPrivateKey({
+                      path: address.path,
+                      xprivKeys: sweepKeys.xprivKeys
+                    }),
+                    coin: coinInfo.name
+                  })
+                })
+              )
+            }
+            tx.otherParams = { ...txOtherParams, privateKeys: signingKeys }
             success(tx)
           } catch (e) {
             failure(e)
@@ -691,15 +1137,17 @@ export async function makeUtxoEngine(
           ...pluginInfo,
           engineInfo: {
             ...engineInfo,
-            // Disables setLookAhead because we're gonna load from WIFs
-            gapLimit: 0
+            // Disables setLookAhead when we're gonna load from WIFs, while
+            // HD wallets use the gap limit to discover their addresses
+            gapLimit: sweepKeys == null ? 0 : engineInfo.gapLimit
           }
         },
         processor: tmpProcessor,
+        metadata: tmpMetadata,
         walletTools: tmpWalletTools,
         walletInfo: tmpWalletInfo
       })
-      await tmpState.loadWifs(privateKeys)
+      if (sweepKeys == null) await tmpState.loadWifs(privateKeys)
       await tmpState.start()
 
       return await end
@@ -710,29 +1158,157 @@ export async function makeUtxoEngine(
         message: string,
         address: string
       ): Promise<string> => {
-        const scriptPubkey = walletTools.addressToScriptPubkey(address)
-        const processorAddress = await processor.fetchAddress(scriptPubkey)
-        if (processorAddress?.path == null) {
-          throw new Error('Missing address to sign with')
+        const { path, xprivKeys } = await fetchSigningKeys(address)
+        return walletTools.signMessageBase64({ path, message, xprivKeys })
+      },
+
+      signMessageBip322: async (
+        message: string,
+        address: string,
+        format: Bip322Format = 'simple'
+      ): Promise<string> => {
+        const { path, xprivKeys } = await fetchSigningKeys(address)
+        return walletTools.signMessageBip322({
+          path,
+          message,
+          xprivKeys,
+          format
+        })
+      },
+
+      verifyMessage: async (
+        message: string,
+        address: string,
+        signature: string
+      ): Promise<boolean> =>
+        verifyMessage({ message, address, signature, coin: coinInfo.name }),
+
+      listUtxos: async (): Promise<UtxoInfo[]> => {
+        const { frozenUtxoIds, lastSeenBlockHeight } = metadata.state
+        const utxos = filterUndefined(
+          await processor.fetchUtxos({ utxoIds: [] })
+        )
+        return await Promise.all(
+          utxos.map(async utxo => {
+            const processorAddress = await processor.fetchAddress(
+              utxo.scriptPubkey
+            )
+            const path = processorAddress?.path
+            const address =
+              path == null
+                ? undefined
+                : walletTools.scriptPubkeyToAddress({
+                    changePath: path,
+                    scriptPubkey: utxo.scriptPubkey
+                  }).address
+            const confirmations =
+              utxo.blockHeight > 0
+                ? Math.max(lastSeenBlockHeight - utxo.blockHeight + 1, 0)
+                : 0
+            return {
+              ...utxo,
+              address,
+              path,
+              confirmations,
+              frozen: frozenUtxoIds.includes(utxo.id)
+            }
+          })
+        )
+      },
+
+      freezeUtxos: async (utxoIds: string[]): Promise<void> => {
+        const utxos = await processor.fetchUtxos({ utxoIds: [...utxoIds] })
+        utxos.forEach((utxo, i) => {
+          if (utxo == null) throw new Error(`UTXO not found: ${utxoIds[i]}`)
+        })
+        await metadata.freezeUtxos(utxoIds)
+      },
+
+      unfreezeUtxos: async (utxoIds: string[]): Promise<void> => {
+        await metadata.unfreezeUtxos(utxoIds)
+      },
+
+      bumpFee: async (
+        txid: string,
+        satPerVByte: number
+      ): Promise<EdgeTransaction> => {
+        const edgeSpendInfo: EdgeSpendInfo = { spendTargets: [], rbfTxid: txid }
+        return await makeReplacementSpend(edgeSpendInfo, satPerVByte)
+      },
+
+      cancelTransaction: async (
+        txid: string,
+        satPerVByte: number
+      ): Promise<EdgeTransaction> => {
+        const edgeSpendInfo: EdgeSpendInfo = {
+          spendTargets: [],
+          rbfTxid: txid,
+          otherParams: { cancel: true }
         }
-        const privateKey = asMaybeCurrencyPrivateKey(sensitiveWalletInfo.keys)
+        return await makeReplacementSpend(edgeSpendInfo, satPerVByte)
+      },
 
-        if (privateKey == null)
-          throw new Error('Cannot sign a message for a read-only wallet')
+      exportPsbt: async (
+        transaction: EdgeTransaction,
+        masterFingerprint?: string
+      ): Promise<string> => {
+        const otherParams = transaction.otherParams as UtxoTxOtherParams
+        if (otherParams?.psbt == null)
+          throw new Error('Invalid transaction data')
+        const { psbt } = otherParams
+
+        if (
+          masterFingerprint != null &&
+          !/^[0-9a-f]{8}$/i.test(masterFingerprint)
+        ) {
+          throw new Error('Invalid master fingerprint')
+        }
 
-        // Derive the xprivs on the fly, since we do not persist them
-        const xprivKeys = await fetchOrDeriveXprivFromKeys({
-          privateKey,
-          walletLocalEncryptedDisklet,
+        const { psbtBase64 } = await addWalletDerivations(
+          psbt,
+          masterFingerprint
+        )
+        return psbtBase64
+      },
+
+      combinePsbts: async (psbtBase64s: string[]): Promise<string> => {
+        return combinePsbts(psbtBase64s)
+      },
+
+      /**
+       * Signs the wallet's transactions with a hardware wallet or other
+       * external signer, or with the wallet's own keys again if undefined.
+       */
+      setExternalSigner: async (signer?: UtxoSigner): Promise<void> => {
+        externalSigner = signer
+      },
+
+      importPsbt: async (
+        transaction: EdgeTransaction,
+        psbtBase64: string
+      ): Promise<EdgeTransaction> => {
+        const otherParams = transaction.otherParams as UtxoTxOtherParams
+        if (otherParams?.psbt == null)
+          throw new Error('Invalid transaction data')
+
+        // Combining with our own PSBT fails if the signed PSBT is for a
+        // different transaction
+        const combinedPsbt = combinePsbts([otherParams.psbt.base64, psbtBase64])
+        const signedTx = finalizePsbt({
+          psbtBase64: combinedPsbt,
           coin: coinInfo.name
         })
 
-        const signature = await walletTools.signMessageBase64({
-          path: processorAddress?.path,
-          message,
-          xprivKeys
-        })
-        return signature
+        return {
+          ...transaction,
+          txid: signedTx.id,
+          signedTx: signedTx.hex,
+          date: unixTime(),
+          otherParams: {
+            ...otherParams,
+            psbt: { ...otherParams.psbt, base64: combinedPsbt }
+          }
+        }
       }
     }
   }
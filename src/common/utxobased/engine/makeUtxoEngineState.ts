@@ -7,7 +7,9 @@ import {
   EdgeTransaction
 } from 'edge-core-js/types'
 
+import { unixTime } from '../../../util/unixTime'
 import { EngineEmitter, EngineEvent } from '../../plugin/makeEngineEmitter'
+import { Metadata } from '../../plugin/makeMetadata'
 import { PluginState } from '../../plugin/pluginState'
 import {
   AddressPath,
@@ -38,22 +40,34 @@ import {
   addressUtxosMessage,
   AddressUtxosResponse,
   BlockbookAccountUtxo,
+  findTransactionMessage,
   SubscribeAddressResponse,
   transactionMessage,
   transactionMessageSpecific,
-  TransactionResponse
+  TransactionResponse,
+  xpubMessage,
+  XpubResponse,
+  XpubToken,
+  xpubUtxosMessage
 } from '../network/BlockBookAPI'
 import Deferred from '../network/Deferred'
 import { WsTask } from '../network/Socket'
 import AwaitLock from './await-lock'
-import { BLOCKBOOK_TXS_PER_PAGE, CACHE_THROTTLE } from './constants'
+import {
+  BLOCKBOOK_TXS_PER_PAGE,
+  CACHE_THROTTLE,
+  DROPPED_TX_MIN_AGE,
+  DROPPED_TX_MISSING_COUNT
+} from './constants'
 import { makeServerStates, ServerStates } from './makeServerStates'
 import { UTXOPluginWalletTools } from './makeUtxoWalletTools'
+import { getOwnUtxosFromTx } from './util/getOwnUtxosFromTx'
 import {
   getFormatSupportedBranches,
   getScriptTypeFromPurposeType,
   pathToPurposeType,
-  validScriptPubkeyFromAddress
+  validScriptPubkeyFromAddress,
+  xpubToDescriptor
 } from './utils'
 
 export interface UtxoEngineState {
@@ -89,6 +103,7 @@ export interface UtxoEngineStateConfig extends EngineConfig {
   walletTools: UTXOPluginWalletTools
   walletInfo: NumbWalletInfo
   processor: Processor
+  metadata: Metadata
 }
 
 export function makeUtxoEngineState(
@@ -100,7 +115,8 @@ export function makeUtxoEngineState(
     walletTools,
     options: { emitter, log },
     processor,
-    pluginState
+    pluginState,
+    metadata
   } = config
 
   const { walletFormats } = walletInfo.keys
@@ -113,7 +129,10 @@ export function makeUtxoEngineState(
     rawUtxoCache: {},
     processorUtxoCache: {},
     updateTransactionCache: {},
-    updateTransactionSpecificCache: {}
+    updateTransactionSpecificCache: {},
+    missingTransactionCache: {},
+    xpubTransactionCache: {},
+    xpubUtxoCache: {}
   }
 
   const clearTaskCache = (): void => {
@@ -139,6 +158,15 @@ export function makeUtxoEngineState(
     for (const key of Object.keys(taskCache.updateTransactionSpecificCache)) {
       removeItem(taskCache.updateTransactionSpecificCache, key)
     }
+    for (const key of Object.keys(taskCache.missingTransactionCache)) {
+      removeItem(taskCache.missingTransactionCache, key)
+    }
+    for (const key of Object.keys(taskCache.xpubTransactionCache)) {
+      removeItem(taskCache.xpubTransactionCache, key)
+    }
+    for (const key of Object.keys(taskCache.xpubUtxoCache)) {
+      removeItem(taskCache.xpubUtxoCache, key)
+    }
   }
 
   /**
@@ -149,6 +177,7 @@ export function makeUtxoEngineState(
   const processesPerAddress = 2
   let processedCount = 0
   let processedPercent = 0 // last sync ratio emitted
+  const syncCheckpoint = makeSyncCheckpoint({ emitter, metadata })
   const updateProgressRatio = async (): Promise<void> => {
     // Avoid re-sending sync ratios / sending ratios larger than 1
     if (processedPercent >= 1) return
@@ -172,16 +201,22 @@ export function makeUtxoEngineState(
       processedPercent = percent
       emitter.emit(EngineEvent.ADDRESSES_CHECKED, percent)
     }
+
+    // Later syncs need only ask for the history after this one
+    if (percent === 1) await syncCheckpoint.save()
   }
 
   const lock = new AwaitLock()
 
   const serverStates = makeServerStates({
     engineEmitter: emitter,
+    io: config.io,
     log,
     pluginInfo,
     pluginState,
-    walletInfo
+    walletInfo,
+    getBirthdayHeight: async () =>
+      await getBirthdayHeight({ metadata, processor })
   })
   const commonArgs: CommonArgs = {
     pluginInfo,
@@ -214,12 +249,15 @@ export function makeUtxoEngineState(
     running = true
 
     await initializeAddressSubscriptions()
+    initializeXpubSync()
     await setLookAhead(commonArgs)
   }
 
   emitter.on(
     EngineEvent.BLOCK_HEIGHT_CHANGED,
-    async (_uri: string, _blockHeight: number): Promise<void> => {
+    async (): Promise<void> => {
+      // Queries only ask for the history after the last sync, so recheck the
+      // transactions which were unconfirmed by then
       const txs = await processor.fetchTransactions({
         blockHeight: 0
       })
@@ -323,11 +361,41 @@ export function makeUtxoEngineState(
     )
   }
 
+  // Queue the accounts which Blockbook servers can query as a whole, rather
+  // than address by address. This happens only once, after the addresses are
+  // initialized.
+  const initializeXpubSync = (): void => {
+    const { publicKey } = walletInfo.keys
+
+    // Blockbook derives neither multisig addresses nor script templates
+    if (
+      publicKey.multisig != null ||
+      pluginInfo.engineInfo.scriptTemplates != null
+    ) {
+      return
+    }
+
+    for (const format of walletFormats) {
+      const xpub = publicKey.publicKeys[format]
+      if (xpub == null || !XPUB_FORMATS.includes(format)) continue
+      taskCache.xpubTransactionCache[format] = {
+        processing: false,
+        format,
+        descriptor: xpubToDescriptor(format, xpub),
+        page: 1,
+        from: metadata.state.syncCheckpoint,
+        blockHeight: 0,
+        addresses: []
+      }
+    }
+  }
+
   return {
     processedPercent,
     async start(): Promise<void> {
       processedCount = 0
       processedPercent = 0
+      syncCheckpoint.start()
 
       await run()
       serverStates.refillServers()
@@ -510,6 +578,75 @@ export function makeUtxoEngineState(
   }
 }
 
+interface SyncCheckpointConfig {
+  emitter: EngineEmitter
+  metadata: Metadata
+}
+
+export interface SyncCheckpoint {
+  // Begins recording the block heights of a sync
+  start: () => void
+  // Saves the checkpoint the next sync queries the history from
+  save: () => Promise<void>
+}
+
+// Tracks the lowest block height the servers report during a sync, up to
+// which every address's history is known once the sync completes
+export const makeSyncCheckpoint = (
+  config: SyncCheckpointConfig
+): SyncCheckpoint => {
+  const { emitter, metadata } = config
+  let syncing = false
+  let syncBlockHeight: number | undefined
+
+  emitter.on(
+    EngineEvent.BLOCK_HEIGHT_CHANGED,
+    (_uri: string, blockHeight: number): void => {
+      if (!syncing) return
+      if (syncBlockHeight == null || blockHeight < syncBlockHeight) {
+        syncBlockHeight = blockHeight
+      }
+    }
+  )
+
+  return {
+    start(): void {
+      syncing = true
+      syncBlockHeight = undefined
+    },
+
+    async save(): Promise<void> {
+      syncing = false
+      if (syncBlockHeight == null) return
+      await metadata.setSyncCheckpoint(syncBlockHeight)
+    }
+  }
+}
+
+interface GetBirthdayHeightArgs {
+  metadata: Metadata
+  processor: Processor
+}
+
+// The height of the wallet's first transaction, which the history before the
+// sync checkpoint is known from. Wallets never synced may have history from
+// any height.
+export const getBirthdayHeight = async (
+  args: GetBirthdayHeightArgs
+): Promise<number> => {
+  const { metadata, processor } = args
+  const { syncCheckpoint } = metadata.state
+  if (syncCheckpoint === 0) return 0
+  const txs = await processor.fetchTransactions({
+    blockHeight: 1,
+    blockHeightMax: syncCheckpoint
+  })
+  return txs.reduce(
+    (height, tx) => (tx == null ? height : Math.min(height, tx.blockHeight)),
+    syncCheckpoint
+  )
+}
+
 interface CommonArgs {
   pluginInfo: PluginInfo
   walletInfo: NumbWalletInfo
@@ -535,6 +672,9 @@ interface TaskCache {
   readonly addressTransactionCache: AddressTransactionCache
   readonly updateTransactionCache: UpdateTransactionCache
   readonly updateTransactionSpecificCache: UpdateTransactionSpecificCache
+  readonly missingTransactionCache: MissingTransactionCache
+  readonly xpubTransactionCache: XpubTransactionCache
+  readonly xpubUtxoCache: XpubUtxoCache
 }
 
 interface UpdateTransactionCache {
@@ -543,6 +683,10 @@ interface UpdateTransactionCache {
 interface UpdateTransactionSpecificCache {
   [key: string]: { processing: boolean }
 }
+interface MissingTransactionCache {
+  // Number of times the server reported the transaction as missing
+  [key: string]: number
+}
 interface AddressSubscribeCache {
   [key: string]: { processing: boolean; path: ChangePath }
 }
@@ -575,6 +719,34 @@ interface AddressTransactionCache {
   }
 }
 
+// Keyed by the format of the account
+interface XpubTransactionCache {
+  [key: string]: {
+    processing: boolean
+    format: CurrencyFormat
+    descriptor: string
+    page: number
+    // The block height to query the history from
+    from: number
+    // The block height when the first page was queried
+    blockHeight: number
+    // The addresses Blockbook derived, as listed with the first page
+    addresses: string[]
+  }
+}
+interface XpubUtxoCache {
+  [key: string]: {
+    processing: boolean
+    format: CurrencyFormat
+    descriptor: string
+    blockHeight: number
+    addresses: string[]
+  }
+}
+
+// The single signature formats whose addresses Blockbook derives from an xpub
+const XPUB_FORMATS: CurrencyFormat[] = ['bip44', 'bip49', 'bip84', 'bip86']
+
 interface FormatArgs extends CommonArgs, ChangePath {}
 
 const setLookAhead = async (common: CommonArgs): Promise<void> => {
@@ -623,7 +795,11 @@ const setLookAhead = async (common: CommonArgs): Promise<void> => {
 
       // Make a new IAddress and save it
       await processor.saveAddress(
-        makeIAddress({ scriptPubkey, redeemScript, path })
+        makeIAddress({
+          scriptPubkey,
+          redeemScript,
+          path: walletTools.withAccount(path)
+        })
       )
 
       // Add the displayAddress to the set of addresses to subscribe to after loop
@@ -723,7 +899,9 @@ export const pickNextTask = async (
     processorUtxoCache,
     addressTransactionCache,
     updateTransactionCache,
-    updateTransactionSpecificCache
+    updateTransactionSpecificCache,
+    xpubTransactionCache,
+    xpubUtxoCache
   } = taskCache
 
   /**
@@ -790,10 +968,43 @@ export const pickNextTask = async (
     }
   }
 
+  // Query whole accounts with the servers which derive their addresses, and
+  // leave the accounts to address queries once none of those are connected
+  const canGetXpub = serverStates.serverCanGetXpub(uri)
+  const anyCanGetXpub = serverStates
+    .getServerList()
+    .some(server => serverStates.serverCanGetXpub(server))
+  for (const [format, state] of Object.entries(xpubTransactionCache)) {
+    if (state.processing) continue
+    if (!canGetXpub) {
+      if (!anyCanGetXpub) stopXpubSync(taskCache, format)
+      continue
+    }
+    state.processing = true
+    return await processXpubTransactions({
+      ...args,
+      xpubTransactionState: state,
+      needsTxSpecific
+    })
+  }
+  for (const [format, state] of Object.entries(xpubUtxoCache)) {
+    if (state.processing) continue
+    if (!canGetXpub) {
+      if (!anyCanGetXpub) stopXpubSync(taskCache, format)
+      continue
+    }
+    state.processing = true
+    return await processXpubUtxos({ ...args, xpubUtxoState: state })
+  }
+
   // Loop to process addresses to utxos
   for (const [address, state] of Object.entries(addressUtxoCache)) {
     // Check if we need to fetch address UTXOs
-    if (!state.processing && serverStates.serverCanGetAddress(uri, address)) {
+    if (
+      !state.processing &&
+      !isXpubSyncing(taskCache, state.path.format) &&
+      serverStates.serverCanGetAddress(uri, address)
+    ) {
       state.processing = true
 
       removeItem(addressUtxoCache, address)
@@ -910,8 +1121,8 @@ export const pickNextTask = async (
         })
         // once resolved, add the txid to the server cache
         updateTransactionTask.deferred.promise
-          .then(() => {
-            serverState.txids.add(txId)
+          .then(txResponse => {
+            if (txResponse != null) serverState.txids.add(txId)
           })
           .catch(err => {
             updateTransactionCache[txId] = state
@@ -927,7 +1138,11 @@ export const pickNextTask = async (
 
   // loop to get and process transaction history of single addresses, triggers setLookAhead
   for (const [address, state] of Object.entries(addressTransactionCache)) {
-    if (!state.processing && serverStates.serverCanGetAddress(uri, address)) {
+    if (
+      !state.processing &&
+      !isXpubSyncing(taskCache, state.path.format) &&
+      serverStates.serverCanGetAddress(uri, address)
+    ) {
       state.processing = true
 
       removeItem(addressTransactionCache, address)
@@ -1014,7 +1229,7 @@ interface UpdateTransactionsArgs extends CommonArgs {
 
 const updateTransactions = (
   args: UpdateTransactionsArgs
-): WsTask<TransactionResponse> => {
+): WsTask<TransactionResponse | undefined> => {
   const {
     walletInfo,
     emitter,
@@ -1025,9 +1240,19 @@ const updateTransactions = (
     processor,
     taskCache
   } = args
-  const deferred = new Deferred<TransactionResponse>()
+  const deferred = new Deferred<TransactionResponse | undefined>()
   deferred.promise
-    .then(async (txResponse: TransactionResponse) => {
+    .then(async (txResponse: TransactionResponse | undefined) => {
+      // The server doesn't know the transaction, so it may have dropped it
+      if (txResponse == null) {
+        const isDropped = await checkDroppedTransaction({ ...args, txId })
+        if (!isDropped) {
+          taskCache.updateTransactionCache[txId] = { processing: false }
+        }
+        return
+      }
+      // The server still knows about the transaction, so it isn't dropped
+      removeItem(taskCache.missingTransactionCache, txId)
       // check if raw tx is still not confirmed, if so, don't change anything
       if (txResponse.blockHeight < 1) return
       // Create new tx from raw tx
@@ -1060,6 +1285,9 @@ const updateTransactions = (
         tx: processedTx
       })
 
+      // The confirmed tx evicts any unconfirmed txs spending the same outputs
+      await dropConflictingTransactions({ ...args, tx: processedTx })
+
       if (needsTxSpecific) {
         // Add task to grab transactionSpecific payload
         taskCache.updateTransactionSpecificCache[txId] = {
@@ -1073,11 +1301,236 @@ const updateTransactions = (
       taskCache.updateTransactionCache[txId] = { processing: false }
     })
   return {
-    ...transactionMessage(txId),
+    ...findTransactionMessage(txId),
     deferred
   }
 }
 
+interface CheckDroppedTransactionArgs extends CommonArgs {
+  txId: string
+}
+
+/**
+ * Counts a server report of a missing transaction and drops the transaction
+ * once it has been missing often and long enough. Returns true if the
+ * transaction no longer needs to be updated.
+ */
+export const checkDroppedTransaction = async (
+  args: CheckDroppedTransactionArgs
+): Promise<boolean> => {
+  const { processor, taskCache, txId } = args
+  const { missingTransactionCache } = taskCache
+
+  const missingCount = (missingTransactionCache[txId] ?? 0) + 1
+  missingTransactionCache[txId] = missingCount
+
+  const [tx] = await processor.fetchTransactions({ txId })
+  // The transaction was already removed or dropped, so there is nothing left
+  // to update
+  if (tx == null || tx.confirmations === 'dropped') {
+    removeItem(missingTransactionCache, txId)
+    return true
+  }
+
+  // Confirmed transactions are never dropped
+  if (tx.blockHeight > 0) return false
+  if (missingCount < DROPPED_TX_MISSING_COUNT) return false
+  // Give recently broadcast transactions time to propagate
+  if (unixTime() - tx.date < DROPPED_TX_MIN_AGE) return false
+
+  await dropTransaction({ ...args, tx })
+  return true
+}
+
+interface DropConflictingTransactionsArgs extends CommonArgs {
+  tx: IProcessorTransaction
+}
+
+/**
+ * Drops the unconfirmed transactions which spend any of the same outputs as
+ * the given transaction, because they were replaced or double-spent.
+ */
+export const dropConflictingTransactions = async (
+  args: DropConflictingTransactionsArgs
+): Promise<void> => {
+  const { processor, tx } = args
+  const spentUtxoIds = new Set(
+    tx.inputs.map(input => `${input.txId}_${input.outputIndex}`)
+  )
+
+  const unconfirmedTxs = await processor.fetchTransactions({ blockHeight: 0 })
+  for (const unconfirmedTx of unconfirmedTxs) {
+    if (unconfirmedTx == null || unconfirmedTx.txid === tx.txid) continue
+    // An unconfirmed tx can only replace older unconfirmed txs. Otherwise a
+    // stale server response could evict a newer replacement we broadcast.
+    if (tx.blockHeight === 0 && unconfirmedTx.date > tx.date) continue
+
+    const isConflicting = unconfirmedTx.inputs.some(input =>
+      spentUtxoIds.has(`${input.txId}_${input.outputIndex}`)
+    )
+    if (isConflicting) {
+      await dropTransaction({
+        ...args,
+        tx: unconfirmedTx,
+        replacedUtxoIds: spentUtxoIds
+      })
+    }
+  }
+
+  // A confirmed fee bump or cancellation replaces the transaction it links to
+  if (tx.blockHeight > 0 && tx.replacedTxid != null) {
+    const [replacedTx] = await processor.fetchTransactions({
+      txId: tx.replacedTxid
+    })
+    if (replacedTx != null && replacedTx.blockHeight <= 0) {
+      await dropTransaction({
+        ...args,
+        tx: replacedTx,
+        replacedUtxoIds: spentUtxoIds
+      })
+    }
+  }
+}
+
+interface DropTransactionArgs extends CommonArgs {
+  tx: IProcessorTransaction
+  // UTXOs spent by a replacing transaction which must not be restored
+  replacedUtxoIds?: Set<string>
+}
+
+/**
+ * Marks an unconfirmed transaction which will never confirm as dropped, along
+ * with its unconfirmed descendants. The UTXOs spent by the transaction are
+ * restored, the UTXOs created by it are removed and the address balances
+ * recomputed.
+ */
+export const dropTransaction = async (
+  args: DropTransactionArgs
+): Promise<void> => {
+  const {
+    tx,
+    replacedUtxoIds = new Set<string>(),
+    pluginInfo,
+    walletInfo,
+    walletTools,
+    processor,
+    emitter,
+    taskCache,
+    log
+  } = args
+
+  // Skip transactions which were already dropped, e.g. as a descendant
+  const [savedTx] = await processor.fetchTransactions({ txId: tx.txid })
+  if (savedTx == null || savedTx.confirmations === 'dropped') return
+
+  log(`dropping transaction ${tx.txid}`)
+
+  // Descendants spend outputs of the dropped transaction, so drop them first
+  const unconfirmedTxs = await processor.fetchTransactions({ blockHeight: 0 })
+  for (const unconfirmedTx of unconfirmedTxs) {
+    if (unconfirmedTx == null || unconfirmedTx.txid === tx.txid) continue
+    if (unconfirmedTx.inputs.some(input => input.txId === tx.txid)) {
+      await dropTransaction({ ...args, tx: unconfirmedTx })
+    }
+  }
+
+  // Outputs still spent by other unconfirmed transactions stay spent
+  const spentUtxoIds = new Set(replacedUtxoIds)
+  const remainingTxs = await processor.fetchTransactions({ blockHeight: 0 })
+  for (const unconfirmedTx of remainingTxs) {
+    if (unconfirmedTx == null || unconfirmedTx.txid === tx.txid) continue
+    for (const input of unconfirmedTx.inputs) {
+      spentUtxoIds.add(`${input.txId}_${input.outputIndex}`)
+    }
+  }
+
+  // Restore the UTXOs spent by the dropped transaction
+  const restoredUtxos: IUTXO[] = []
+  for (const input of tx.inputs) {
+    const utxoId = `${input.txId}_${input.outputIndex}`
+    if (spentUtxoIds.has(utxoId)) continue
+
+    const [utxo] = await processor.fetchUtxos({ utxoIds: [utxoId] })
+    if (utxo != null) {
+      // Must create a new IUTXO object when mutating processor objects
+      // because memlet may keep a reference in memory.
+      if (utxo.spent) restoredUtxos.push({ ...utxo, spent: false })
+      continue
+    }
+
+    // The UTXO was already removed, so rebuild it from its parent transaction
+    const [parentTx] = await processor.fetchTransactions({ txId: input.txId })
+    if (parentTx == null) continue
+    const parentUtxos = await getOwnUtxosFromTx(
+      pluginInfo.engineInfo,
+      processor,
+      parentTx
+    )
+    const parentUtxo = parentUtxos.find(utxo => utxo.id === utxoId)
+    if (parentUtxo != null) restoredUtxos.push({ ...parentUtxo, spent: false })
+  }
+
+  // Remove the UTXOs created by the dropped transaction
+  const droppedUtxoIds = tx.outputs.map(output => `${tx.txid}_${output.n}`)
+  const droppedUtxos =
+    droppedUtxoIds.length > 0
+      ? await processor.fetchUtxos({ utxoIds: droppedUtxoIds })
+      : []
+
+  // Update the full UTXO set for each affected script pubkey
+  const scriptPubkeys = new Set<string>()
+  for (const utxo of [...restoredUtxos, ...droppedUtxos]) {
+    if (utxo != null) scriptPubkeys.add(utxo.scriptPubkey)
+  }
+  for (const scriptPubkey of scriptPubkeys) {
+    const utxoMap: Map<string, IUTXO> = new Map()
+    for (const utxo of await processor.fetchUtxos({ scriptPubkey })) {
+      if (utxo != null) utxoMap.set(utxo.id, utxo)
+    }
+    for (const utxo of restoredUtxos) {
+      if (utxo.scriptPubkey === scriptPubkey) utxoMap.set(utxo.id, utxo)
+    }
+    for (const utxoId of droppedUtxoIds) {
+      utxoMap.delete(utxoId)
+    }
+
+    await processProcessorUtxos({
+      ...args,
+      scriptPubkey,
+      utxos: [...utxoMap.values()]
+    })
+
+    // Re-check the address UTXOs with the server in case our view is stale
+    const address = await processor.fetchAddress(scriptPubkey)
+    if (address?.path != null) {
+      const { format, changeIndex } = address.path
+      const { address: addressString } = walletTools.scriptPubkeyToAddress({
+        changePath: address.path,
+        scriptPubkey
+      })
+      taskCache.addressUtxoCache[addressString] = {
+        processing: false,
+        path: { format, changeIndex }
+      }
+    }
+  }
+
+  const droppedTx = await processor.dropTransaction(tx.txid)
+  removeItem(taskCache.missingTransactionCache, tx.txid)
+  removeItem(taskCache.updateTransactionCache, tx.txid)
+  removeItem(taskCache.updateTransactionSpecificCache, tx.txid)
+  if (droppedTx == null) return
+
+  await transactionChanged({
+    walletId: walletInfo.id,
+    emitter,
+    walletTools,
+    processor,
+    pluginInfo,
+    tx: droppedTx
+  })
+}
+
 interface DeriveScriptAddressArgs {
   walletTools: UTXOPluginWalletTools
   engineInfo: EngineInfo
@@ -1121,7 +1574,11 @@ const internalDeriveScriptAddress = async ({
     scriptTemplate
   })
   await processor.saveAddress(
-    makeIAddress({ scriptPubkey, redeemScript, path })
+    makeIAddress({
+      scriptPubkey,
+      redeemScript,
+      path: walletTools.withAccount(path)
+    })
   )
   const addresses = new Set<string>()
   addresses.add(address)
@@ -1252,6 +1709,7 @@ const processAddressTransactions = async (
           pluginInfo,
           tx: processedTx
         })
+        await dropConflictingTransactions({ ...args, tx: processedTx })
 
         if (needsTxSpecific) {
           // Add task to grab transactionSpecific payload
@@ -1375,58 +1833,377 @@ interface ProcessAddressUtxosArgs extends CommonArgs {
 const processAddressUtxos = async (
   args: ProcessAddressUtxosArgs
 ): Promise<WsTask<AddressUtxosResponse>> => {
+  const { address, taskCache, path, pluginInfo, pluginState, uri } = args
   const {
-    address,
-    walletTools,
+    engineInfo: { asBlockbookAddress }
+  } = pluginInfo
+  const { addressUtxoCache } = taskCache
+  const queryTime = Date.now()
+  const deferred = new Deferred<AddressUtxosResponse>()
+  deferred.promise
+    .then(async (utxos: AddressUtxosResponse) => {
+      pluginState.serverScoreUp(uri, Date.now() - queryTime)
+      await saveAddressUtxos({ ...args, utxos })
+    })
+    .catch(() => {
+      args.processing = false
+      addressUtxoCache[address] = {
+        processing: args.processing,
+        path
+      }
+    })
+
+  return {
+    ...addressUtxosMessage(address, asBlockbookAddress),
+    deferred
+  }
+}
+
+interface SaveAddressUtxosArgs extends CommonArgs {
+  address: string
+  path: ChangePath
+  utxos: AddressUtxosResponse
+}
+
+// Queues the utxos of an address for processing
+const saveAddressUtxos = async (args: SaveAddressUtxosArgs): Promise<void> => {
+  const { address, path, utxos, walletTools, processor, taskCache } = args
+  const { rawUtxoCache, processorUtxoCache } = taskCache
+  const scriptPubkey = walletTools.addressToScriptPubkey(address)
+  const addressData = await processor.fetchAddress(scriptPubkey)
+  if (addressData == null || addressData.path == null) {
+    return
+  }
+
+  if (utxos.length === 0) {
+    addToProcessorUtxoCache(processorUtxoCache, path, scriptPubkey, 0)
+    return
+  }
+
+  for (const utxo of utxos) {
+    const utxoId = `${utxo.txid}_${utxo.vout}`
+    rawUtxoCache[utxoId] = {
+      blockbookUtxo: utxo,
+      processing: false,
+      requiredCount: utxos.length,
+      path,
+      // TypeScript yells otherwise
+      address: { ...addressData, path: addressData.path }
+    }
+  }
+}
+
+// Whether the addresses of a format are left to the queries of its account
+const isXpubSyncing = (taskCache: TaskCache, format: CurrencyFormat): boolean =>
+  taskCache.xpubTransactionCache[format] != null ||
+  taskCache.xpubUtxoCache[format] != null
+
+// Leaves the addresses of a format to be queried one by one
+const stopXpubSync = (taskCache: TaskCache, format: string): void => {
+  removeItem(taskCache.xpubTransactionCache, format)
+  removeItem(taskCache.xpubUtxoCache, format)
+}
+
+interface ProcessXpubTxsArgs extends CommonArgs {
+  xpubTransactionState: XpubTransactionCache[string]
+  uri: string
+  needsTxSpecific: boolean
+}
+
+/**
+ * Fetches a page of the transactions of an account, along with the addresses
+ * Blockbook derived. The account's utxos are queried after the last page.
+ */
+export const processXpubTransactions = async (
+  args: ProcessXpubTxsArgs
+): Promise<WsTask<XpubResponse>> => {
+  const {
+    walletInfo,
+    xpubTransactionState,
+    emitter,
+    needsTxSpecific,
+    pluginInfo,
     processor,
+    walletTools,
     taskCache,
-    path,
+    pluginState,
+    serverStates,
+    log,
+    uri
+  } = args
+  const { format, descriptor, page, from } = xpubTransactionState
+  const {
+    engineInfo: { asBlockbookAddress, gapLimit }
+  } = pluginInfo
+  const {
+    addressSubscribeCache,
+    xpubTransactionCache,
+    xpubUtxoCache
+  } = taskCache
+
+  // The addresses are synced up to when the first page was queried
+  const blockHeight =
+    page === 1
+      ? serverStates.getBlockHeight(uri)
+      : xpubTransactionState.blockHeight
+  let { addresses } = xpubTransactionState
+
+  const queryTime = Date.now()
+  const deferred = new Deferred<XpubResponse>()
+  deferred.promise
+    .then(async (value: XpubResponse) => {
+      pluginState.serverScoreUp(uri, Date.now() - queryTime)
+      const { transactions, tokens, totalPages } = value
+
+      // Each page lists the same derived addresses
+      if (page === 1) {
+        addresses = tokens.map(token => token.name)
+        const isMissingHistory = await saveXpubAddresses({
+          ...args,
+          format,
+          tokens,
+          from
+        })
+
+        // Used addresses which the last sync did not query need the whole
+        // history of the account
+        if (isMissingHistory) {
+          xpubTransactionCache[format] = {
+            ...xpubTransactionState,
+            processing: false,
+            from: 0
+          }
+          return
+        }
+      }
+
+      // Process and save the account's transactions
+      for (const txResponse of transactions) {
+        const tx = processTransactionResponse({ ...args, txResponse })
+        const scriptPubkeys = new Set<string>()
+        for (const { addresses } of [...txResponse.vin, ...txResponse.vout]) {
+          for (const address of addresses) {
+            if (addressSubscribeCache[address] == null) continue
+            scriptPubkeys.add(walletTools.addressToScriptPubkey(address))
+          }
+        }
+        const processedTx = await processor.saveTransaction({
+          tx,
+          scriptPubkeys: Array.from(scriptPubkeys)
+        })
+        await transactionChanged({
+          walletId: walletInfo.id,
+          emitter,
+          walletTools,
+          processor,
+          pluginInfo,
+          tx: processedTx
+        })
+        await dropConflictingTransactions({ ...args, tx: processedTx })
+
+        if (needsTxSpecific) {
+          // Add task to grab transactionSpecific payload
+          taskCache.updateTransactionSpecificCache[tx.txid] = {
+            processing: false
+          }
+        }
+      }
+
+      if (page < totalPages) {
+        // Add the account back to the cache, incrementing the page
+        xpubTransactionCache[format] = {
+          ...xpubTransactionState,
+          processing: false,
+          page: page + 1,
+          blockHeight,
+          addresses
+        }
+        return
+      }
+
+      // Move on to the account's utxos
+      removeItem(xpubTransactionCache, format)
+      xpubUtxoCache[format] = {
+        processing: false,
+        format,
+        descriptor,
+        blockHeight,
+        addresses
+      }
+    })
+    .catch(err => {
+      log.warn(`Falling back to address queries for ${format}: ${String(err)}`)
+      stopXpubSync(taskCache, format)
+    })
+
+  return {
+    ...xpubMessage(descriptor, asBlockbookAddress, {
+      details: 'txs',
+      tokens: 'derived',
+      gap: gapLimit,
+      from,
+      pageSize: BLOCKBOOK_TXS_PER_PAGE,
+      page
+    }),
+    deferred
+  }
+}
+
+interface SaveXpubAddressesArgs extends CommonArgs {
+  format: CurrencyFormat
+  tokens: XpubToken[]
+  from: number
+}
+
+// Saves and subscribes the addresses of an account up to the last used one on
+// each branch, marking those used. The last two levels of the derivation path
+// of an address are its branch and its index. Tells whether the history of
+// any used address is unknown before the given block height.
+const saveXpubAddresses = async (
+  args: SaveXpubAddressesArgs
+): Promise<boolean> => {
+  const { format, tokens, from, processor, taskCache, walletTools } = args
+  let isMissingHistory = false
+
+  const usedIndexes = new Map<number, Set<number>>()
+  for (const { path, transfers } of tokens) {
+    // The unused addresses are derived with the look ahead
+    if (transfers === 0) continue
+    const [changeIndex, addressIndex] = path
+      .split('/')
+      .slice(-2)
+      .map(level => parseInt(level))
+    if (isNaN(changeIndex) || isNaN(addressIndex)) continue
+    const indexes = usedIndexes.get(changeIndex) ?? new Set<number>()
+    indexes.add(addressIndex)
+    usedIndexes.set(changeIndex, indexes)
+  }
+
+  for (const [changeIndex, indexes] of usedIndexes.entries()) {
+    const changePath: ChangePath = { format, changeIndex }
+    const addressesToSubscribe = new Set<string>()
+    const lastUsedIndex = Math.max(...indexes)
+    for (let addressIndex = 0; addressIndex <= lastUsedIndex; addressIndex++) {
+      const path: AddressPath = { ...changePath, addressIndex }
+      const { scriptPubkey, redeemScript } = walletTools.getScriptPubkey(path)
+      const { address } = walletTools.scriptPubkeyToAddress({
+        changePath: path,
+        scriptPubkey
+      })
+      const used = indexes.has(addressIndex)
+      if (used && from > 0) {
+        const { lastQueriedBlockHeight = 0 } =
+          (await processor.fetchAddress(scriptPubkey)) ?? {}
+        if (lastQueriedBlockHeight < from) isMissingHistory = true
+      }
+      await processor.saveAddress(
+        makeIAddress({
+          scriptPubkey,
+          redeemScript,
+          path: walletTools.withAccount(path),
+          used
+        })
+      )
+      if (taskCache.addressSubscribeCache[address] == null) {
+        addressesToSubscribe.add(address)
+      }
+    }
+    addToAddressSubscribeCache(taskCache, addressesToSubscribe, changePath)
+  }
+  return isMissingHistory
+}
+
+interface ProcessXpubUtxosArgs extends CommonArgs {
+  xpubUtxoState: XpubUtxoCache[string]
+  uri: string
+}
+
+/**
+ * Fetches the utxos of an account, which completes the sync of the addresses
+ * Blockbook derived, used or not. The addresses stay subscribed for updates.
+ */
+export const processXpubUtxos = async (
+  args: ProcessXpubUtxosArgs
+): Promise<WsTask<AddressUtxosResponse>> => {
+  const {
+    xpubUtxoState,
     pluginInfo,
     pluginState,
+    processor,
+    serverStates,
+    taskCache,
+    walletTools,
+    log,
     uri
   } = args
+  const { format, descriptor, blockHeight, addresses } = xpubUtxoState
   const {
     engineInfo: { asBlockbookAddress }
   } = pluginInfo
-  const { addressUtxoCache, rawUtxoCache, processorUtxoCache } = taskCache
+  const {
+    addressSubscribeCache,
+    addressTransactionCache,
+    addressUtxoCache,
+    xpubUtxoCache
+  } = taskCache
+
   const queryTime = Date.now()
   const deferred = new Deferred<AddressUtxosResponse>()
   deferred.promise
     .then(async (utxos: AddressUtxosResponse) => {
       pluginState.serverScoreUp(uri, Date.now() - queryTime)
-      const scriptPubkey = walletTools.addressToScriptPubkey(address)
-      const addressData = await processor.fetchAddress(scriptPubkey)
-      if (addressData == null || addressData.path == null) {
-        return
+      const utxosByAddress = new Map<string, AddressUtxosResponse>()
+      for (const utxo of utxos) {
+        if (utxo.address == null) continue
+        const addressUtxos = utxosByAddress.get(utxo.address) ?? []
+        addressUtxos.push(utxo)
+        utxosByAddress.set(utxo.address, addressUtxos)
       }
 
-      if (utxos.length === 0) {
-        addToProcessorUtxoCache(processorUtxoCache, path, scriptPubkey, 0)
-        return
-      }
+      // Derive the unused addresses past the used ones
+      await setLookAhead(args)
 
-      for (const utxo of utxos) {
-        const utxoId = `${utxo.txid}_${utxo.vout}`
-        rawUtxoCache[utxoId] = {
-          blockbookUtxo: utxo,
-          processing: false,
-          requiredCount: utxos.length,
-          path,
-          // TypeScript yells otherwise
-          address: { ...addressData, path: addressData.path }
+      // Addresses past those Blockbook derived are left to address queries
+      const derivedAddresses = new Set(addresses)
+      const serverState = serverStates.getServerState(uri)
+      for (const [address, state] of Object.entries(addressSubscribeCache)) {
+        if (state.path.format !== format || !derivedAddresses.has(address)) {
+          continue
         }
+
+        // The address needs no queries of its own
+        state.processing = true
+        removeItem(addressTransactionCache, address)
+        removeItem(addressUtxoCache, address)
+        serverState?.addresses.add(address)
+
+        await saveAddressUtxos({
+          ...args,
+          address,
+          path: state.path,
+          utxos: utxosByAddress.get(address) ?? []
+        })
+
+        // Update the lastQueriedBlockHeight for the address
+        const scriptPubkey = walletTools.addressToScriptPubkey(address)
+        const addressData = await processor.fetchAddress(scriptPubkey)
+        if (addressData != null) {
+          addressData.lastQueriedBlockHeight = blockHeight
+          await processor.saveAddress(addressData)
+        }
+
+        // Update the progress now that the address's transactions are saved
+        await args.updateProgressRatio()
       }
+      removeItem(xpubUtxoCache, format)
     })
-    .catch(() => {
-      args.processing = false
-      addressUtxoCache[address] = {
-        processing: args.processing,
-        path
-      }
+    .catch(err => {
+      log.warn(`Falling back to address queries for ${format}: ${String(err)}`)
+      stopXpubSync(taskCache, format)
     })
 
   return {
-    ...addressUtxosMessage(address, asBlockbookAddress),
+    ...xpubUtxosMessage(descriptor, asBlockbookAddress),
     deferred
   }
 }
@@ -1648,7 +2425,20 @@ const processRawUtxo = async (
 
       break
     case BIP43PurposeTypeEnum.Segwit:
+    case BIP43PurposeTypeEnum.Taproot:
+      script = address.scriptPubkey
+
+      break
+    case BIP43PurposeTypeEnum.MultisigSegwit:
+    case BIP43PurposeTypeEnum.MultisigWrappedSegwit:
       script = address.scriptPubkey
+      if (address.redeemScript == null) {
+        throw new Error(
+          'Address witness script not defined, but required for multisig utxo processing'
+        )
+      }
+      // The multisig script is kept as the redeem script for both variants
+      redeemScript = address.redeemScript
 
       break
   }
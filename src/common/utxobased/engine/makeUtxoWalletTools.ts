@@ -5,18 +5,25 @@ import {
   PluginInfo
 } from '../../plugin/types'
 import { ScriptTemplate } from '../info/scriptTemplates/types'
+import { Bip322Format } from '../keymanager/bip322'
 import { PublicKey } from '../keymanager/cleaners'
 import {
+  accountDerivationPath,
   addressToScriptPubkey,
   BIP43PurposeTypeEnum,
+  convertXKey,
+  multisigToScriptPubkey,
   PrivateKeyEncoding,
   privateKeyEncodingToPubkey,
+  PsbtDerivation,
   pubkeyToScriptPubkey,
   scriptPubkeyToAddress,
   scriptPubkeyToP2SH,
   signMessageBase64,
+  signMessageBip322,
   wifToPrivateKeyEncoding,
   xprivToPrivateKey,
+  xpubToFingerprint,
   xpubToPubkey
 } from '../keymanager/keymanager'
 import {
@@ -24,6 +31,7 @@ import {
   currencyFormatToPurposeType,
   getAddressTypeFromPurposeType,
   getScriptTypeFromPurposeType,
+  isMultisigPurposeType,
   pathToPurposeType
 } from './utils'
 
@@ -55,6 +63,14 @@ export interface UTXOPluginWalletTools {
   getScriptAddress: (args: GetScriptAddressArgs) => GetScriptAddressReturn
 
   signMessageBase64: (args: SignMessageArgs) => string
+
+  signMessageBip322: (args: SignMessageBip322Args) => string
+
+  getPsbtDerivation: (args: GetPsbtDerivationArgs) => PsbtDerivation
+
+  // Adds the account of the wallet keys to a path, so that a saved path holds
+  // everything needed to re-derive the keys of its address
+  withAccount: (path: AddressPath) => AddressPath
 }
 
 interface ScriptPubkeyReturn {
@@ -94,6 +110,16 @@ interface SignMessageArgs {
   xprivKeys: CurrencyFormatKeys
 }
 
+interface SignMessageBip322Args extends SignMessageArgs {
+  format: Bip322Format
+}
+
+interface GetPsbtDerivationArgs {
+  path: AddressPath
+  // Without the master fingerprint the derivation is relative to the xpub
+  masterFingerprint?: string
+}
+
 export function makeUtxoWalletTools(
   config: WalletToolsConfig
 ): UTXOPluginWalletTools {
@@ -102,6 +128,10 @@ export function makeUtxoWalletTools(
   const { name: coin } = pluginInfo.coinInfo
 
   const xpubKeys = publicKey.publicKeys
+  // Cosigners may share their xpubs with SLIP-132 prefixes, such as Zpub
+  const cosignerXpubs = publicKey.multisig?.cosignerXpubs.map(xpub =>
+    convertXKey({ xkey: xpub, toType: BIP43PurposeTypeEnum.Legacy, coin })
+  )
 
   const fns: UTXOPluginWalletTools = {
     getPubkey(args: AddressPath): string {
@@ -122,6 +152,28 @@ export function makeUtxoWalletTools(
     getScriptPubkey(args: AddressPath): ScriptPubkeyReturn {
       const purposeType = pathToPurposeType(args, engineInfo.scriptTemplates)
       const scriptType = getScriptTypeFromPurposeType(purposeType)
+      if (isMultisigPurposeType(purposeType)) {
+        const { multisig } = publicKey
+        if (multisig == null || cosignerXpubs == null) {
+          throw new Error(
+            `wallet tools: multisig config for format ${args.format} does not exist`
+          )
+        }
+        const cosignerPubkeys = cosignerXpubs.map(xpub =>
+          xpubToPubkey({
+            xpub,
+            coin,
+            type: purposeType,
+            bip44ChangeIndex: args.changeIndex,
+            bip44AddressIndex: args.addressIndex
+          })
+        )
+        return multisigToScriptPubkey({
+          pubkeys: [fns.getPubkey(args), ...cosignerPubkeys],
+          threshold: multisig.threshold,
+          scriptType
+        })
+      }
       return pubkeyToScriptPubkey({
         pubkey: fns.getPubkey(args),
         scriptTemplates: engineInfo.scriptTemplates,
@@ -146,7 +198,8 @@ export function makeUtxoWalletTools(
       if (
         [
           BIP43PurposeTypeEnum.Segwit,
-          BIP43PurposeTypeEnum.WrappedSegwit
+          BIP43PurposeTypeEnum.WrappedSegwit,
+          BIP43PurposeTypeEnum.Taproot
         ].includes(purposeType) &&
         !privateKeyEncoding.compressed
       ) {
@@ -241,6 +294,61 @@ export function makeUtxoWalletTools(
         xprivKeys
       })
       return signMessageBase64(message, privKey)
+    },
+
+    signMessageBip322({
+      path,
+      message,
+      xprivKeys,
+      format
+    }: SignMessageBip322Args): string {
+      return signMessageBip322({
+        message,
+        privateKey: fns.getPrivateKey({ path, xprivKeys }),
+        scriptPubkey: fns.getScriptPubkey(path).scriptPubkey,
+        format
+      })
+    },
+
+    getPsbtDerivation({
+      path,
+      masterFingerprint
+    }: GetPsbtDerivationArgs): PsbtDerivation {
+      const type = currencyFormatToPurposeType(path.format)
+      const pubkey = fns.getPubkey(path)
+      const addressPath = `${path.changeIndex}/${path.addressIndex}`
+      if (masterFingerprint != null) {
+        const accountPath = accountDerivationPath({
+          type,
+          coin,
+          coinType: pluginInfo.coinInfo.coinType,
+          account: path.account ?? publicKey.account,
+          derivationPath: path.derivationPath ?? publicKey.derivationPath
+        })
+        return {
+          masterFingerprint,
+          path: `${accountPath}/${addressPath}`,
+          pubkey
+        }
+      }
+      return {
+        masterFingerprint: xpubToFingerprint({
+          xpub: xpubKeys[path.format] ?? '',
+          type,
+          coin
+        }),
+        path: `m/${addressPath}`,
+        pubkey
+      }
+    },
+
+    withAccount(path: AddressPath): AddressPath {
+      const { account, derivationPath } = publicKey
+      return {
+        ...path,
+        ...(account == null ? {} : { account }),
+        ...(derivationPath == null ? {} : { derivationPath })
+      }
     }
   }
 
@@ -0,0 +1,53 @@
+import { AddressPath } from '../../plugin/types'
+import {
+  PrivateKeyEncoding,
+  PsbtDerivation,
+  signTx
+} from '../keymanager/keymanager'
+
+/**
+ * An input of a transaction to be signed. Inputs which don't belong to the
+ * wallet, such as those of a sweep, have neither a path nor a derivation.
+ */
+export interface SignerInput {
+  path?: AddressPath
+  // The same BIP32 derivation which is added to the PSBT
+  derivation?: PsbtDerivation
+}
+
+export interface SignerRequest {
+  // A PSBT with the BIP32 derivations of the wallet's inputs and outputs
+  psbtBase64: string
+  inputs: SignerInput[]
+  coin: string
+}
+
+/**
+ * Signs the wallet's inputs of a PSBT. Signers such as hardware wallets may
+ * return the PSBT with partial signatures, which the engine finalizes, but
+ * must finalize taproot inputs themselves.
+ */
+export interface UtxoSigner {
+  // The master fingerprint of the signer's keys, for the PSBT derivations
+  masterFingerprint?: string
+  signPsbt: (request: SignerRequest) => Promise<string>
+}
+
+/**
+ * The default signer, which signs with private keys held in memory.
+ */
+export const makeInMemorySigner = (
+  getPrivateKeyEncodings: (
+    inputs: SignerInput[]
+  ) => Promise<PrivateKeyEncoding[]>
+): UtxoSigner => ({
+  async signPsbt(request: SignerRequest): Promise<string> {
+    const { psbtBase64, inputs, coin } = request
+    const signedTx = await signTx({
+      psbtBase64,
+      coin,
+      privateKeyEncodings: await getPrivateKeyEncodings(inputs)
+    })
+    return signedTx.psbtBase64
+  }
+})
@@ -1,6 +1,8 @@
 import { asArray, asBoolean, asMaybe, asObject, asString } from 'cleaners'
 import { EdgeSpendInfo } from 'edge-core-js/types'
 
+import { AddressPath } from '../../plugin/types'
+import { IUTXO } from '../db/types'
 import { Input, Output } from '../keymanager/utxopicker/types'
 
 export const asUtxoUserSettings = asObject({
@@ -18,4 +20,15 @@ export interface UtxoTxOtherParams {
   }
   edgeSpendInfo?: EdgeSpendInfo
   ourScriptPubkeys: string[]
+  // The WIFs that sign a sweep, either one for each input or a list to look
+  // each input's key up in
+  privateKeys?: string[]
+}
+
+export interface UtxoInfo extends IUTXO {
+  // Missing for UTXOs of addresses without a known derivation path
+  address?: string
+  path?: AddressPath
+  confirmations: number
+  frozen: boolean
 }
@@ -1,17 +1,19 @@
 import * as bs from 'biggystring'
+import { validateMnemonic } from 'bip39'
 import { Disklet } from 'disklet'
 import { EdgeMemoRules, EdgeParsedUri } from 'edge-core-js/types'
 
 import { ChangePath, CurrencyFormat, EngineInfo } from '../../plugin/types'
 import { IUTXO } from '../db/types'
 import { ScriptTemplates } from '../info/scriptTemplates/types'
-import { getSupportedFormats, PrivateKey } from '../keymanager/cleaners'
+import { getPrivateKeyWalletFormats, PrivateKey } from '../keymanager/cleaners'
 import {
   addressToScriptPubkey,
   AddressTypeEnum,
   bip43PurposeNumberToTypeEnum,
   BIP43PurposeTypeEnum,
   derivationLevelScriptHash,
+  isBip38Key,
   isPathUsingDerivationLevelScriptHash,
   ScriptTypeEnum,
   seedOrMnemonicToXPriv,
@@ -19,6 +21,7 @@ import {
   verifyAddress,
   VerifyAddressEnum,
   wifToPrivateKeyEncoding,
+  xprivToAccountXPriv,
   xprivToXPub
 } from '../keymanager/keymanager'
 
@@ -36,6 +39,12 @@ export const getCurrencyFormatFromPurposeType = (
       return 'bip84'
     case BIP43PurposeTypeEnum.ReplayProtection:
       return 'bip44' // Only bip44 formatted wallets contain this purpose type (BCH)
+    case BIP43PurposeTypeEnum.MultisigSegwit:
+      return 'bip48'
+    case BIP43PurposeTypeEnum.MultisigWrappedSegwit:
+      return 'bip48p2sh'
+    case BIP43PurposeTypeEnum.Taproot:
+      return 'bip86'
   }
 }
 
@@ -76,6 +85,15 @@ export const getAddressTypeFromPurposeType = (
 
     case BIP43PurposeTypeEnum.ReplayProtection:
       return AddressTypeEnum.p2sh
+
+    case BIP43PurposeTypeEnum.MultisigSegwit:
+      return AddressTypeEnum.p2wsh
+
+    case BIP43PurposeTypeEnum.MultisigWrappedSegwit:
+      return AddressTypeEnum.p2sh
+
+    case BIP43PurposeTypeEnum.Taproot:
+      return AddressTypeEnum.p2tr
   }
 }
 
@@ -95,6 +113,15 @@ export const getScriptTypeFromPurposeType = (
 
     case BIP43PurposeTypeEnum.ReplayProtection:
       return ScriptTypeEnum.replayProtection
+
+    case BIP43PurposeTypeEnum.MultisigSegwit:
+      return ScriptTypeEnum.p2wsh
+
+    case BIP43PurposeTypeEnum.MultisigWrappedSegwit:
+      return ScriptTypeEnum.p2wshp2sh
+
+    case BIP43PurposeTypeEnum.Taproot:
+      return ScriptTypeEnum.p2tr
   }
 }
 
@@ -124,6 +151,16 @@ export const getFormatSupportedBranches = (
   return branches
 }
 
+/**
+ * The descriptor of a single signature format's xpub, from which Blockbook
+ * derives the addresses of the format. Blockbook tells the script type of the
+ * formats other than taproot by the prefix of the xpub.
+ */
+export const xpubToDescriptor = (
+  format: CurrencyFormat,
+  xpub: string
+): string => (format === 'bip86' ? `tr(${xpub})` : xpub)
+
 /**
  * The reason for this function is to consider the address path for
  * determining the purpose-type for the address. This is because some parts
@@ -166,8 +203,16 @@ export const pathToPurposeType = (
  */
 export const currencyFormatToPurposeType = (
   format: CurrencyFormat
-): BIP43PurposeTypeEnum =>
-  bip43PurposeNumberToTypeEnum(parseInt(format.replace('bip', '')))
+): BIP43PurposeTypeEnum => {
+  // Both bip48 formats share a purpose number, so the wrapped variant needs
+  // to be matched by name
+  if (format === 'bip48p2sh') return BIP43PurposeTypeEnum.MultisigWrappedSegwit
+  return bip43PurposeNumberToTypeEnum(parseInt(format.replace('bip', '')))
+}
+
+export const isMultisigPurposeType = (purpose: BIP43PurposeTypeEnum): boolean =>
+  purpose === BIP43PurposeTypeEnum.MultisigSegwit ||
+  purpose === BIP43PurposeTypeEnum.MultisigWrappedSegwit
 
 export type CurrencyFormatKeys = {
   [format in CurrencyFormat]?: string
@@ -201,6 +246,10 @@ export const deriveXprivFromKeys = (args: {
   const xprivArgs = {
     seed: args.privateKey.seed,
     coinType: args.privateKey.coinType,
+    account: args.privateKey.account,
+    derivationPath: args.privateKey.derivationPath,
+    passphrase: args.privateKey.passphrase,
+    seedType: args.privateKey.seedType,
     coin: args.coin
   }
   const walletPurpose = currencyFormatToPurposeType(args.privateKey.format)
@@ -228,6 +277,13 @@ export const deriveXprivFromKeys = (args: {
       type: walletPurpose
     })
   }
+  for (const format of args.privateKey.walletFormats ?? []) {
+    if (keys[format] != null) continue
+    keys[format] = seedOrMnemonicToXPriv({
+      ...xprivArgs,
+      type: currencyFormatToPurposeType(format)
+    })
+  }
 
   return keys
 }
@@ -239,10 +295,7 @@ export const deriveXpubsFromKeys = (args: {
 }): CurrencyFormatKeys => {
   const { engineInfo, privateKey, coin } = args
   const xpubs: CurrencyFormatKeys = {}
-  for (const format of getSupportedFormats(
-    engineInfo,
-    args.privateKey.format
-  )) {
+  for (const format of getPrivateKeyWalletFormats(engineInfo, privateKey)) {
     xpubs[format] = deriveXpub({
       privateKey,
       coin,
@@ -265,12 +318,61 @@ export const deriveXpub = (args: {
   return xprivToXPub({ ...args, xpriv })
 }
 
+export interface SweepKeys {
+  xprivKeys: CurrencyFormatKeys
+  xpubKeys: CurrencyFormatKeys
+}
+
+// The single signature formats another wallet may have used
+const SWEEP_FORMATS: CurrencyFormat[] = ['bip44', 'bip49', 'bip84', 'bip86']
+
+/**
+ * Derives the account keys to sweep another HD wallet from its mnemonic or
+ * extended private key, for each supported single signature format. Returns
+ * undefined for keys which are not for an HD wallet, such as WIFs.
+ */
+export const deriveSweepKeys = (args: {
+  engineInfo: EngineInfo
+  key: string
+  passphrase?: string
+  coin: string
+  coinType: number
+}): SweepKeys | undefined => {
+  const { engineInfo, key, passphrase, coin, coinType } = args
+  const isMnemonic = validateMnemonic(key)
+  // Extended keys are 78 bytes, which base58 encode to 111 characters
+  if (!isMnemonic && !/^[1-9A-HJ-NP-Za-km-z]{111}$/.test(key)) return
+
+  const xprivKeys: CurrencyFormatKeys = {}
+  const xpubKeys: CurrencyFormatKeys = {}
+  for (const format of engineInfo.formats ?? []) {
+    if (!SWEEP_FORMATS.includes(format)) continue
+    const type = currencyFormatToPurposeType(format)
+    const xpriv = isMnemonic
+      ? seedOrMnemonicToXPriv({ seed: key, passphrase, type, coin, coinType })
+      : xprivToAccountXPriv({ xpriv: key, type, coin, coinType })
+    if (xpriv == null) continue
+    xprivKeys[format] = xpriv
+    xpubKeys[format] = xprivToXPub({ xpriv, type, coin })
+  }
+  if (Object.keys(xprivKeys).length === 0) {
+    throw new Error('Unsupported extended private key')
+  }
+  return { xprivKeys, xpubKeys }
+}
+
 export const parsePathname = (args: {
   pathname: string
   coin: string
 }): EdgeParsedUri => {
   const edgeParsedUri: EdgeParsedUri = {}
 
+  // BIP38 keys are decrypted with their passphrase when swept
+  if (args.coin === 'bitcoin' && isBip38Key(args.pathname)) {
+    edgeParsedUri.privateKeys = [args.pathname]
+    return edgeParsedUri
+  }
+
   // Check if the pathname type is a wif
   try {
     wifToPrivateKeyEncoding({
@@ -49,7 +49,7 @@ const currencyInfo: EdgeCurrencyInfo = {
 }
 
 const engineInfo: EngineInfo = {
-  formats: ['bip49', 'bip84', 'bip44', 'bip32'],
+  formats: ['bip49', 'bip84', 'bip86', 'bip44', 'bip32', 'bip48', 'bip48p2sh'],
   forks: ['bitcoincash', 'bitcoingold'],
   gapLimit: 25,
   defaultFee: 1000,
@@ -79,6 +79,8 @@ export const coinInfo: CoinInfo = {
     wrappedSegwitXPub: [0x049d7cb2],
     segwitXPriv: [0x04b2430c],
     segwitXPub: [0x04b24746],
+    multisigWrappedSegwitXPub: [0x0295b43f],
+    multisigSegwitXPub: [0x02aa7ed3],
     pubkeyHash: [0x00],
     scriptHash: [0x05],
     bech32: ['bc']
@@ -43,7 +43,7 @@ export const currencyInfo: EdgeCurrencyInfo = {
 }
 
 export const engineInfo: EngineInfo = {
-  formats: ['bip49', 'bip84', 'bip44', 'bip32'],
+  formats: ['bip49', 'bip84', 'bip86', 'bip44', 'bip32', 'bip48', 'bip48p2sh'],
   forks: ['bitcoincash', 'bitcoingold'],
   gapLimit: 25,
   defaultFee: 1000,
@@ -73,6 +73,8 @@ export const coinInfo: CoinInfo = {
     wrappedSegwitXPub: [0x044a5262],
     segwitXPriv: [0x045f18bc],
     segwitXPub: [0x045f1cf6],
+    multisigWrappedSegwitXPub: [0x024289ef],
+    multisigSegwitXPub: [0x02575483],
     pubkeyHash: [0x6f],
     scriptHash: [0xc4],
     bech32: ['tb']
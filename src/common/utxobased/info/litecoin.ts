@@ -68,8 +68,9 @@ export const coinInfo: CoinInfo = {
   prefixes: {
     messagePrefix: ['\x18Litecoin Signed Message:\n'],
     wif: [0xb0],
-    legacyXPriv: [0x0488ade4],
-    legacyXPub: [0x0488b21e],
+    // Ltpv and Ltub keys from other wallets are accepted too
+    legacyXPriv: [0x0488ade4, 0x019d9cfe],
+    legacyXPub: [0x0488b21e, 0x019da462],
     wrappedSegwitXPriv: [0x01b26792],
     wrappedSegwitXPub: [0x01b26ef6],
     segwitXPriv: [0x04b2430c],
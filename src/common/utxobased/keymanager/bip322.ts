@@ -0,0 +1,314 @@
+import * as bitcoin from 'altcoin-js'
+import { Buffer } from 'buffer'
+
+import {
+  signSchnorr,
+  taggedHash,
+  tweakPrivateKey,
+  verifySchnorr
+} from './taprootUtils/schnorr'
+import { taprootKeyPathSighash } from './taprootUtils/sighash'
+
+/*
+Generic message signing, which proves control of an address by signing a
+virtual transaction that spends from the address's output script.
+Reference: https://github.com/bitcoin/bips/blob/master/bip-0322.mediawiki
+*/
+
+export type Bip322Format = 'simple' | 'full'
+
+export interface SignBip322Args {
+  message: string
+  privateKey: Buffer
+  scriptPubkey: Buffer
+  format: Bip322Format
+}
+
+export interface VerifyBip322Args {
+  message: string
+  scriptPubkey: Buffer
+  signature: string
+}
+
+type Bip322ScriptType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr'
+
+const {
+  OP_0,
+  OP_1,
+  OP_CHECKSIG,
+  OP_DUP,
+  OP_EQUAL,
+  OP_EQUALVERIFY,
+  OP_HASH160,
+  OP_RETURN
+} = bitcoin.opcodes
+
+const getScriptType = (script: Buffer): Bip322ScriptType => {
+  if (script.length === 22 && script[0] === OP_0 && script[1] === 20) {
+    return 'p2wpkh'
+  }
+  if (script.length === 34 && script[0] === OP_1 && script[1] === 32) {
+    return 'p2tr'
+  }
+  // Only nested p2wpkh can be told apart from its script hash
+  if (
+    script.length === 23 &&
+    script[0] === OP_HASH160 &&
+    script[1] === 20 &&
+    script[22] === OP_EQUAL
+  ) {
+    return 'p2sh-p2wpkh'
+  }
+  if (
+    script.length === 25 &&
+    script[0] === OP_DUP &&
+    script[1] === OP_HASH160 &&
+    script[2] === 20 &&
+    script[23] === OP_EQUALVERIFY &&
+    script[24] === OP_CHECKSIG
+  ) {
+    return 'p2pkh'
+  }
+  throw new Error('Unsupported script for BIP322 message signing')
+}
+
+export const bip322MessageHash = (message: string): Buffer =>
+  taggedHash('BIP0322-signed-message', Buffer.from(message, 'utf8'))
+
+// The virtual transaction that pays to the address being proven
+const makeToSpend = (
+  message: string,
+  scriptPubkey: Buffer
+): bitcoin.Transaction => {
+  const tx = new bitcoin.Transaction()
+  tx.version = 0
+  tx.addInput(
+    Buffer.alloc(32),
+    0xffffffff,
+    0,
+    bitcoin.script.compile([OP_0, bip322MessageHash(message)])
+  )
+  tx.addOutput(scriptPubkey, 0)
+  return tx
+}
+
+// The virtual transaction that is signed to prove the message
+const makeToSign = (toSpend: bitcoin.Transaction): bitcoin.Transaction => {
+  const tx = new bitcoin.Transaction()
+  tx.version = 0
+  tx.addInput(toSpend.getHash(), 0, 0)
+  tx.addOutput(bitcoin.script.compile([OP_RETURN]), 0)
+  return tx
+}
+
+const p2pkhScript = (pubkey: Buffer): Buffer =>
+  bitcoin.script.compile([
+    OP_DUP,
+    OP_HASH160,
+    bitcoin.crypto.hash160(pubkey),
+    OP_EQUALVERIFY,
+    OP_CHECKSIG
+  ])
+
+const p2wpkhScript = (pubkey: Buffer): Buffer =>
+  bitcoin.script.compile([OP_0, bitcoin.crypto.hash160(pubkey)])
+
+const p2shScript = (redeemScript: Buffer): Buffer =>
+  bitcoin.script.compile([
+    OP_HASH160,
+    bitcoin.crypto.hash160(redeemScript),
+    OP_EQUAL
+  ])
+
+const encodeWitness = (witness: Buffer[]): Buffer =>
+  Buffer.concat([
+    encodeVarInt(witness.length),
+    ...witness.map(item => Buffer.concat([encodeVarInt(item.length), item]))
+  ])
+
+const encodeVarInt = (value: number): Buffer => {
+  if (value < 0xfd) return Buffer.from([value])
+  const buffer = Buffer.alloc(3)
+  buffer.writeUInt8(0xfd, 0)
+  buffer.writeUInt16LE(value, 1)
+  return buffer
+}
+
+// Returns undefined unless the whole buffer is a single witness stack
+const decodeWitness = (buffer: Buffer): Buffer[] | undefined => {
+  let offset = 0
+  const readVarInt = (): number | undefined => {
+    const first = buffer[offset++]
+    if (first == null || first > 0xfd) return
+    if (first < 0xfd) return first
+    if (offset + 2 > buffer.length) return
+    offset += 2
+    return buffer.readUInt16LE(offset - 2)
+  }
+
+  const count = readVarInt()
+  if (count == null) return
+  const witness: Buffer[] = []
+  for (let i = 0; i < count; i++) {
+    const length = readVarInt()
+    if (length == null || offset + length > buffer.length) return
+    witness.push(buffer.slice(offset, offset + length))
+    offset += length
+  }
+  return offset === buffer.length ? witness : undefined
+}
+
+const verifyEcdsa = (
+  encodedSignature: Buffer,
+  pubkey: Buffer,
+  getHash: (hashType: number) => Buffer
+): boolean => {
+  const { signature, hashType } = bitcoin.script.signature.decode(
+    encodedSignature
+  )
+  return bitcoin.ECPair.fromPublicKey(pubkey).verify(
+    getHash(hashType),
+    signature
+  )
+}
+
+// Checks that to_sign spends to_spend and carries a valid signature for it
+const verifyToSign = (
+  toSign: bitcoin.Transaction,
+  toSpend: bitcoin.Transaction
+): boolean => {
+  const { ins, outs } = toSign
+  if (
+    ins.length !== 1 ||
+    !ins[0].hash.equals(toSpend.getHash()) ||
+    ins[0].index !== 0 ||
+    outs.length !== 1 ||
+    outs[0].value !== 0 ||
+    !outs[0].script.equals(bitcoin.script.compile([OP_RETURN]))
+  ) {
+    return false
+  }
+
+  const scriptPubkey = toSpend.outs[0].script
+  const { script, witness } = ins[0]
+  switch (getScriptType(scriptPubkey)) {
+    case 'p2tr': {
+      if (script.length > 0 || witness.length !== 1) return false
+      const sighash = taprootKeyPathSighash(toSign, 0, [
+        { script: scriptPubkey, value: 0 }
+      ])
+      return verifySchnorr(witness[0], sighash, scriptPubkey.slice(2))
+    }
+    case 'p2wpkh':
+    case 'p2sh-p2wpkh': {
+      if (witness.length !== 2) return false
+      const [signature, pubkey] = witness
+      const program = p2wpkhScript(pubkey)
+      const isNested = scriptPubkey.length !== program.length
+      if (
+        pubkey.length !== 33 ||
+        !script.equals(
+          isNested ? bitcoin.script.compile([program]) : Buffer.alloc(0)
+        ) ||
+        !scriptPubkey.equals(isNested ? p2shScript(program) : program)
+      ) {
+        return false
+      }
+      return verifyEcdsa(signature, pubkey, hashType =>
+        toSign.hashForWitnessV0(0, p2pkhScript(pubkey), 0, hashType)
+      )
+    }
+    case 'p2pkh': {
+      const chunks = bitcoin.script.decompile(script)
+      if (witness.length > 0 || chunks == null || chunks.length !== 2) {
+        return false
+      }
+      const [signature, pubkey] = chunks
+      if (
+        !Buffer.isBuffer(signature) ||
+        !Buffer.isBuffer(pubkey) ||
+        !p2pkhScript(pubkey).equals(scriptPubkey)
+      ) {
+        return false
+      }
+      return verifyEcdsa(signature, pubkey, hashType =>
+        toSign.hashForSignature(0, scriptPubkey, hashType)
+      )
+    }
+  }
+}
+
+/**
+ * Signs a message for the address of an output script. The simple format
+ * holds only the witness, so addresses signed through their script signature
+ * always get the full format, which holds the whole signed transaction.
+ */
+export const signBip322 = (args: SignBip322Args): string => {
+  const { message, privateKey, scriptPubkey, format } = args
+  const scriptType = getScriptType(scriptPubkey)
+  const toSpend = makeToSpend(message, scriptPubkey)
+  const toSign = makeToSign(toSpend)
+
+  if (scriptType === 'p2tr') {
+    const sighash = taprootKeyPathSighash(toSign, 0, [
+      { script: scriptPubkey, value: 0 }
+    ])
+    toSign.setWitness(0, [signSchnorr(sighash, tweakPrivateKey(privateKey))])
+  } else {
+    const keyPair = bitcoin.ECPair.fromPrivateKey(privateKey)
+    const { publicKey } = keyPair
+    const hashType = bitcoin.Transaction.SIGHASH_ALL
+    const sign = (hash: Buffer): Buffer =>
+      bitcoin.script.signature.encode(keyPair.sign(hash, true), hashType)
+
+    if (scriptType === 'p2pkh') {
+      const hash = toSign.hashForSignature(0, scriptPubkey, hashType)
+      toSign.setInputScript(0, bitcoin.script.compile([sign(hash), publicKey]))
+    } else {
+      const hash = toSign.hashForWitnessV0(
+        0,
+        p2pkhScript(publicKey),
+        0,
+        hashType
+      )
+      toSign.setWitness(0, [sign(hash), publicKey])
+      if (scriptType === 'p2sh-p2wpkh') {
+        toSign.setInputScript(
+          0,
+          bitcoin.script.compile([p2wpkhScript(publicKey)])
+        )
+      }
+    }
+  }
+
+  // Also catches keys which do not belong to the output script
+  if (!verifyToSign(toSign, toSpend)) {
+    throw new Error('Private key does not match the address')
+  }
+  if (format === 'simple' && toSign.ins[0].script.length === 0) {
+    return encodeWitness(toSign.ins[0].witness).toString('base64')
+  }
+  return toSign.toBuffer().toString('base64')
+}
+
+/**
+ * Verifies a simple or full format signature of a message for the address of
+ * an output script.
+ */
+export const verifyBip322 = (args: VerifyBip322Args): boolean => {
+  const { message, scriptPubkey, signature } = args
+  const toSpend = makeToSpend(message, scriptPubkey)
+  const buffer = Buffer.from(signature, 'base64')
+  try {
+    const witness = decodeWitness(buffer)
+    if (witness != null) {
+      const toSign = makeToSign(toSpend)
+      toSign.setWitness(0, witness)
+      return verifyToSign(toSign, toSpend)
+    }
+    return verifyToSign(bitcoin.Transaction.fromBuffer(buffer), toSpend)
+  } catch (error) {
+    // Malformed transactions, keys and signatures are all invalid proofs
+    return false
+  }
+}
@@ -1,4 +1,5 @@
 import {
+  asArray,
   asBoolean,
   asCodec,
   asMaybe,
@@ -18,23 +19,102 @@ import {
   PluginInfo
 } from '../../plugin/types'
 import { deriveXpubsFromKeys } from '../engine/utils'
+import { descriptorsToPublicKey } from './descriptors'
+import { SeedType } from './keymanager'
 
 // Private key format are a strict subset of all currency formats
 type PrivateKeyFormat = ReturnType<typeof asPrivateKeyFormat>
-const asPrivateKeyFormat = asValue('bip32', 'bip44', 'bip49')
+const asPrivateKeyFormat = asValue(
+  'bip32',
+  'bip44',
+  'bip49',
+  'bip84',
+  'bip86',
+  'bip48',
+  'bip48p2sh'
+)
 // Default to bip32 always for legacy reasons
 const asOptionalPrivateKeyFormat = asOptional(asPrivateKeyFormat, 'bip32')
 
+/**
+ * The multisig setup for bip48 wallets: the account xpubs of the other
+ * cosigners and the number of signatures required to spend.
+ */
+export interface MultisigConfig {
+  cosignerXpubs: string[]
+  threshold: number
+}
+export const asMultisigConfig: Cleaner<MultisigConfig> = raw => {
+  const config = asObject({
+    cosignerXpubs: asArray(asString),
+    threshold: asNumber
+  })(raw)
+  // The wallet's own key is one of the keys too
+  const keyCount = config.cosignerXpubs.length + 1
+  const { threshold } = config
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > keyCount) {
+    throw new TypeError(
+      `Invalid multisig threshold ${threshold} of ${keyCount}`
+    )
+  }
+  return config
+}
+
+/**
+ * A BIP43 account index, which stays below the hardened offset since
+ * derivation hardens it.
+ */
+export const asAccount: Cleaner<number> = raw => {
+  const account = asNumber(raw)
+  if (!Number.isInteger(account) || account < 0 || account >= 0x80000000) {
+    throw new TypeError(`Invalid account ${account}`)
+  }
+  return account
+}
+
+/**
+ * A custom BIP32 path to the account key, such as m/44'/0'/0' or m. The
+ * change and address levels are derived below it.
+ */
+export const asDerivationPath: Cleaner<string> = raw => {
+  const path = asString(raw)
+  if (!/^m(\/\d+'?)*$/.test(path)) {
+    throw new TypeError(`Invalid derivation path ${path}`)
+  }
+  return path
+}
+
+export const asSeedType: Cleaner<SeedType> = asValue('bip39', 'electrum')
+
+/**
+ * The BIP39 passphrase of a mnemonic, where an empty passphrase is none.
+ */
+export const asBip39Passphrase: Cleaner<string | undefined> = raw => {
+  const passphrase = asOptional(asString)(raw)
+  return passphrase === '' ? undefined : passphrase
+}
+
 /**
  * A cleaner for the private key format following the key-formats specification.
  *
  * (spec: https://github.com/EdgeApp/edge-core-js/blob/master/docs/key-formats.md)
  */
 export interface PrivateKey {
+  // Defaults to account 0' of the format
+  account?: number
   coinType: number
+  // Replaces the BIP43 account path of every format
+  derivationPath?: string
   format: PrivateKeyFormat
   imported?: boolean
+  multisig?: MultisigConfig
+  // The BIP39 passphrase, or 25th word, of a mnemonic seed
+  passphrase?: string
   seed: string
+  // Defaults to a BIP39 mnemonic
+  seedType?: SeedType
+  // Other formats to derive, which the seed has history with
+  walletFormats?: CurrencyFormat[]
 }
 export function asPrivateKey(
   coinName: string,
@@ -46,19 +126,42 @@ export function asPrivateKey(
         throw new TypeError('Private keys must be objects')
       }
       return asObject({
+        account: asOptional(asAccount),
         coinType: asOptional(asNumber, coinType),
+        derivationPath: asOptional(asDerivationPath),
         format: asOptionalPrivateKeyFormat,
         imported: asOptional(asBoolean),
-        seed: asString
+        multisig: asOptional(asMultisigConfig),
+        passphrase: asBip39Passphrase,
+        seed: asString,
+        seedType: asOptional(asSeedType),
+        walletFormats: asOptional(asArray(asCurrencyFormat))
       })({ ...raw, seed: raw[`${coinName}Key`] })
     },
     clean => {
-      const { coinType, format, imported, seed } = clean
+      const {
+        account,
+        coinType,
+        derivationPath,
+        format,
+        imported,
+        multisig,
+        passphrase,
+        seed,
+        seedType,
+        walletFormats
+      } = clean
       return {
+        account,
         coinType,
+        derivationPath,
         format,
         imported,
-        [`${coinName}Key`]: seed
+        multisig,
+        passphrase,
+        [`${coinName}Key`]: seed,
+        seedType,
+        walletFormats
       }
     }
   )
@@ -73,16 +176,38 @@ export interface PublicKey {
   publicKeys: {
     [format in CurrencyFormat]?: string
   }
+  multisig?: MultisigConfig
+  // The account and custom path of the private key, for PSBT derivations
+  account?: number
+  derivationPath?: string
 }
 export const asPublicKey: Cleaner<PublicKey> = asObject({
   publicKeys: asObject({
     bip32: asOptional(asString),
     bip44: asOptional(asString),
     bip49: asOptional(asString),
-    bip84: asOptional(asString)
-  })
+    bip84: asOptional(asString),
+    bip86: asOptional(asString),
+    bip48: asOptional(asString),
+    bip48p2sh: asOptional(asString)
+  }),
+  multisig: asOptional(asMultisigConfig),
+  account: asOptional(asAccount),
+  derivationPath: asOptional(asDerivationPath)
 })
 
+/**
+ * A cleaner for watch-only keys given as output descriptors, one for each
+ * format, which turns them into the public key format.
+ */
+export const asDescriptorPublicKey = (coin: string): Cleaner<PublicKey> => {
+  const asDescriptors = asObject({ descriptors: asArray(asString) })
+  return (raw: unknown): PublicKey => {
+    const { descriptors } = asDescriptors(raw)
+    return descriptorsToPublicKey({ descriptors, coin })
+  }
+}
+
 /**
  * This utility returns a wallet's supported formats according to its
  * private-key's format as specified in the key-formats specification.
@@ -99,12 +224,39 @@ export const getSupportedFormats = (
         return ['bip44']
       case 'bip49':
         return ['bip49', 'bip84']
+      case 'bip84':
+        return ['bip84']
+      case 'bip86':
+        return ['bip86']
+      case 'bip48':
+        return ['bip48']
+      case 'bip48p2sh':
+        return ['bip48p2sh']
     }
   })()
   const engineInfoFormats = engineInfo.formats ?? ['bip44', 'bip32']
   return formats.filter(format => engineInfoFormats.includes(format))
 }
 
+/**
+ * Returns the formats of a private key's wallet, which are its supported
+ * formats followed by any other formats the private key lists.
+ */
+export const getPrivateKeyWalletFormats = (
+  engineInfo: EngineInfo,
+  privateKey: PrivateKey
+): CurrencyFormat[] => {
+  const formats = getSupportedFormats(engineInfo, privateKey.format)
+  const engineInfoFormats = engineInfo.formats ?? ['bip44', 'bip32']
+  for (const format of privateKey.walletFormats ?? []) {
+    if (formats.includes(format) || !engineInfoFormats.includes(format)) {
+      continue
+    }
+    formats.push(format)
+  }
+  return formats
+}
+
 /**
  * Infers the private key format given a public key
  */
@@ -116,7 +268,11 @@ export const inferPrivateKeyFormat = (
   for (const [format, xpub] of Object.entries(publicKey.publicKeys)) {
     if (xpub != null) supportedFormats.push(format as CurrencyFormat)
   }
+  if (supportedFormats.includes('bip48')) return 'bip48'
+  if (supportedFormats.includes('bip48p2sh')) return 'bip48p2sh'
+  if (supportedFormats.includes('bip86')) return 'bip86'
   if (supportedFormats.includes('bip49')) return 'bip49'
+  if (supportedFormats.includes('bip84')) return 'bip84'
   if (supportedFormats.includes('bip44')) return 'bip44'
   if (supportedFormats.includes('bip32')) return 'bip32'
   return 'bip32'
@@ -156,7 +312,9 @@ export const asNumbWalletInfo = (
 
     const asCurrencyPrivateKey = asPrivateKey(coinInfo.name, coinInfo.coinType)
 
-    const publicKey = asMaybe(asPublicKey)(walletInfo.keys)
+    const publicKey =
+      asMaybe(asPublicKey)(walletInfo.keys) ??
+      asMaybe(asDescriptorPublicKey(coinInfo.name))(walletInfo.keys)
     if (publicKey != null) {
       const walletFormats = Object.entries(publicKey.publicKeys)
         // Filter out undefined values in the entries because cleaners allow
@@ -193,7 +351,7 @@ export const asNumbWalletInfo = (
         privateKey,
         coin: coinInfo.name
       })
-      const walletFormats = getSupportedFormats(engineInfo, privateKey.format)
+      const walletFormats = getPrivateKeyWalletFormats(engineInfo, privateKey)
 
       return {
         id,
@@ -201,7 +359,12 @@ export const asNumbWalletInfo = (
         keys: {
           privateKeyFormat: privateKey.format,
           walletFormats,
-          publicKey: { publicKeys: publicKey }
+          publicKey: {
+            publicKeys: publicKey,
+            multisig: privateKey.multisig,
+            account: privateKey.account,
+            derivationPath: privateKey.derivationPath
+          }
         }
       }
     }
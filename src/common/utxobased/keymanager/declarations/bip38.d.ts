@@ -0,0 +1,6 @@
+declare module 'bip38' {
+  export function decryptAsync(
+    encryptedKey: string,
+    passphrase: string
+  ): Promise<{ privateKey: Buffer; compressed: boolean }>
+}
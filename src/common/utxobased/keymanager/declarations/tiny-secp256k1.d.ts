@@ -0,0 +1,23 @@
+declare module 'tiny-secp256k1' {
+  export function isPoint(p: Buffer): boolean
+  export function pointAdd(
+    pA: Buffer,
+    pB: Buffer,
+    compressed?: boolean
+  ): Buffer | null
+  export function pointAddScalar(
+    p: Buffer,
+    tweak: Buffer,
+    compressed?: boolean
+  ): Buffer | null
+  export function pointFromScalar(
+    d: Buffer,
+    compressed?: boolean
+  ): Buffer | null
+  export function pointMultiply(
+    p: Buffer,
+    tweak: Buffer,
+    compressed?: boolean
+  ): Buffer | null
+  export function privateAdd(d: Buffer, tweak: Buffer): Buffer | null
+}
@@ -0,0 +1,263 @@
+import { CurrencyFormat } from '../../plugin/types'
+import {
+  currencyFormatToPurposeType,
+  isMultisigPurposeType
+} from '../engine/utils'
+import { MultisigConfig, PublicKey } from './cleaners'
+import {
+  accountDerivationPath,
+  BIP43PurposeTypeEnum,
+  convertXKey,
+  isXprv
+} from './keymanager'
+
+/*
+Output descriptors, which describe the scripts of a wallet along with the
+origin of its keys in a form other wallet software can import.
+Reference: https://github.com/bitcoin/bips/blob/master/bip-0380.mediawiki
+*/
+
+export interface KeyOrigin {
+  fingerprint: string
+  // The path from the master key, such as m/84'/0'/0'
+  path: string
+}
+
+export interface FormatToDescriptorArgs {
+  format: CurrencyFormat
+  xpub: string
+  coin: string
+  origin?: KeyOrigin
+  // The cosigners of multisig formats
+  multisig?: MultisigConfig
+}
+
+export interface DescriptorsToPublicKeyArgs {
+  descriptors: string[]
+  coin: string
+}
+
+// The script expressions around the keys of each format
+const SCRIPT_EXPRESSIONS: Array<[CurrencyFormat, string, string]> = [
+  ['bip48p2sh', 'sh(wsh(sortedmulti(', ')))'],
+  ['bip48', 'wsh(sortedmulti(', '))'],
+  ['bip49', 'sh(wpkh(', '))'],
+  ['bip84', 'wpkh(', ')'],
+  ['bip86', 'tr(', ')'],
+  ['bip44', 'pkh(', ')'],
+  // Imported pkh descriptors are taken to be bip44
+  ['bip32', 'pkh(', ')']
+]
+
+// The chains of an account which a key expression derives, which are both
+// the receive and change chains or just one of them
+const CHAIN_EXPRESSION = /\/(<0;1>|0|1)\/\*/g
+
+// A key with its origin, deriving both chains of an account
+const KEY_EXPRESSION = /^(?:\[[0-9a-f]{8}((?:\/\d+['h]?)*)\])?(\w+)\/<0;1>\/\*$/i
+
+const INPUT_CHARSET =
+  '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ '
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+
+// The 40 bit generator of the checksum, split into its high 8 bits and low
+// 32 bits because bitwise operators only work on 32 bits
+const GENERATOR: Array<[number, number]> = [
+  [0xf5, 0xdee51989],
+  [0xa9, 0xfdca3312],
+  [0x1b, 0xab10e32d],
+  [0x37, 0x06b1677a],
+  [0x64, 0x4d626ffd]
+]
+
+/**
+ * Computes the 8 character checksum of a descriptor without one.
+ */
+export const descriptorChecksum = (descriptor: string): string => {
+  const symbols: number[] = []
+  let groups: number[] = []
+  for (const char of descriptor) {
+    const value = INPUT_CHARSET.indexOf(char)
+    if (value === -1) throw new Error(`Invalid descriptor character ${char}`)
+    symbols.push(value & 31)
+    groups.push(value >> 5)
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2])
+      groups = []
+    }
+  }
+  if (groups.length === 1) symbols.push(groups[0])
+  if (groups.length === 2) symbols.push(groups[0] * 3 + groups[1])
+
+  let high = 0
+  let low = 1
+  for (const value of [...symbols, 0, 0, 0, 0, 0, 0, 0, 0]) {
+    const top = high >>> 3
+    high = ((high & 7) << 5) | (low >>> 27)
+    low = ((low << 5) ^ value) >>> 0
+    for (let i = 0; i < 5; i++) {
+      if (((top >> i) & 1) === 0) continue
+      high ^= GENERATOR[i][0]
+      low = (low ^ GENERATOR[i][1]) >>> 0
+    }
+  }
+  low = (low ^ 1) >>> 0
+
+  let checksum = ''
+  const value = high * 2 ** 32 + low
+  for (let i = 0; i < 8; i++) {
+    checksum += CHECKSUM_CHARSET[Math.floor(value / 2 ** (5 * (7 - i))) % 32]
+  }
+  return checksum
+}
+
+/**
+ * Describes the receive and change chains of a wallet format as a single
+ * descriptor, with its checksum.
+ */
+export const formatToDescriptor = (args: FormatToDescriptorArgs): string => {
+  const { format, coin, origin, multisig } = args
+  const purpose = currencyFormatToPurposeType(format)
+  const expression = SCRIPT_EXPRESSIONS.find(([f]) => f === format)
+  if (expression == null) throw new Error(`Unsupported format ${format}`)
+  const [, prefix, suffix] = expression
+
+  // Descriptors only take plain xpubs, whatever the script type
+  const toKey = (xpub: string): string => {
+    const key = convertXKey({
+      xkey: xpub,
+      toType: BIP43PurposeTypeEnum.Legacy,
+      coin
+    })
+    return `${key}/<0;1>/*`
+  }
+  const originPath = origin?.path.replace(/^m/, '') ?? ''
+  let keys =
+    origin == null
+      ? toKey(args.xpub)
+      : `[${origin.fingerprint}${originPath}]${toKey(args.xpub)}`
+  if (isMultisigPurposeType(purpose)) {
+    if (multisig == null) throw new Error('Missing multisig config')
+    keys = [
+      multisig.threshold,
+      keys,
+      ...multisig.cosignerXpubs.map(toKey)
+    ].join(',')
+  }
+
+  const descriptor = `${prefix}${keys}${suffix}`
+  return `${descriptor}#${descriptorChecksum(descriptor)}`
+}
+
+/**
+ * Gets the xpubs of a watch-only wallet from a descriptor for each format,
+ * or from a pair of descriptors for the receive and change chains, as
+ * Bitcoin Core lists them. Key origins are checked against the format but
+ * not kept, so derivations in PSBTs are relative to the xpubs.
+ */
+export const descriptorsToPublicKey = (
+  args: DescriptorsToPublicKeyArgs
+): PublicKey => {
+  const { coin } = args
+  const publicKey: PublicKey = { publicKeys: {} }
+
+  // The chains found for each descriptor of both chains
+  const descriptorChains = new Map<string, string[]>()
+  for (const input of args.descriptors) {
+    const [descriptor, checksum] = input.trim().split('#')
+    if (checksum != null && checksum !== descriptorChecksum(descriptor)) {
+      throw new Error(`Invalid descriptor checksum ${checksum}`)
+    }
+    const keyChains = new Set<string>()
+    const bothChains = descriptor.replace(CHAIN_EXPRESSION, (_, chain) => {
+      keyChains.add(chain)
+      return '/<0;1>/*'
+    })
+    if (keyChains.size !== 1) {
+      throw new Error(`Invalid descriptor ${descriptor}`)
+    }
+    const chains = descriptorChains.get(bothChains) ?? []
+    chains.push(...keyChains)
+    descriptorChains.set(bothChains, chains)
+  }
+
+  for (const [descriptor, chains] of descriptorChains) {
+    if (
+      new Set(chains).size < chains.length ||
+      (chains.includes('<0;1>') && chains.length > 1)
+    ) {
+      throw new Error(`Duplicate descriptor ${descriptor}`)
+    }
+    if (chains.length === 1 && chains[0] !== '<0;1>') {
+      const missing = chains[0] === '0' ? 'change' : 'receive'
+      throw new Error(`Missing the ${missing} chain of ${descriptor}`)
+    }
+
+    const expression = SCRIPT_EXPRESSIONS.find(
+      ([, prefix, suffix]) =>
+        descriptor.startsWith(prefix) && descriptor.endsWith(suffix)
+    )
+    if (expression == null) {
+      throw new Error(`Unsupported descriptor ${descriptor}`)
+    }
+    const [format, prefix, suffix] = expression
+    const purpose = currencyFormatToPurposeType(format)
+    if (publicKey.publicKeys[format] != null) {
+      throw new Error(`Duplicate descriptor for format ${format}`)
+    }
+
+    const fromKey = (key: string): string => {
+      const match = KEY_EXPRESSION.exec(key)
+      if (match == null) throw new Error(`Unsupported key expression ${key}`)
+      const [, originPath, xkey] = match
+      if (isXprv({ xkey, coin })) {
+        throw new Error('Descriptors with private keys are unsupported')
+      }
+      if (originPath != null) checkOriginPath(originPath, purpose, coin)
+      return convertXKey({ xkey, toType: purpose, coin })
+    }
+    const keys = descriptor.slice(prefix.length, -suffix.length).split(',')
+    if (isMultisigPurposeType(purpose)) {
+      const [threshold, key, ...cosignerKeys] = keys
+      if (publicKey.multisig != null) {
+        throw new Error('Only one multisig descriptor is supported')
+      }
+      if (!/^\d+$/.test(threshold) || key == null) {
+        throw new Error(`Invalid multisig descriptor ${descriptor}`)
+      }
+      publicKey.publicKeys[format] = fromKey(key)
+      publicKey.multisig = {
+        threshold: parseInt(threshold),
+        cosignerXpubs: cosignerKeys.map(fromKey)
+      }
+    } else {
+      if (keys.length !== 1) {
+        throw new Error(`Invalid descriptor ${descriptor}`)
+      }
+      publicKey.publicKeys[format] = fromKey(keys[0])
+    }
+  }
+
+  return publicKey
+}
+
+// Checks that a key origin is the account path of a format, whatever its
+// coin type and account
+const checkOriginPath = (
+  originPath: string,
+  purpose: BIP43PurposeTypeEnum,
+  coin: string
+): void => {
+  const path = `m${originPath.replace(/h/gi, "'")}`
+  const [, coinType, account] = path
+    .split('/')
+    .slice(1)
+    .map(level => parseInt(level))
+  const accountPath =
+    coinType == null || account == null
+      ? undefined
+      : accountDerivationPath({ type: purpose, coinType, account, coin })
+  if (path !== accountPath) {
+    throw new Error(`Key origin ${path} doesn't match the descriptor`)
+  }
+}
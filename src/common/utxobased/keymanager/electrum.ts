@@ -0,0 +1,55 @@
+import { Buffer } from 'buffer'
+import createHmac from 'create-hmac'
+import { pbkdf2Sync } from 'pbkdf2'
+
+/*
+Electrum seed phrases, which carry the type of their wallet in the prefix of
+a hash of the phrase instead of a BIP39 checksum.
+Reference: https://electrum.readthedocs.io/en/latest/seedphrase.html
+*/
+
+export type ElectrumSeedType = 'standard' | 'segwit' | '2fa' | '2fa_segwit'
+
+const SEED_PREFIXES: Array<[string, ElectrumSeedType]> = [
+  ['01', 'standard'],
+  ['100', 'segwit'],
+  ['101', '2fa'],
+  ['102', '2fa_segwit']
+]
+
+// Electrum also joins CJK characters across whitespace, which is skipped
+// because seeds in those languages are not supported
+const normalizeText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/\s+/)
+    .filter(word => word !== '')
+    .join(' ')
+
+/**
+ * Returns the type of wallet of an Electrum seed phrase, or undefined if the
+ * phrase is not one.
+ */
+export const electrumSeedType = (
+  mnemonic: string
+): ElectrumSeedType | undefined => {
+  const version = createHmac('sha512', 'Seed version')
+    .update(normalizeText(mnemonic))
+    .digest('hex')
+  const match = SEED_PREFIXES.find(([prefix]) => version.startsWith(prefix))
+  return match?.[1]
+}
+
+export const electrumMnemonicToSeed = (
+  mnemonic: string,
+  passphrase: string = ''
+): Buffer =>
+  pbkdf2Sync(
+    normalizeText(mnemonic),
+    `electrum${normalizeText(passphrase)}`,
+    2048,
+    64,
+    'sha512'
+  )
@@ -2,6 +2,7 @@
 import * as bitcoin from 'altcoin-js'
 import { gt, lt } from 'biggystring'
 import * as bip32 from 'bip32'
+import * as bip38 from 'bip38'
 import * as bip39 from 'bip39'
 import bitcoinMessage from 'bitcoinjs-message'
 import { EdgeLog, InsufficientFundsError } from 'edge-core-js/types'
@@ -13,13 +14,27 @@ import { IUTXO } from '../db/types'
 import { validateMemo } from '../engine/utils'
 import { ScriptTemplate, ScriptTemplates } from '../info/scriptTemplates/types'
 import { sortInputs, sortOutputs } from './bip69'
+import { Bip322Format, signBip322, verifyBip322 } from './bip322'
 import {
   cashAddressToHash,
   CashaddrTypeEnum,
   hashToCashAddress
 } from './bitcoincashUtils/cashAddress'
 import { getCoinFromString } from './coinmapper'
+import { electrumMnemonicToSeed } from './electrum'
+import {
+  addressToTaprootProgram,
+  taprootProgramToAddress
+} from './taprootUtils/bech32m'
+import {
+  signSchnorr,
+  tweakPrivateKey,
+  tweakPublicKey,
+  verifySchnorr
+} from './taprootUtils/schnorr'
+import { taprootKeyPathSighash, TaprootPrevout } from './taprootUtils/sighash'
 import * as utxopicker from './utxopicker'
+import { dustThreshold, inputBytes, transactionBytes } from './utxopicker/utils'
 
 // in bitcoin these are bip44, bip49, bip84 xpub prefixes
 // other coins contain different formats which still need to be gathered.
@@ -28,7 +43,10 @@ export enum BIP43PurposeTypeEnum {
   Legacy = 'legacy', // xpub/xprv tpub/tprv etc.
   Segwit = 'segwit', // zpub/zprv vpub/vprv etc.
   WrappedSegwit = 'wrappedSegwit', // ypub/yprv upub/uprv etc.
-  ReplayProtection = 'replayProtection'
+  ReplayProtection = 'replayProtection',
+  MultisigSegwit = 'multisigSegwit', // bip48 P2WSH
+  MultisigWrappedSegwit = 'multisigWrappedSegwit', // bip48 P2SH-P2WSH
+  Taproot = 'taproot' // bip86 (xpub/xprv tpub/tprv)
 }
 
 // supported address types.
@@ -36,16 +54,19 @@ export enum AddressTypeEnum {
   p2pkh = 'p2pkh',
   p2sh = 'p2sh',
   p2wpkh = 'p2wpkh', // short bech32 address
-  p2wsh = 'p2wsh' // long bech32 address
+  p2wsh = 'p2wsh', // long bech32 address
+  p2tr = 'p2tr' // bech32m address
 }
 
 export enum ScriptTypeEnum {
   p2wpkh = 'p2wpkh',
   p2wpkhp2sh = 'p2wpkhp2sh',
   p2wsh = 'p2wsh',
+  p2wshp2sh = 'p2wshp2sh',
   p2pk = 'p2pk',
   p2pkh = 'p2pkh',
   p2sh = 'p2sh',
+  p2tr = 'p2tr',
   replayProtection = 'replayprotection',
   replayProtectionP2SH = 'replayprotectionp2sh'
 }
@@ -67,12 +88,18 @@ export enum VerifyAddressEnum {
   bad = 'bad'
 }
 
+// How a mnemonic is stretched into the seed of its master key
+export type SeedType = 'bip39' | 'electrum'
+
 export interface SeedOrMnemonicToXPrivArgs {
   seed: string
   type: BIP43PurposeTypeEnum
   coinType?: number // defaults to the coin type as defined in the coin class
   account?: number // defaults to account 0'
+  derivationPath?: string // replaces the BIP43 account path, such as m/0
   coin: string
+  passphrase?: string // the optional BIP39 passphrase of a mnemonic
+  seedType?: SeedType // defaults to bip39
 }
 
 export interface XPrivToXPubArgs {
@@ -81,6 +108,13 @@ export interface XPrivToXPubArgs {
   coin: string
 }
 
+export interface XPrivToAccountXPrivArgs {
+  xpriv: string
+  type: BIP43PurposeTypeEnum
+  coinType?: number // defaults to the coin type as defined in the coin class
+  coin: string
+}
+
 export interface XPrivToPrivateKeyArgs {
   xpriv: string
   type: BIP43PurposeTypeEnum
@@ -97,6 +131,17 @@ export interface XPubToPubkeyArgs {
   coin: string
 }
 
+export interface XKeyArgs {
+  xkey: string // an extended public or private key
+  coin: string
+}
+
+export interface ConvertXKeyArgs {
+  xkey: string
+  toType: BIP43PurposeTypeEnum
+  coin: string
+}
+
 export interface AddressToScriptPubkeyArgs {
   address: string
   addressType?: AddressTypeEnum
@@ -114,6 +159,12 @@ export interface PubkeyToScriptPubkeyReturn {
   redeemScript?: string
 }
 
+export interface MultisigToScriptPubkeyArgs {
+  pubkeys: string[]
+  threshold: number
+  scriptType: ScriptTypeEnum
+}
+
 export interface ScriptPubkeyToAddressArgs {
   scriptPubkey: string
   addressType: AddressTypeEnum
@@ -167,6 +218,28 @@ export interface PrivateKeyEncoding {
 export interface PrivateKeyToWIFArgs {
   privateKey: string
   coin: string
+  // Defaults to a compressed public key
+  compressed?: boolean
+}
+
+export interface Bip38ToWIFArgs {
+  encryptedKey: string
+  passphrase: string
+  coin: string
+}
+
+export interface SignMessageBip322Args {
+  message: string
+  privateKey: string
+  scriptPubkey: string
+  format: Bip322Format
+}
+
+export interface VerifyMessageArgs {
+  message: string
+  address: string
+  signature: string
+  coin: string
 }
 
 export interface TxInput {
@@ -200,11 +273,38 @@ export interface MakeTxArgs {
 
 export interface MakeTxTarget {
   address?: string
+  // Pays to a raw output script instead of an address
+  scriptPubkey?: string
   value?: number
   memo?: string | null
 }
 
-interface MakeTxReturn extends Required<utxopicker.UtxoPickerResult> {
+export interface MaxSpendableArgs {
+  utxos: IUTXO[]
+  // The first target receives the maximum, so its value is ignored
+  targets: MakeTxTarget[]
+  feeRate: number
+  coin: string
+}
+
+export interface MakeBumpTxArgs
+  extends Omit<MakeTxArgs, 'forceUseUtxo' | 'setRBF' | 'subtractFee'> {
+  // The UTXOs spent by the transaction being replaced
+  replacedUtxos: IUTXO[]
+  // The absolute fee paid by the transaction being replaced
+  replacedFee: number
+}
+
+export interface MakeCpfpTxArgs
+  extends Omit<MakeTxArgs, 'forceUseUtxo' | 'subtractFee'> {
+  // Outputs of the unconfirmed parents spent by the child
+  parentUtxos: IUTXO[]
+  // The combined fees and virtual sizes of the unconfirmed parents
+  parentFee: number
+  parentVsize: number
+}
+
+export interface MakeTxReturn extends Required<utxopicker.UtxoPickerResult> {
   hex: string
   psbtBase64: string
 }
@@ -220,6 +320,55 @@ interface SignTxReturn {
   hex: string
 }
 
+interface PartialSignTxReturn extends SignTxReturn {
+  // False while multisig inputs are waiting for cosigner signatures, in which
+  // case the id and hex are empty and the PSBT must be passed to cosigners
+  complete: boolean
+  psbtBase64: string
+}
+
+export interface SeedOrMnemonicToFingerprintArgs {
+  seed: string
+  coin: string
+  passphrase?: string // the optional BIP39 passphrase of a mnemonic
+  seedType?: SeedType // defaults to bip39
+}
+
+export interface XPubToFingerprintArgs {
+  xpub: string
+  type: BIP43PurposeTypeEnum
+  coin: string
+}
+
+export interface AccountDerivationPathArgs {
+  type: BIP43PurposeTypeEnum
+  coinType?: number // defaults to the coin type as defined in the coin class
+  account?: number // defaults to account 0'
+  derivationPath?: string // replaces the BIP43 account path
+  coin: string
+}
+
+// BIP32 derivation info as stored per PSBT input or output
+export interface PsbtDerivation {
+  masterFingerprint: string // hex
+  path: string
+  pubkey: string // hex
+}
+
+export interface AddPsbtDerivationsArgs {
+  psbtBase64: string
+  // indexed by input/output; undefined for foreign inputs/outputs
+  inputs: Array<PsbtDerivation | undefined>
+  outputs: Array<PsbtDerivation | undefined>
+}
+
+export interface FinalizePsbtArgs {
+  psbtBase64: string
+  coin: string
+  // The PSBT sent to the signer, whose transaction must come back unchanged
+  unsignedPsbtBase64?: string
+}
+
 // BitcoinJSNetwork and Bip32 are the same interfaces as declared in  bitcoin-js ts_src/network.ts
 // We redeclare them here for transparency reasons
 export interface BitcoinJSNetwork {
@@ -255,6 +404,10 @@ export function bip43PurposeNumberToTypeEnum(
       return BIP43PurposeTypeEnum.WrappedSegwit
     case 84:
       return BIP43PurposeTypeEnum.Segwit
+    case 48:
+      return BIP43PurposeTypeEnum.MultisigSegwit
+    case 86:
+      return BIP43PurposeTypeEnum.Taproot
     default:
       throw new Error('InvalidPurposeNumber')
   }
@@ -269,6 +422,8 @@ export interface SelectedCoinPrefixes {
   wrappedSegwitXPub?: number
   segwitXPriv?: number
   segwitXPub?: number
+  multisigWrappedSegwitXPub?: number
+  multisigSegwitXPub?: number
   pubkeyHash: number
   scriptHash: number
   bech32?: string
@@ -337,7 +492,7 @@ export function seedOrMnemonicToXPriv(args: SeedOrMnemonicToXPrivArgs): string {
   // match hexadecimal number from beginning to end of string
   const isMnemonic = args.seed.includes(' ')
   const seed = isMnemonic
-    ? bip39.mnemonicToSeedSync(args.seed)
+    ? mnemonicToSeed(args)
     : Buffer.from(args.seed, 'base64')
   const network: BitcoinJSNetwork = bip32NetworkFromCoin({
     coinString: args.coin,
@@ -351,15 +506,35 @@ export function seedOrMnemonicToXPriv(args: SeedOrMnemonicToXPrivArgs): string {
   const bip32FromSeedFunc = coin.bip32FromSeedFunc ?? bip32.fromSeed
   const root: bip32.BIP32Interface = bip32FromSeedFunc(seed)
   root.network = network
+  if (args.derivationPath != null) {
+    return derivePath(root, args.derivationPath).toBase58()
+  }
   // treat a detected seed as an airbitz seed
-  return purpose === 32 || !isMnemonic
-    ? root.derive(0).toBase58()
-    : root
-        .deriveHardened(purpose)
-        .deriveHardened(coinType)
-        .deriveHardened(account)
-        .toBase58()
-}
+  if (purpose === 32 || !isMnemonic) return root.derive(0).toBase58()
+  const accountNode = root
+    .deriveHardened(purpose)
+    .deriveHardened(coinType)
+    .deriveHardened(account)
+  const scriptType = bip48ScriptTypeNumber(args.type)
+  return scriptType == null
+    ? accountNode.toBase58()
+    : accountNode.deriveHardened(scriptType).toBase58()
+}
+// Electrum seeds stretch their phrase with a salt of their own
+const mnemonicToSeed = (args: {
+  seed: string
+  passphrase?: string
+  seedType?: SeedType
+}): Buffer =>
+  args.seedType === 'electrum'
+    ? electrumMnemonicToSeed(args.seed, args.passphrase)
+    : bip39.mnemonicToSeedSync(args.seed, args.passphrase)
+// The bip32 library rejects the bare master path m
+const derivePath = (
+  root: bip32.BIP32Interface,
+  path: string
+): bip32.BIP32Interface => (path === 'm' ? root : root.derivePath(path))
+
 const xprivToXPubInternal = (
   prefixIndex: number,
   args: XPrivToXPubArgs
@@ -386,6 +561,64 @@ export const xprivToXPub = (args: XPrivToXPubArgs): string => {
   return xpub
 }
 
+const parseXPrivInternal = (
+  prefixIndex: number,
+  xpriv: string,
+  type: BIP43PurposeTypeEnum,
+  coinName: string
+): bip32.BIP32Interface => {
+  const network: BitcoinJSNetwork = bip32NetworkFromCoin({
+    coinString: coinName,
+    sigType: type,
+    prefixIndex
+  })
+  const coin = getCoinFromString(coinName)
+  const bip32FromBase58Func = coin.bip32FromBase58Func ?? bip32.fromBase58
+  return bip32FromBase58Func(xpriv, network)
+}
+
+/**
+ * Gets the account xpriv for a purpose from an xpriv of another wallet. A
+ * master xpriv derives the account like seedOrMnemonicToXPriv, while an
+ * account xpriv only belongs to the purposes sharing its version prefix.
+ * Returns undefined when the xpriv cannot give an account for the purpose.
+ */
+export const xprivToAccountXPriv = (
+  args: XPrivToAccountXPrivArgs
+): string | undefined => {
+  const { xpriv, type, coin } = args
+  const parse = (
+    parseType: BIP43PurposeTypeEnum
+  ): bip32.BIP32Interface | undefined =>
+    filterCoinPrefixes(
+      coin,
+      prefixIndex => parseXPrivInternal(prefixIndex, xpriv, parseType, coin),
+      ['Invalid network version']
+    )
+
+  // Master keys are encoded with the legacy version prefix
+  const root = parse(BIP43PurposeTypeEnum.Legacy)
+  if (root != null && root.depth === 0) {
+    if (root.isNeutered()) return
+    root.network = bip32NetworkFromCoin({
+      coinString: coin,
+      sigType: type,
+      prefixIndex: 0
+    })
+    const purpose = bip43PurposeTypeEnumToNumber(type)
+    const coinType = args.coinType ?? getCoinFromString(coin).coinType
+    return root
+      .deriveHardened(purpose)
+      .deriveHardened(coinType)
+      .deriveHardened(0)
+      .toBase58()
+  }
+
+  const account = parse(type)
+  if (account == null || account.depth !== 3 || account.isNeutered()) return
+  return xpriv
+}
+
 export function derivationLevelScriptHash(
   scriptTemplate: ScriptTemplate
 ): number {
@@ -436,6 +669,113 @@ export const xpubToPubkey = (args: XPubToPubkeyArgs): string => {
   return pubkey
 }
 
+// The purposes with their own extended key prefixes (SLIP-132), in the
+// order keys are matched against them. Other purposes use the legacy ones.
+const XKEY_PREFIX_TYPES: Array<[BIP43PurposeTypeEnum, keyof CoinPrefixes]> = [
+  [BIP43PurposeTypeEnum.Legacy, 'legacyXPub'],
+  [BIP43PurposeTypeEnum.WrappedSegwit, 'wrappedSegwitXPub'],
+  [BIP43PurposeTypeEnum.Segwit, 'segwitXPub']
+]
+
+// The SLIP-132 prefixes which some wallets share multisig account xpubs with,
+// rather than the plain xpub prefix
+const MULTISIG_XPUB_PREFIX_TYPES: Array<
+  [BIP43PurposeTypeEnum, 'multisigWrappedSegwitXPub' | 'multisigSegwitXPub']
+> = [
+  [BIP43PurposeTypeEnum.MultisigWrappedSegwit, 'multisigWrappedSegwitXPub'],
+  [BIP43PurposeTypeEnum.MultisigSegwit, 'multisigSegwitXPub']
+]
+
+interface ParsedXKey {
+  node: bip32.BIP32Interface
+  type: BIP43PurposeTypeEnum
+}
+
+const parseXKeyInternal = (
+  prefixIndex: number,
+  args: XKeyArgs
+): ParsedXKey | undefined => {
+  const coin = getCoinFromString(args.coin)
+  const bip32FromBase58Func = coin.bip32FromBase58Func ?? bip32.fromBase58
+  for (const [type, prefixName] of XKEY_PREFIX_TYPES) {
+    if (coin.prefixes[prefixName] == null) continue
+    const network: BitcoinJSNetwork = bip32NetworkFromCoin({
+      coinString: args.coin,
+      sigType: type,
+      prefixIndex
+    })
+    try {
+      return { node: bip32FromBase58Func(args.xkey, network), type }
+    } catch (e: any) {
+      if (e.message !== 'Invalid network version') throw e
+    }
+  }
+
+  const prefixes = selectedCoinPrefixes(coin.prefixes, prefixIndex)
+  for (const [type, prefixName] of MULTISIG_XPUB_PREFIX_TYPES) {
+    const prefix = prefixes[prefixName]
+    if (prefix == null) continue
+    const network: BitcoinJSNetwork = bip32NetworkFromCoin({
+      coinString: args.coin,
+      sigType: type,
+      prefixIndex
+    })
+    try {
+      return {
+        node: bip32FromBase58Func(args.xkey, {
+          ...network,
+          bip32: { ...network.bip32, public: prefix }
+        }),
+        type
+      }
+    } catch (e: any) {
+      if (e.message !== 'Invalid network version') throw e
+    }
+  }
+}
+
+const parseXKey = (args: XKeyArgs): ParsedXKey => {
+  const parsed = filterCoinPrefixes(args.coin, prefixIndex =>
+    parseXKeyInternal(prefixIndex, args)
+  )
+  if (parsed == null) {
+    throw Error('unknown extended key prefix')
+  }
+  return parsed
+}
+
+/**
+ * Returns the purpose whose prefix family an extended key is encoded with:
+ * Legacy, WrappedSegwit or Segwit.
+ */
+export const xkeyPurposeType = (args: XKeyArgs): BIP43PurposeTypeEnum =>
+  parseXKey(args).type
+
+/**
+ * Returns whether an extended key is a private one, such as an xprv.
+ */
+export const isXprv = (args: XKeyArgs): boolean =>
+  !parseXKey(args).node.isNeutered()
+
+/**
+ * Re-encodes an extended public or private key with the prefix of another
+ * purpose, such as the plain xpub prefix which output descriptors expect.
+ */
+export const convertXKey = (args: ConvertXKeyArgs): string => {
+  const { node } = parseXKey(args)
+  node.network = bip32NetworkFromCoin({
+    coinString: args.coin,
+    sigType: args.toType,
+    prefixIndex: 0
+  })
+  return node.toBase58()
+}
+
+// The fingerprint of an extended key itself, which is the master fingerprint
+// for root keys and the one PSBT derivations are relative to for others
+export const xkeyToFingerprint = (args: XKeyArgs): string =>
+  parseXKey(args).node.fingerprint.toString('hex')
+
 const addressToScriptPubkeyInternal = (
   prefixIndex: number,
   args: AddressToScriptPubkeyArgs
@@ -509,6 +849,10 @@ const addressToScriptPubkeyInternal = (
     case AddressTypeEnum.p2wsh:
       payment = bitcoin.payments.p2wsh
       break
+    case AddressTypeEnum.p2tr:
+      return taprootProgramToScriptPubkey(
+        addressToTaprootProgram(args.address, network.bech32)
+      )
     default:
       throw new Error('invalid address type in address to script pubkey')
   }
@@ -626,6 +970,14 @@ export function scriptPubkeyToAddress(
     case AddressTypeEnum.p2wsh:
       payment = bitcoin.payments.p2wsh
       break
+    case AddressTypeEnum.p2tr: {
+      // bech32m isn't supported by the payments library
+      const program = Buffer.from(args.scriptPubkey, 'hex').slice(2)
+      return {
+        address: taprootProgramToAddress(program, network.bech32),
+        legacyAddress: taprootProgramToAddress(program, legacyNetwork.bech32)
+      }
+    }
     default:
       throw new Error('invalid address type in address to script pubkey')
   }
@@ -771,6 +1123,12 @@ export function pubkeyToScriptPubkey(
         throw new Error('failed converting pubkey to script pubkey')
       }
       return { scriptPubkey: payment.output.toString('hex') }
+    case ScriptTypeEnum.p2tr:
+      return {
+        scriptPubkey: taprootProgramToScriptPubkey(
+          tweakPublicKey(Buffer.from(args.pubkey, 'hex'))
+        )
+      }
     case ScriptTypeEnum.replayProtection: {
       if (args.scriptTemplates == null)
         throw new Error('Missing replayProtection script template')
@@ -784,6 +1142,45 @@ export function pubkeyToScriptPubkey(
   }
 }
 
+/**
+ * Builds a sorted multisig script (BIP67) from the cosigners' pubkeys. The
+ * multisig script is returned as the redeemScript for both script types; the
+ * P2SH redeem script of a P2SH-P2WSH output is derived from it when needed.
+ */
+export function multisigToScriptPubkey(
+  args: MultisigToScriptPubkeyArgs
+): PubkeyToScriptPubkeyReturn {
+  const { threshold } = args
+  const pubkeys = args.pubkeys
+    .map(pubkey => Buffer.from(pubkey, 'hex'))
+    .sort((a, b) => a.compare(b))
+  if (threshold < 1 || threshold > pubkeys.length) {
+    throw new Error(
+      `Invalid multisig threshold ${threshold} of ${pubkeys.length}`
+    )
+  }
+  const multisig = bitcoin.payments.p2ms({ m: threshold, pubkeys })
+  if (multisig.output == null) {
+    throw new Error('failed converting pubkeys to multisig script')
+  }
+  const witnessScript = multisig.output.toString('hex')
+  switch (args.scriptType) {
+    case ScriptTypeEnum.p2wsh:
+      return {
+        scriptPubkey: witnessScriptToP2WSH(witnessScript).toString('hex'),
+        redeemScript: witnessScript
+      }
+    case ScriptTypeEnum.p2wshp2sh: {
+      const { scriptPubkey } = scriptPubkeyToP2SH({
+        scriptPubkey: witnessScriptToP2WSH(witnessScript).toString('hex')
+      })
+      return { scriptPubkey, redeemScript: witnessScript }
+    }
+    default:
+      throw new Error('invalid script type for multisig script pubkey')
+  }
+}
+
 export const toNewFormat = (address: string, coinName: string): string => {
   const addressType = getAddressTypeFromAddress(address, coinName)
   return scriptPubkeyToAddress({
@@ -834,10 +1231,39 @@ export function privateKeyToWIF(args: PrivateKeyToWIFArgs): string {
   })
   const coinClass = getCoinFromString(args.coin)
   return bitcoin.ECPair.fromPrivateKey(Buffer.from(args.privateKey, 'hex'), {
-    network
+    network,
+    compressed: args.compressed
   }).toWIF(coinClass.wifEncodeFunc)
 }
 
+// BIP38 keys start with the 0x0142 or 0x0143 prefix, which encodes as 6P
+export const isBip38Key = (key: string): boolean =>
+  /^6P[1-9A-HJ-NP-Za-km-z]{56}$/.test(key)
+
+/**
+ * Decrypts a BIP38 key into a WIF, for keys encrypted directly and for keys
+ * made with EC multiplication. The key stores a hash of its Bitcoin address,
+ * which is how a wrong passphrase is detected. The bip38 library always
+ * hashes a mainnet Bitcoin address, so other coins are not supported.
+ */
+export async function bip38ToWIF(args: Bip38ToWIFArgs): Promise<string> {
+  const { encryptedKey, passphrase, coin } = args
+  if (coin !== 'bitcoin')
+    throw new Error(`BIP38 keys are not supported for ${coin}`)
+  if (!isBip38Key(encryptedKey)) throw new Error('Invalid BIP38 key')
+  let decrypted: { privateKey: Buffer; compressed: boolean }
+  try {
+    decrypted = await bip38.decryptAsync(encryptedKey, passphrase)
+  } catch (error) {
+    throw new Error('Incorrect BIP38 passphrase')
+  }
+  return privateKeyToWIF({
+    privateKey: decrypted.privateKey.toString('hex'),
+    coin,
+    compressed: decrypted.compressed
+  })
+}
+
 const wifToPrivateKeyEncodingInternal = (
   prefixIndex: number,
   args: WIFToPrivateKeyEncodingArgs
@@ -892,6 +1318,139 @@ export function signMessageBase64(message: string, privateKey: string): string {
     .toString('base64')
 }
 
+export function signMessageBip322(args: SignMessageBip322Args): string {
+  return signBip322({
+    message: args.message,
+    privateKey: Buffer.from(args.privateKey, 'hex'),
+    scriptPubkey: Buffer.from(args.scriptPubkey, 'hex'),
+    format: args.format
+  })
+}
+
+/**
+ * Verifies a BIP322 signature, or a legacy signature from signMessageBase64,
+ * including the BIP137 header flags for segwit addresses.
+ */
+export function verifyMessage(args: VerifyMessageArgs): boolean {
+  const { message, address, signature, coin } = args
+  const buffer = Buffer.from(signature, 'base64')
+  // Legacy signatures are a header byte followed by the 64 byte signature
+  if (buffer.length === 65 && buffer[0] >= 27 && buffer[0] <= 42) {
+    try {
+      return bitcoinMessage.verify(message, address, buffer, undefined, true)
+    } catch (error) {
+      return false
+    }
+  }
+  return verifyBip322({
+    message,
+    scriptPubkey: Buffer.from(addressToScriptPubkey({ address, coin }), 'hex'),
+    signature
+  })
+}
+
+// Maps a wallet UTXO to a UTXO picker input with the matching PSBT fields
+const utxoToPickerInput = (
+  utxo: IUTXO,
+  sequence: number,
+  sighashType: number
+): utxopicker.UTXO => {
+  const input: utxopicker.UTXO = {
+    hash: Buffer.from(utxo.txid, 'hex').reverse(),
+    index: utxo.vout,
+    value: parseInt(utxo.value),
+    script: Buffer.from(utxo.script, 'hex'),
+    scriptPubkey: Buffer.from(utxo.scriptPubkey, 'hex'),
+    scriptType: utxo.scriptType,
+    sequence,
+    sighashType
+  }
+  // Map script type to the correct PsbtInput UTXO field
+  switch (utxo.scriptType) {
+    // Non-segwit
+    case ScriptTypeEnum.p2pk:
+    case ScriptTypeEnum.p2pkh:
+    case ScriptTypeEnum.p2sh:
+    case ScriptTypeEnum.replayProtection:
+    case ScriptTypeEnum.replayProtectionP2SH: {
+      input.nonWitnessUtxo = input.script
+      break
+    }
+    // Segwit
+    case ScriptTypeEnum.p2wpkh:
+    case ScriptTypeEnum.p2wpkhp2sh:
+    case ScriptTypeEnum.p2wsh:
+    case ScriptTypeEnum.p2wshp2sh:
+    case ScriptTypeEnum.p2tr: {
+      input.witnessUtxo = {
+        script: input.script,
+        value: parseInt(utxo.value)
+      }
+      break
+    }
+    default:
+      throw new Error(`unknown script type ${utxo.scriptType}`)
+  }
+  if (utxo.redeemScript != null) {
+    const redeemScript = Buffer.from(utxo.redeemScript, 'hex')
+    // Multisig UTXOs store the witness script as their redeem script
+    switch (utxo.scriptType) {
+      case ScriptTypeEnum.p2wsh:
+        input.witnessScript = redeemScript
+        break
+      case ScriptTypeEnum.p2wshp2sh:
+        input.witnessScript = redeemScript
+        input.redeemScript = witnessScriptToP2WSH(utxo.redeemScript)
+        break
+      default:
+        input.redeemScript = redeemScript
+    }
+  }
+  return input
+}
+
+// Maps spend targets to UTXO picker targets, with OP_RETURN outputs for memos
+const toPickerTargets = (
+  makeTxTargets: MakeTxTarget[],
+  coin: string
+): utxopicker.Target[] => {
+  const targets: utxopicker.Target[] = []
+  for (const target of makeTxTargets) {
+    if (target.scriptPubkey != null) {
+      targets.push({
+        script: target.scriptPubkey,
+        value: target.value ?? 0
+      })
+    } else if (target.address != null && target.value != null) {
+      const script = addressToScriptPubkey({
+        address: target.address,
+        coin
+      })
+      targets.push({
+        script,
+        value: target.value
+      })
+    }
+
+    if (target.memo != null && target.memo !== '') {
+      const memoHex = Buffer.from(target.memo, 'utf8').toString('hex')
+      // check if hex string is within 80 bytes
+      const validatedMemo = validateMemo(memoHex)
+      if (!validatedMemo.passed) {
+        throw new Error('Memo size exceeds 80 bytes')
+      }
+      const script = bitcoin.script
+        .compile([bitcoin.opcodes.OP_RETURN, Buffer.from(target.memo, 'utf8')])
+        .toString('hex')
+      targets.push({
+        script,
+        value: 0
+      })
+    }
+  }
+  return targets
+}
+
 export function makeTx(args: MakeTxArgs): MakeTxReturn {
   const { log, outputSort } = args
   let sequence = 0xffffffff
@@ -924,43 +1483,7 @@ export function makeTx(args: MakeTxArgs): MakeTxReturn {
   for (const utxo of uniqueUtxos) {
     // Cannot use a utxo without a script
     if (utxo.script == null) continue
-    const input: utxopicker.UTXO = {
-      hash: Buffer.from(utxo.txid, 'hex').reverse(),
-      index: utxo.vout,
-      value: parseInt(utxo.value),
-      script: Buffer.from(utxo.script, 'hex'),
-      scriptPubkey: Buffer.from(utxo.scriptPubkey, 'hex'),
-      scriptType: utxo.scriptType,
-      sequence,
-      sighashType
-    }
-    // Map script type to the correct PsbtInput UTXO field
-    switch (utxo.scriptType) {
-      // Non-segwit
-      case ScriptTypeEnum.p2pk:
-      case ScriptTypeEnum.p2pkh:
-      case ScriptTypeEnum.p2sh:
-      case ScriptTypeEnum.replayProtection:
-      case ScriptTypeEnum.replayProtectionP2SH: {
-        input.nonWitnessUtxo = input.script
-        break
-      }
-      // Segwit
-      case ScriptTypeEnum.p2wpkh:
-      case ScriptTypeEnum.p2wpkhp2sh:
-      case ScriptTypeEnum.p2wsh: {
-        input.witnessUtxo = {
-          script: input.script,
-          value: parseInt(utxo.value)
-        }
-        break
-      }
-      default:
-        throw new Error(`unknown script type ${utxo.scriptType}`)
-    }
-    if (utxo.redeemScript != null) {
-      input.redeemScript = Buffer.from(utxo.redeemScript, 'hex')
-    }
+    const input = utxoToPickerInput(utxo, sequence, sighashType)
     let forceUsage = false
     for (const forceUtxo of args.forceUseUtxo) {
       if (forceUtxo.id === utxo.id) {
@@ -971,35 +1494,7 @@ export function makeTx(args: MakeTxArgs): MakeTxReturn {
     if (!forceUsage) mappedUtxos.push(input)
   }
 
-  const targets: utxopicker.Target[] = []
-  for (const target of args.targets) {
-    if (target.address != null && target.value != null) {
-      const script = addressToScriptPubkey({
-        address: target.address,
-        coin: coin.name
-      })
-      targets.push({
-        script,
-        value: target.value
-      })
-    }
-
-    if (target.memo != null && target.memo !== '') {
-      const memoHex = Buffer.from(target.memo, 'utf8').toString('hex')
-      // check if hex string is within 80 bytes
-      const validatedMemo = validateMemo(memoHex)
-      if (!validatedMemo.passed) {
-        throw new Error('Memo size exceeds 80 bytes')
-      }
-      const script = bitcoin.script
-        .compile([bitcoin.opcodes.OP_RETURN, Buffer.from(target.memo, 'utf8')])
-        .toString('hex')
-      targets.push({
-        script,
-        value: 0
-      })
-    }
-  }
+  const targets = toPickerTargets(args.targets, coin.name)
 
   const changeScript = addressToScriptPubkey({
     address: args.freshChangeAddress,
@@ -1013,7 +1508,7 @@ export function makeTx(args: MakeTxArgs): MakeTxReturn {
       ? utxoPicker.forceUseUtxo
       : args.subtractFee ?? false
       ? utxoPicker.subtractFee
-      : utxoPicker.accumulative
+      : utxoPicker.branchAndBound ?? utxoPicker.accumulative
   const result = utxopicking({
     utxos: mappedUtxos,
     useUtxos,
@@ -1054,24 +1549,317 @@ export function makeTx(args: MakeTxArgs): MakeTxReturn {
   }
 }
 
-export async function signTx(args: SignTxArgs): Promise<SignTxReturn> {
+/**
+ * Computes the largest amount the first target can receive, with the other
+ * targets paid in full. This spends every UTXO worth more than the fee to
+ * spend it and leaves no change, so the result is the amount to pass to
+ * makeTx for a max spend. Amounts too small to relay come out as 0.
+ */
+export function maxSpendable(args: MaxSpendableArgs): number {
+  const { feeRate } = args
+  const coin = getCoinFromString(args.coin)
+  const [maxTarget, ...otherTargets] = args.targets
+  if (maxTarget?.address == null && maxTarget?.scriptPubkey == null) {
+    throw new Error('Need to provide Spend Targets')
+  }
+
+  const inputs = args.utxos
+    .filter(utxo => !utxo.spent && utxo.script != null)
+    .map(utxo =>
+      utxoToPickerInput(utxo, 0xffffffff, bitcoin.Transaction.SIGHASH_ALL)
+    )
+    // Same as the pickers, skip inputs costing more than they are worth
+    .filter(input => feeRate * inputBytes(input) <= input.value)
+  const targets = toPickerTargets(
+    [{ ...maxTarget, value: 0 }, ...otherTargets],
+    coin.name
+  )
+  const otherValue = targets.reduce((sum, { value }) => sum + value, 0)
+  targets[0].value =
+    inputs.reduce((sum, { value }) => sum + value, 0) - otherValue
+
+  // Paying the fee out of the first target leaves the maximum amount
+  const utxoPicker = coin.utxoPicker ?? utxopicker.utxoPicker
+  const { outputs } = utxoPicker.subtractFee({
+    utxos: inputs,
+    targets,
+    feeRate,
+    changeScript: ''
+  })
+  if (outputs == null) return 0
+  const [maxOutput] = outputs
+  return maxOutput.value > dustThreshold(maxOutput, feeRate)
+    ? maxOutput.value
+    : 0
+}
+
+// The default -incrementalrelayfee of Bitcoin Core, in sat/vB
+export const INCREMENTAL_RELAY_FEE_RATE = 1
+const MAX_FEE_ATTEMPTS = 5
+
+/**
+ * Runs makeTx with a rising fee rate until the fee covers the minimum for
+ * the resulting transaction size.
+ */
+const makeTxWithMinimumFee = (
+  args: MakeTxArgs,
+  getMinimumFee: (vsize: number) => number
+): MakeTxReturn => {
+  let feeRate = Math.ceil(args.feeRate)
+  for (let attempt = 0; attempt < MAX_FEE_ATTEMPTS; attempt++) {
+    const tx = makeTx({ ...args, feeRate })
+    const vsize = transactionBytes(tx.inputs, tx.outputs)
+    const minimumFee = getMinimumFee(vsize)
+    if (tx.fee >= minimumFee) return tx
+
+    // Adding inputs or dropping the change changes the size, so try again
+    feeRate = Math.max(feeRate + 1, Math.ceil(minimumFee / vsize))
+  }
+  throw new Error('Unable to meet the minimum fee requirements')
+}
+
+/**
+ * Builds a BIP125 replacement which spends every input of the replaced
+ * transaction, plus any extra UTXOs needed to cover the higher fee. The fee
+ * rate is raised above the requested rate when rules 3 and 4 demand it: the
+ * replacement must pay the replaced fee plus the incremental relay fee for
+ * its own size.
+ */
+export function makeBumpTx(args: MakeBumpTxArgs): MakeTxReturn {
+  const { replacedUtxos, replacedFee, ...makeTxArgs } = args
+  return makeTxWithMinimumFee(
+    {
+      ...makeTxArgs,
+      // The replaced inputs are marked as spent by the replaced transaction
+      forceUseUtxo: replacedUtxos.map(utxo => ({ ...utxo, spent: false })),
+      setRBF: true,
+      subtractFee: false
+    },
+    vsize => replacedFee + INCREMENTAL_RELAY_FEE_RATE * vsize
+  )
+}
+
+/**
+ * Builds a child transaction spending outputs of unconfirmed parents, paying
+ * enough fee for the parents and the child together to reach the requested
+ * fee rate. The child alone never pays less than the requested fee rate.
+ */
+export function makeCpfpTx(args: MakeCpfpTxArgs): MakeTxReturn {
+  const { parentUtxos, parentFee, parentVsize, ...makeTxArgs } = args
+  return makeTxWithMinimumFee(
+    { ...makeTxArgs, forceUseUtxo: parentUtxos, subtractFee: false },
+    vsize => Math.ceil(args.feeRate * (parentVsize + vsize)) - parentFee
+  )
+}
+
+/**
+ * Returns the virtual size of a raw transaction, in vbytes.
+ */
+export function transactionVirtualSize(hex: string): number {
+  return bitcoin.Transaction.fromHex(hex).virtualSize()
+}
+
+/**
+ * Checks whether a raw transaction signals replaceability as described in
+ * BIP125, meaning at least one of its inputs has a sequence number below
+ * 0xfffffffe.
+ */
+export function isReplaceable(hex: string): boolean {
+  const tx = bitcoin.Transaction.fromHex(hex)
+  return tx.ins.some(({ sequence }) => sequence < 0xffffffff - 1)
+}
+
+export async function signTx(args: SignTxArgs): Promise<PartialSignTxReturn> {
   const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
   const coin = getCoinFromString(args.coin)
 
+  let complete = true
   for (let i = 0; i < psbt.inputCount; i++) {
+    const input = psbt.data.inputs[i]
+    if (input.finalScriptSig != null || input.finalScriptWitness != null) {
+      continue
+    }
     const privateKeyEncoding =
       args.privateKeyEncodings[i] ??
       args.privateKeyEncodings[args.privateKeyEncodings.length - 1]
     const { hex, compressed } = privateKeyEncoding
-    psbt.signInput(
-      i,
-      bitcoin.ECPair.fromPrivateKey(Buffer.from(hex, 'hex'), { compressed }),
-      bitcoin.Psbt.DEFAULT_SIGHASHES,
-      coin.sighashFunction
-    )
+
+    // The PSBT library doesn't know taproot, so key-path spends are signed
+    // and finalized here
+    if (
+      input.witnessUtxo != null &&
+      isTaprootScript(input.witnessUtxo.script)
+    ) {
+      const unsignedTx = bitcoin.Transaction.fromBuffer(
+        psbt.data.globalMap.unsignedTx.toBuffer()
+      )
+      const sighash = taprootKeyPathSighash(
+        unsignedTx,
+        i,
+        getPsbtPrevouts(psbt, unsignedTx)
+      )
+      const signature = signSchnorr(
+        sighash,
+        tweakPrivateKey(Buffer.from(hex, 'hex'))
+      )
+      // Catches keys which don't belong to the output before finalizing
+      const outputKey = input.witnessUtxo.script.slice(2)
+      if (!verifySchnorr(signature, sighash, outputKey)) {
+        throw new Error(`Invalid taproot signature for input ${i}`)
+      }
+      psbt.updateInput(i, {
+        // A witness stack holding only the signature
+        finalScriptWitness: Buffer.concat([
+          Buffer.from([1, signature.length]),
+          signature
+        ])
+      })
+      continue
+    }
+    const keyPair = bitcoin.ECPair.fromPrivateKey(Buffer.from(hex, 'hex'), {
+      compressed
+    })
+    // A multisig input may already hold our signature from an earlier round
+    const isSigned =
+      input.partialSig?.some(({ pubkey }) =>
+        pubkey.equals(keyPair.publicKey)
+      ) ?? false
+    if (!isSigned) {
+      psbt.signInput(
+        i,
+        keyPair,
+        bitcoin.Psbt.DEFAULT_SIGHASHES,
+        coin.sighashFunction
+      )
+    }
     psbt.validateSignaturesOfInput(i)
+
+    // Multisig inputs can only be finalized once the threshold is met
+    if (input.witnessScript != null) {
+      const { m = 1 } = bitcoin.payments.p2ms({ output: input.witnessScript })
+      const { partialSig = [] } = psbt.data.inputs[i]
+      if (partialSig.length < m) {
+        complete = false
+        continue
+      }
+    }
     psbt.finalizeInput(i)
   }
+  if (!complete) {
+    return { id: '', hex: '', complete, psbtBase64: psbt.toBase64() }
+  }
+  const tx = psbt.extractTransaction(true)
+  return {
+    id: tx.getId(coin.txHashFunction),
+    hex: tx.toHex(),
+    complete,
+    psbtBase64: psbt.toBase64()
+  }
+}
+
+export function seedOrMnemonicToFingerprint(
+  args: SeedOrMnemonicToFingerprintArgs
+): string {
+  const isMnemonic = args.seed.includes(' ')
+  const seed = isMnemonic
+    ? mnemonicToSeed(args)
+    : Buffer.from(args.seed, 'base64')
+  const coin = getCoinFromString(args.coin)
+  const bip32FromSeedFunc = coin.bip32FromSeedFunc ?? bip32.fromSeed
+  return bip32FromSeedFunc(seed).fingerprint.toString('hex')
+}
+
+const xpubToFingerprintInternal = (
+  prefixIndex: number,
+  args: XPubToFingerprintArgs
+): string => {
+  const coin = getCoinFromString(args.coin)
+  const network: BitcoinJSNetwork = bip32NetworkFromCoin({
+    coinString: args.coin,
+    sigType: args.type,
+    prefixIndex
+  })
+  const bip32FromBase58Func = coin.bip32FromBase58Func ?? bip32.fromBase58
+  return bip32FromBase58Func(args.xpub, network).fingerprint.toString('hex')
+}
+
+export const xpubToFingerprint = (args: XPubToFingerprintArgs): string => {
+  const fingerprint = filterCoinPrefixes(
+    args.coin,
+    prefixIndex => xpubToFingerprintInternal(prefixIndex, args),
+    [`Invalid network version`]
+  )
+  if (fingerprint == null) {
+    throw Error('unable to derive fingerprint from xpub')
+  }
+  return fingerprint
+}
+
+// The path from the master key to the account key, mirroring the derivation
+// done in seedOrMnemonicToXPriv
+export function accountDerivationPath(args: AccountDerivationPathArgs): string {
+  if (args.derivationPath != null) return args.derivationPath
+  const coin = getCoinFromString(args.coin)
+  const purpose = bip43PurposeTypeEnumToNumber(args.type)
+  const coinType = args.coinType ?? coin.coinType
+  const account = args.account ?? 0
+  if (purpose === 32) return 'm/0'
+  const accountPath = `m/${purpose}'/${coinType}'/${account}'`
+  const scriptType = bip48ScriptTypeNumber(args.type)
+  return scriptType == null ? accountPath : `${accountPath}/${scriptType}'`
+}
+
+export function addPsbtDerivations(args: AddPsbtDerivationsArgs): string {
+  const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
+  const toBip32Derivation = (
+    derivation: PsbtDerivation
+  ): {
+    masterFingerprint: Buffer
+    path: string
+    pubkey: Buffer
+  } => ({
+    masterFingerprint: Buffer.from(derivation.masterFingerprint, 'hex'),
+    path: derivation.path,
+    pubkey: Buffer.from(derivation.pubkey, 'hex')
+  })
+
+  args.inputs.forEach((derivation, i) => {
+    if (derivation == null) return
+    psbt.updateInput(i, { bip32Derivation: [toBip32Derivation(derivation)] })
+  })
+  args.outputs.forEach((derivation, i) => {
+    if (derivation == null) return
+    psbt.updateOutput(i, { bip32Derivation: [toBip32Derivation(derivation)] })
+  })
+  return psbt.toBase64()
+}
+
+export function combinePsbts(psbtBase64s: string[]): string {
+  const [psbt, ...others] = psbtBase64s.map(psbtBase64 =>
+    bitcoin.Psbt.fromBase64(psbtBase64)
+  )
+  if (psbt == null) throw new Error('No PSBTs to combine')
+  if (others.length > 0) psbt.combine(...others)
+  return psbt.toBase64()
+}
+
+export function finalizePsbt(args: FinalizePsbtArgs): SignTxReturn {
+  const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
+  const coin = getCoinFromString(args.coin)
+
+  psbt.data.inputs.forEach((input, i) => {
+    // Inputs may have been finalized by the signer already
+    if (input.finalScriptSig != null || input.finalScriptWitness != null) {
+      return
+    }
+    if (input.partialSig == null || input.partialSig.length === 0) {
+      throw new Error(`Missing signature for input ${i}`)
+    }
+    if (!psbt.validateSignaturesOfInput(i)) {
+      throw new Error(`Invalid signature for input ${i}`)
+    }
+    psbt.finalizeInput(i)
+  })
   const tx = psbt.extractTransaction(true)
   return {
     id: tx.getId(coin.txHashFunction),
@@ -1079,6 +1867,55 @@ export async function signTx(args: SignTxArgs): Promise<SignTxReturn> {
   }
 }
 
+/**
+ * Finalizes the inputs of a PSBT signed elsewhere, leaving multisig inputs
+ * which are still waiting for cosigner signatures, as signTx does.
+ */
+export function completePsbt(args: FinalizePsbtArgs): PartialSignTxReturn {
+  const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
+  const coin = getCoinFromString(args.coin)
+
+  if (args.unsignedPsbtBase64 != null) {
+    const unsignedPsbt = bitcoin.Psbt.fromBase64(args.unsignedPsbtBase64)
+    const unsignedTx = unsignedPsbt.data.globalMap.unsignedTx.toBuffer()
+    if (!psbt.data.globalMap.unsignedTx.toBuffer().equals(unsignedTx)) {
+      throw new Error('The signed PSBT is for a different transaction')
+    }
+  }
+
+  let complete = true
+  psbt.data.inputs.forEach((input, i) => {
+    if (input.finalScriptSig != null || input.finalScriptWitness != null) {
+      return
+    }
+    const { partialSig = [] } = input
+    if (input.witnessScript != null) {
+      const { m = 1 } = bitcoin.payments.p2ms({ output: input.witnessScript })
+      if (partialSig.length < m) {
+        complete = false
+        return
+      }
+    }
+    if (partialSig.length === 0) {
+      throw new Error(`Missing signature for input ${i}`)
+    }
+    if (!psbt.validateSignaturesOfInput(i)) {
+      throw new Error(`Invalid signature for input ${i}`)
+    }
+    psbt.finalizeInput(i)
+  })
+  if (!complete) {
+    return { id: '', hex: '', complete, psbtBase64: psbt.toBase64() }
+  }
+  const tx = psbt.extractTransaction(true)
+  return {
+    id: tx.getId(coin.txHashFunction),
+    hex: tx.toHex(),
+    complete,
+    psbtBase64: psbt.toBase64()
+  }
+}
+
 // ---------------------------------------------------------------------
 // Internal Utilities
 // ---------------------------------------------------------------------
@@ -1130,8 +1967,13 @@ const bip32NetworkFromCoinPrefix = (
         private: prefixes.wrappedSegwitXPriv
       }
       break
+    // Multisig account keys are shared between cosigners as plain xpubs, and
+    // taproot has no dedicated extended key prefixes
     case BIP43PurposeTypeEnum.Legacy:
     case BIP43PurposeTypeEnum.Airbitz:
+    case BIP43PurposeTypeEnum.MultisigSegwit:
+    case BIP43PurposeTypeEnum.MultisigWrappedSegwit:
+    case BIP43PurposeTypeEnum.Taproot:
       xKeyPrefixes = {
         public: prefixes.legacyXPub,
         private: prefixes.legacyXPriv
@@ -1176,9 +2018,61 @@ const bip43PurposeTypeEnumToNumber = (
       return 84
     case BIP43PurposeTypeEnum.ReplayProtection:
       return 44 // Only bip44 formatted wallets contain this purpose type (BCH)
+    case BIP43PurposeTypeEnum.MultisigSegwit:
+    case BIP43PurposeTypeEnum.MultisigWrappedSegwit:
+      return 48
+    case BIP43PurposeTypeEnum.Taproot:
+      return 86
   }
 }
 
+// The hardened script type level which bip48 adds below the account level
+const bip48ScriptTypeNumber = (
+  purpose: BIP43PurposeTypeEnum
+): number | undefined => {
+  switch (purpose) {
+    case BIP43PurposeTypeEnum.MultisigSegwit:
+      return 2
+    case BIP43PurposeTypeEnum.MultisigWrappedSegwit:
+      return 1
+    default:
+      return undefined
+  }
+}
+
+// OP_1 <32 byte output key>
+const isTaprootScript = (script: Buffer): boolean =>
+  script.length === 34 && script[0] === bitcoin.opcodes.OP_1 && script[1] === 32
+
+const taprootProgramToScriptPubkey = (program: Buffer): string =>
+  bitcoin.script.compile([bitcoin.opcodes.OP_1, program]).toString('hex')
+
+// Taproot signatures commit to the outputs spent by every input
+const getPsbtPrevouts = (
+  psbt: bitcoin.Psbt,
+  unsignedTx: bitcoin.Transaction
+): TaprootPrevout[] => {
+  const { ins } = unsignedTx
+  return psbt.data.inputs.map((input, i) => {
+    if (input.witnessUtxo != null) return input.witnessUtxo
+    if (input.nonWitnessUtxo != null) {
+      const { outs } = bitcoin.Transaction.fromBuffer(input.nonWitnessUtxo)
+      return outs[ins[i].index]
+    }
+    throw new Error(`Missing previous output for input ${i}`)
+  })
+}
+
+const witnessScriptToP2WSH = (witnessScript: string): Buffer => {
+  const { output } = bitcoin.payments.p2wsh({
+    redeem: { output: Buffer.from(witnessScript, 'hex') }
+  })
+  if (output == null) {
+    throw new Error('failed converting witness script to p2wsh')
+  }
+  return output
+}
+
 /**
  * Filters through a coin's prefixes calling a filter function for each coin
  * prefixIndex until the function returns a value.
@@ -1250,6 +2144,10 @@ const guessAddressTypeFromAddress = (
     bitcoin.payments.p2wpkh({ address, network })
     return AddressTypeEnum.p2wpkh
   } catch (e) {}
+  try {
+    addressToTaprootProgram(address, network.bech32)
+    return AddressTypeEnum.p2tr
+  } catch (e) {}
   const cashAddrPrefixes = getCashAddrPrefixes(coinClass)
   if (cashAddrPrefixes.length > 0) {
     try {
@@ -1276,6 +2174,11 @@ const selectedCoinPrefixes = (
     wrappedSegwitXPub: indexAtProtected(prefixes.wrappedSegwitXPub, index),
     segwitXPriv: indexAtProtected(prefixes.segwitXPriv, index),
     segwitXPub: indexAtProtected(prefixes.segwitXPub, index),
+    multisigWrappedSegwitXPub: indexAtProtected(
+      prefixes.multisigWrappedSegwitXPub,
+      index
+    ),
+    multisigSegwitXPub: indexAtProtected(prefixes.multisigSegwitXPub, index),
     pubkeyHash: indexAtProtected(prefixes.pubkeyHash, index),
     scriptHash: indexAtProtected(prefixes.scriptHash, index),
     bech32: indexAtProtected(prefixes.bech32, index),
@@ -0,0 +1,114 @@
+import { Buffer } from 'buffer'
+
+/*
+Segwit v1+ addresses use the bech32m checksum.
+Reference: https://github.com/bitcoin/bips/blob/master/bip-0350.mediawiki
+*/
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+const BECH32M_CONST = 0x2bc830a3
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3]
+const CHECKSUM_LENGTH = 6
+const TAPROOT_VERSION = 1
+const TAPROOT_PROGRAM_LENGTH = 32
+
+const polymod = (values: number[]): number => {
+  let checksum = 1
+  for (const value of values) {
+    const top = checksum >>> 25
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value
+    for (let i = 0; i < GENERATOR.length; i++) {
+      if (((top >>> i) & 1) === 1) checksum ^= GENERATOR[i]
+    }
+  }
+  return checksum
+}
+
+const hrpExpand = (hrp: string): number[] => {
+  const result: number[] = []
+  for (let i = 0; i < hrp.length; i++) result.push(hrp.charCodeAt(i) >>> 5)
+  result.push(0)
+  for (let i = 0; i < hrp.length; i++) result.push(hrp.charCodeAt(i) & 31)
+  return result
+}
+
+const convertBits = (
+  data: number[],
+  from: number,
+  to: number,
+  pad: boolean
+): number[] => {
+  let accumulator = 0
+  let bits = 0
+  const result: number[] = []
+  const mask = (1 << to) - 1
+  for (const value of data) {
+    accumulator = (accumulator << from) | value
+    bits += from
+    while (bits >= to) {
+      bits -= to
+      result.push((accumulator >>> bits) & mask)
+    }
+  }
+  if (pad) {
+    if (bits > 0) result.push((accumulator << (to - bits)) & mask)
+  } else if (bits >= from || ((accumulator << (to - bits)) & mask) !== 0) {
+    throw new Error('Invalid padding in bech32m data')
+  }
+  return result
+}
+
+export const taprootProgramToAddress = (
+  program: Buffer,
+  hrp: string
+): string => {
+  if (program.length !== TAPROOT_PROGRAM_LENGTH) {
+    throw new Error('Invalid taproot program length')
+  }
+  const data = [TAPROOT_VERSION, ...convertBits([...program], 8, 5, true)]
+  const checksum =
+    polymod([...hrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^ BECH32M_CONST
+  let address = `${hrp}1`
+  for (const value of data) address += CHARSET.charAt(value)
+  for (let i = 0; i < CHECKSUM_LENGTH; i++) {
+    address += CHARSET.charAt((checksum >>> (5 * (5 - i))) & 31)
+  }
+  return address
+}
+
+export const addressToTaprootProgram = (
+  address: string,
+  hrp: string
+): Buffer => {
+  if (address.toLowerCase() !== address && address.toUpperCase() !== address) {
+    throw new Error(`InvalidArgument: ${address} has Mixed case`)
+  }
+  const lowerAddress = address.toLowerCase()
+  const separatorIndex = lowerAddress.lastIndexOf('1')
+  if (hrp === '' || lowerAddress.slice(0, separatorIndex) !== hrp) {
+    throw new Error('Invalid prefix or Network mismatch')
+  }
+
+  const data: number[] = []
+  for (const char of lowerAddress.slice(separatorIndex + 1)) {
+    const value = CHARSET.indexOf(char)
+    if (value === -1) throw new Error(`Invalid bech32m character ${char}`)
+    data.push(value)
+  }
+  if (
+    data.length < CHECKSUM_LENGTH + 1 ||
+    polymod([...hrpExpand(hrp), ...data]) !== BECH32M_CONST
+  ) {
+    throw new Error('Invalid bech32m checksum')
+  }
+
+  const [version, ...words] = data.slice(0, -CHECKSUM_LENGTH)
+  if (version !== TAPROOT_VERSION) {
+    throw new Error(`Unsupported witness version ${version}`)
+  }
+  const program = Buffer.from(convertBits(words, 5, 8, false))
+  if (program.length !== TAPROOT_PROGRAM_LENGTH) {
+    throw new Error('Invalid taproot program length')
+  }
+  return program
+}
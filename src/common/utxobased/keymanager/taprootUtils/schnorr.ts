@@ -0,0 +1,92 @@
+import * as secp from '@noble/secp256k1'
+import * as bitcoin from 'altcoin-js'
+import BN from 'bn.js'
+import { Buffer } from 'buffer'
+import * as ecc from 'tiny-secp256k1'
+
+/*
+BIP86 key tweaking and BIP340 schnorr signatures for taproot key-path spends.
+The signatures come from @noble/secp256k1 rather than being computed here.
+Reference: https://github.com/bitcoin/bips/blob/master/bip-0340.mediawiki
+Reference: https://github.com/bitcoin/bips/blob/master/bip-0341.mediawiki
+*/
+
+const CURVE_ORDER = new BN(
+  'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+  16
+)
+
+// The synchronous signing functions need a synchronous hash function
+secp.utils.sha256Sync = (...messages) =>
+  bitcoin.crypto.sha256(Buffer.concat(messages))
+
+export const taggedHash = (tag: string, data: Buffer): Buffer => {
+  const tagHash = bitcoin.crypto.sha256(Buffer.from(tag, 'utf8'))
+  return bitcoin.crypto.sha256(Buffer.concat([tagHash, tagHash, data]))
+}
+
+// Drops the parity byte of a compressed public key
+export const toXOnly = (pubkey: Buffer): Buffer =>
+  pubkey.length === 32 ? pubkey : pubkey.slice(1, 33)
+
+const hasEvenY = (pubkey: Buffer): boolean => pubkey[0] === 0x02
+
+const toScalarBuffer = (scalar: InstanceType<typeof BN>): Buffer =>
+  scalar.toArrayLike(Buffer, 'be', 32)
+
+const negatePrivateKey = (privateKey: Buffer): Buffer =>
+  toScalarBuffer(CURVE_ORDER.sub(new BN(privateKey)))
+
+const privateKeyToPubkey = (privateKey: Buffer): Buffer => {
+  const pubkey = ecc.pointFromScalar(privateKey, true)
+  if (pubkey == null) throw new Error('Invalid private key')
+  return pubkey
+}
+
+/**
+ * Tweaks an internal public key into the taproot output key. BIP86 keys
+ * commit to no script tree, so the tweak only hashes the internal key.
+ */
+export const tweakPublicKey = (pubkey: Buffer): Buffer => {
+  const internalKey = toXOnly(pubkey)
+  const tweak = taggedHash('TapTweak', internalKey)
+  // The internal key is always lifted to its even-y point
+  const evenPubkey = Buffer.concat([Buffer.from([0x02]), internalKey])
+  const outputKey = ecc.pointAddScalar(evenPubkey, tweak, true)
+  if (outputKey == null) throw new Error('Invalid taproot tweak')
+  return toXOnly(outputKey)
+}
+
+/**
+ * Tweaks a private key so that it signs for the output key returned by
+ * tweakPublicKey.
+ */
+export const tweakPrivateKey = (privateKey: Buffer): Buffer => {
+  const pubkey = privateKeyToPubkey(privateKey)
+  const evenPrivateKey = hasEvenY(pubkey)
+    ? privateKey
+    : negatePrivateKey(privateKey)
+  const tweak = taggedHash('TapTweak', toXOnly(pubkey))
+  const tweakedKey = ecc.privateAdd(evenPrivateKey, tweak)
+  if (tweakedKey == null) throw new Error('Invalid taproot tweak')
+  return tweakedKey
+}
+
+/**
+ * Signs a hash for an x-only public key. The nonce mixes in fresh random
+ * data unless the caller passes its own, as BIP340 recommends.
+ */
+export const signSchnorr = (
+  hash: Buffer,
+  privateKey: Buffer,
+  auxRand: Buffer = Buffer.from(secp.utils.randomBytes(32))
+): Buffer => Buffer.from(secp.schnorr.signSync(hash, privateKey, auxRand))
+
+/**
+ * Checks a signature against an x-only public key.
+ */
+export const verifySchnorr = (
+  signature: Buffer,
+  hash: Buffer,
+  pubkey: Buffer
+): boolean => secp.schnorr.verifySync(signature, hash, pubkey)
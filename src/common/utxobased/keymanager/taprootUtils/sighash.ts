@@ -0,0 +1,82 @@
+import * as bitcoin from 'altcoin-js'
+import { Buffer } from 'buffer'
+
+import { taggedHash } from './schnorr'
+
+/*
+Signature hash for taproot key-path spends using SIGHASH_DEFAULT.
+Reference: https://github.com/bitcoin/bips/blob/master/bip-0341.mediawiki#common-signature-message
+*/
+
+export interface TaprootPrevout {
+  script: Buffer
+  value: number
+}
+
+export const SIGHASH_DEFAULT = 0x00
+
+const uint32 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32LE(value, 0)
+  return buffer
+}
+
+const uint64 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(8)
+  buffer.writeUInt32LE(value % 0x100000000, 0)
+  buffer.writeUInt32LE(Math.floor(value / 0x100000000), 4)
+  return buffer
+}
+
+const varSlice = (slice: Buffer): Buffer => {
+  const { length } = slice
+  if (length < 0xfd) return Buffer.concat([Buffer.from([length]), slice])
+  if (length <= 0xffff) {
+    const size = Buffer.alloc(3)
+    size.writeUInt8(0xfd, 0)
+    size.writeUInt16LE(length, 1)
+    return Buffer.concat([size, slice])
+  }
+  const size = Buffer.alloc(5)
+  size.writeUInt8(0xfe, 0)
+  size.writeUInt32LE(length, 1)
+  return Buffer.concat([size, slice])
+}
+
+const sha256Concat = (buffers: Buffer[]): Buffer =>
+  bitcoin.crypto.sha256(Buffer.concat(buffers))
+
+/**
+ * Computes the key-path signature hash for an input. Unlike segwit v0, the
+ * hash commits to the amounts and scripts of every input being spent.
+ */
+export const taprootKeyPathSighash = (
+  tx: bitcoin.Transaction,
+  inputIndex: number,
+  prevouts: TaprootPrevout[]
+): Buffer => {
+  if (prevouts.length !== tx.ins.length) {
+    throw new Error('Missing prevouts for taproot signature hash')
+  }
+
+  const message = Buffer.concat([
+    Buffer.from([0x00, SIGHASH_DEFAULT]), // epoch and hash type
+    uint32(tx.version),
+    uint32(tx.locktime),
+    sha256Concat(
+      tx.ins.map(({ hash, index }) => Buffer.concat([hash, uint32(index)]))
+    ),
+    sha256Concat(prevouts.map(({ value }) => uint64(value))),
+    sha256Concat(prevouts.map(({ script }) => varSlice(script))),
+    sha256Concat(tx.ins.map(({ sequence }) => uint32(sequence))),
+    sha256Concat(
+      tx.outs.map(({ script, value }) =>
+        Buffer.concat([uint64(value), varSlice(script)])
+      )
+    ),
+    Buffer.from([0x00]), // spend type without annex or script path
+    uint32(inputIndex)
+  ])
+
+  return taggedHash('TapSighash', message)
+}
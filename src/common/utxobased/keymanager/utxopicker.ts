@@ -1,4 +1,5 @@
 import { accumulative } from './utxopicker/accumulative'
+import { branchAndBound } from './utxopicker/branchAndBound'
 import { forceUseUtxo } from './utxopicker/forceUseUtxo'
 import { subtractFee } from './utxopicker/subtractFee'
 import { UtxoPickingFunc } from './utxopicker/types'
@@ -8,6 +9,8 @@ export interface UtxoPicker {
   forceUseUtxo: UtxoPickingFunc
   subtractFee: UtxoPickingFunc
   accumulative: UtxoPickingFunc
+  // Preferred over accumulative when present
+  branchAndBound?: UtxoPickingFunc
 }
 
 export const utxoPicker: UtxoPicker = {
@@ -15,3 +18,9 @@ export const utxoPicker: UtxoPicker = {
   subtractFee,
   accumulative
 }
+
+// Coins can opt in to changeless transactions with this picker
+export const branchAndBoundUtxoPicker: UtxoPicker = {
+  ...utxoPicker,
+  branchAndBound
+}
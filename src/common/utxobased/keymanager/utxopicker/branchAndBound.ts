@@ -0,0 +1,139 @@
+import { accumulative } from './accumulative'
+import { Output, UTXO, UtxoPickerArgs, UtxoPickerResult } from './types'
+import * as utils from './utils'
+// search for an input set which pays the targets without a change output,
+// like the branch-and-bound coin selection of Bitcoin Core
+// falls back to the accumulative strategy when no such set exists
+// worst-case: O(2^n), bounded by MAX_TRIES
+
+/*
+Reference: https://github.com/bitcoin/bitcoin/blob/master/src/wallet/coinselection.cpp
+*/
+
+const MAX_TRIES = 100000
+
+interface Candidate {
+  utxo: UTXO
+  effectiveValue: number
+}
+
+export function branchAndBound(args: UtxoPickerArgs): UtxoPickerResult {
+  const { utxos, targets, feeRate, changeScript } = args
+
+  if (!isFinite(utils.uintOrNaN(feeRate))) {
+    throw new Error('No rate provided')
+  }
+
+  const fallback = accumulative(args)
+  if (utxos.length === 0) return fallback
+
+  const outputs: Output[] = targets.map(target => ({
+    ...target,
+    script: Buffer.from(target.script, 'hex'),
+    scriptPubkey: Buffer.from(target.script, 'hex')
+  }))
+  const changeOutput: Output = {
+    script: Buffer.from(changeScript, 'hex'),
+    scriptPubkey: Buffer.from(changeScript, 'hex'),
+    value: 0
+  }
+
+  // Creating change costs its output now and its input when spent later,
+  // assumed to be like the first UTXO and paid at the same fee rate
+  const costOfChange =
+    feeRate * (utils.outputBytes(changeOutput) + utils.inputBytes(utxos[0]))
+  const selectionTarget =
+    utils.sumOrNaN(targets) + feeRate * utils.transactionBytes([], outputs)
+
+  // Inputs which cost more to spend than they are worth never help
+  const candidates: Candidate[] = utxos
+    .map(utxo => ({
+      utxo,
+      effectiveValue: utxo.value - feeRate * utils.inputBytes(utxo)
+    }))
+    .filter(({ effectiveValue }) => effectiveValue > 0)
+    .sort((a, b) => b.effectiveValue - a.effectiveValue)
+
+  const selection = search(candidates, selectionTarget, costOfChange)
+  if (selection == null) return fallback
+
+  const inputs = selection.map(({ utxo }) => utxo)
+  const fee = utils.sumOrNaN(inputs) - utils.sumOrNaN(outputs)
+  // The search estimates the size per input, so check the whole transaction
+  if (fee < Math.ceil(feeRate * utils.transactionBytes(inputs, outputs))) {
+    return fallback
+  }
+
+  // Without a long-term fee rate, the waste metric comes down to the value
+  // lost to the fee for a changeless transaction, or the cost of change
+  const waste = fee - feeRate * utils.transactionBytes(inputs, outputs)
+  if (fallback.inputs != null && fallback.outputs != null) {
+    const fallbackWaste = fallback.changeUsed
+      ? costOfChange
+      : fallback.fee -
+        feeRate * utils.transactionBytes(fallback.inputs, fallback.outputs)
+    if (fallbackWaste < waste) return fallback
+  }
+
+  return { inputs, outputs, changeUsed: false, fee }
+}
+
+/**
+ * Depth-first search over including or excluding each candidate, largest
+ * first, for the selection with the least excess between the target and the
+ * target plus the cost of change.
+ */
+const search = (
+  candidates: Candidate[],
+  target: number,
+  costOfChange: number
+): Candidate[] | undefined => {
+  const selected: number[] = []
+  let best: number[] | undefined
+  let bestExcess = Infinity
+  let value = 0
+  let available = candidates.reduce((sum, c) => sum + c.effectiveValue, 0)
+
+  for (let tries = 0, index = 0; tries < MAX_TRIES; tries++, index++) {
+    let backtrack = false
+    if (value + available < target || value > target + costOfChange) {
+      // Cannot reach the target, or overshoots it by more than change costs
+      backtrack = true
+    } else if (value >= target) {
+      if (value - target < bestExcess) {
+        best = [...selected]
+        bestExcess = value - target
+        if (bestExcess === 0) break
+      }
+      backtrack = true
+    }
+
+    if (backtrack) {
+      const last = selected.pop()
+      // The whole tree has been explored
+      if (last == null) break
+      // Put back the candidates after the last included one
+      for (index--; index > last; index--) {
+        available += candidates[index].effectiveValue
+      }
+      // Then try the branch excluding it
+      value -= candidates[last].effectiveValue
+    } else {
+      const candidate = candidates[index]
+      available -= candidate.effectiveValue
+      // Skip including a candidate equal to a previously excluded one,
+      // because that branch was already explored
+      const previous = candidates[index - 1]
+      if (
+        selected.length === 0 ||
+        selected[selected.length - 1] === index - 1 ||
+        candidate.effectiveValue !== previous.effectiveValue
+      ) {
+        selected.push(index)
+        value += candidate.effectiveValue
+      }
+    }
+  }
+
+  return best?.map(index => candidates[index])
+}
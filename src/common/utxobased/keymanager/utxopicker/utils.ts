@@ -1,5 +1,7 @@
 /* eslint-disable no-fallthrough */
 /* eslint-disable no-duplicate-case */
+import * as bitcoin from 'altcoin-js'
+
 import { ScriptTypeEnum } from '../keymanager'
 import { Input, Output, UTXO, UtxoPickerResult } from './types'
 
@@ -10,8 +12,10 @@ Reference: https://bitcoinops.org/en/tools/calc-size/
 const WITNESS_SCALE = 4
 const OP_CODE_SIZE = 1
 const SIGNATURE_SIZE = 72
+const SCHNORR_SIGNATURE_SIZE = 64
 const PUB_KEY_SIZE = 33
 const P2SH_SCRIPT_HASH_SIZE = 22
+const P2WSH_SCRIPT_HASH_SIZE = 34
 const OUTPOINT_SIZE = 36
 const N_SEQUENCE_SIZE = 4
 
@@ -35,21 +39,50 @@ const scriptSizeMap = ((): { [scriptType: string]: number } => {
   const p2shOverhead = withCompactSize(P2SH_SCRIPT_HASH_SIZE)
   // <p2wpkh> <p2sh>
   const p2wpkhp2sh = p2wpkh + p2shOverhead
+  // VarInt (empty) <witness count> <schnorr signature> (taproot key-path)
+  const p2tr =
+    compactSize(0) +
+    (compactSize(1) + withCompactSize(SCHNORR_SIGNATURE_SIZE)) / WITNESS_SCALE
   // (fixed size)
   const replayProtection = 284
 
-  // TOOD: support other p2sh (e.g. 2-3 multisig) and other p2wsh (taproot/lightning)
+  // TOOD: support other p2sh and other p2wsh (lightning)
   return {
     p2pkh: p2pkh,
     p2wpkh: p2wpkh,
     p2wpkhp2sh: p2wpkhp2sh,
+    p2tr: p2tr,
     replayprotection: replayProtection,
     replayprotectionp2sh: 284
   }
 })()
 
+// Multisig sizes depend on the m-of-n script found in the input
+const multisigScriptSize = (input: UTXO): number | undefined => {
+  if (input.witnessScript == null) return undefined
+  const { m = 0 } = bitcoin.payments.p2ms({ output: input.witnessScript })
+  // <witness count> OP_0 <m signatures> <witness script>
+  const witness =
+    compactSize(m + 2) +
+    OP_CODE_SIZE +
+    m * withCompactSize(SIGNATURE_SIZE) +
+    withCompactSize(input.witnessScript.length)
+  // VarInt (empty)
+  const p2wsh = compactSize(0) + witness / WITNESS_SCALE
+  switch (input.scriptType) {
+    case ScriptTypeEnum.p2wsh:
+      return p2wsh
+    case ScriptTypeEnum.p2wshp2sh:
+      // <p2wsh> VarInt OP_PUSH <script hash>
+      return p2wsh + withCompactSize(OP_CODE_SIZE + P2WSH_SCRIPT_HASH_SIZE)
+    default:
+      return undefined
+  }
+}
+
 export function inputBytes(input: UTXO): number {
-  const scriptSigSize = scriptSizeMap[input.scriptType]
+  const scriptSigSize =
+    scriptSizeMap[input.scriptType] ?? multisigScriptSize(input)
 
   if (scriptSigSize == null)
     throw new Error(`${input.scriptType} script type not supported, yet`)
@@ -80,7 +113,9 @@ function witnessCount(inputs: UTXO[]): number {
   return inputs.reduce((sum, input) => {
     if (
       input.scriptType === ScriptTypeEnum.p2wsh ||
+      input.scriptType === ScriptTypeEnum.p2wshp2sh ||
       input.scriptType === ScriptTypeEnum.p2wpkhp2sh ||
+      input.scriptType === ScriptTypeEnum.p2tr ||
       input.scriptType === ScriptTypeEnum.p2wpkh
     ) {
       sum++
@@ -0,0 +1,851 @@
+import * as bitcoin from 'altcoin-js'
+import { add, sub } from 'biggystring'
+import { asNumber, asObject, asOptional, asString, uncleaner } from 'cleaners'
+import {
+  EdgeFetchFunction,
+  EdgeFetchResponse,
+  EdgeTransaction
+} from 'edge-core-js/types'
+import { parse } from 'uri-js'
+
+import { EngineEvent } from '../../plugin/makeEngineEmitter'
+import { descriptorChecksum } from '../keymanager/descriptors'
+import {
+  asBitcoinCoreBlockchainInfoResponse,
+  asBitcoinCoreBlockHeaderResponse,
+  asBitcoinCoreDeriveAddressesResponse,
+  asBitcoinCoreDescriptorsResponse,
+  asBitcoinCoreImportResponse,
+  asBitcoinCoreResponse,
+  asBitcoinCoreSinceBlockResponse,
+  asBitcoinCoreTransactionResponse,
+  asBitcoinCoreUnspentResponse,
+  asBitcoinCoreWalletTransactionResponse,
+  BitcoinCoreResponse,
+  BitcoinCoreTransactionResponse,
+  RPC_INVALID_ADDRESS_OR_KEY,
+  RPC_WALLET_ALREADY_LOADED,
+  RPC_WALLET_NOT_FOUND
+} from './BitcoinCoreAPI'
+import { BlockBook, BlockBookConfig } from './BlockBook'
+import {
+  addressMessage,
+  AddressResponse,
+  AddresssMessageParams,
+  addressUtxosMessage,
+  AddressUtxosResponse,
+  asSubscribeAddressResponse,
+  BlockbookAccountUtxo,
+  BlockbookTransaction,
+  broadcastTxMessage,
+  BroadcastTxResponse,
+  infoMessage,
+  InfoResponse,
+  missingTransactionResponse,
+  transactionMessage,
+  TransactionResponse
+} from './BlockBookAPI'
+import Deferred from './Deferred'
+import { SocketEvent } from './MakeSocketEmitter'
+import { makeTaskRunner } from './taskRunner'
+
+const POLL_MS = 30000 // interval at which we poll for blocks and transactions
+const QUEUE_SIZE = 4
+const CACHE_SIZE = 5000
+// The addresses of each chain of the wallet's descriptors which the node
+// derives at first, and by which the range grows for addresses past it
+const DESCRIPTOR_RANGE = 1000
+
+export interface BitcoinCoreConfig extends BlockBookConfig {
+  fetch: EdgeFetchFunction
+  // The user:password of the node's RPC interface, as it was in the URI
+  credentials?: string
+  // The wallet's accounts, with both their receive and change chains
+  descriptors: string[]
+  // The height before which the wallet has no history, or 0 if unknown
+  getBirthdayHeight: () => Promise<number>
+}
+
+// The params of the Blockbook messages which are translated
+const asDescriptorParams = asObject({ descriptor: asString })
+const asAccountInfoParams = asObject({
+  descriptor: asString,
+  details: asOptional(asString, 'basic'),
+  page: asOptional(asNumber, 1),
+  pageSize: asOptional(asNumber, 100),
+  from: asOptional(asNumber, 0)
+})
+const asTxidParams = asObject({ txid: asString })
+const asHexParams = asObject({ hex: asString })
+
+// A transaction as the node gave it, with its height if it is confirmed
+interface NodeTransaction {
+  tx: BitcoinCoreTransactionResponse
+  height?: number
+}
+
+// Where the node rescans the chain from for imports
+interface RescanStart {
+  timestamp: number | 'now'
+  // The block the wallet's history is listed after, or '' for all of it
+  blockHash: string
+}
+
+// The node gives amounts in whole coins
+const toSats = (amount: number): string => String(Math.round(amount * 1e8))
+
+// Splits a descriptor of both the receive and change chains into one for
+// each, since only Bitcoin Core 26 and later import multipath descriptors
+const toChainDescriptors = (descriptor: string): string[] => {
+  const [body] = descriptor.split('#')
+  return ['0', '1'].map(chain => {
+    const desc = body.split('/<0;1>/').join(`/${chain}/`)
+    return `${desc}#${descriptorChecksum(desc)}`
+  })
+}
+
+const withoutChecksum = (descriptor: string): string => descriptor.split('#')[0]
+
+const addToCache = <K, V>(cache: Map<K, V>, key: K, value: V): void => {
+  cache.set(key, value)
+  if (cache.size > CACHE_SIZE) {
+    const [oldestKey] = cache.keys()
+    cache.delete(oldestKey)
+  }
+}
+
+/**
+ * Whether a server is a Bitcoin Core node, given as bitcoind://host:port, or
+ * bitcoinds:// for one behind TLS. The user:password the user gives in the
+ * URI comes separately.
+ */
+export const isBitcoinCoreUri = (uri: string): boolean =>
+  /^bitcoinds?:\/\//.test(uri)
+
+/**
+ * Syncs from the user's own Bitcoin Core node, or a compatible altcoin
+ * daemon, through its JSON-RPC interface, which needs Bitcoin Core 25 or
+ * later. The addresses of the wallet are imported into a watch-only
+ * descriptor wallet on the node, which Blockbook tasks are answered from in
+ * Blockbook's format, and new blocks and transactions are found by polling.
+ * The wallet's descriptors are imported once, so the node rescans the chain
+ * from the wallet's birthday only once. Wallets which never synced have no
+ * birthday, so their imports only find transactions from then on.
+ */
+export function makeBitcoinCore(config: BitcoinCoreConfig): BlockBook {
+  const {
+    wsAddress,
+    socketEmitter,
+    engineEmitter,
+    log,
+    walletId,
+    fetch,
+    credentials = '',
+    getBirthdayHeight,
+    asAddress = asString
+  } = config
+  log(`makeBitcoinCore with uri ${wsAddress}`)
+  const wasAddress = uncleaner(asAddress)
+  const { scheme, host = '', port } = parse(wsAddress)
+  const origin = port != null ? `${host}:${port}` : host
+  const rpcUri = `${scheme === 'bitcoinds' ? 'https' : 'http'}://${origin}`
+  const authorization = `Basic ${Buffer.from(
+    decodeURIComponent(credentials)
+  ).toString('base64')}`
+  const chainDescriptors: string[] = []
+  for (const descriptor of config.descriptors) {
+    chainDescriptors.push(...toChainDescriptors(descriptor))
+  }
+  // Each wallet has a wallet of its own on the node
+  const walletName = `edge-${bitcoin.crypto
+    .sha256(Buffer.from(walletId))
+    .toString('hex')
+    .slice(0, 16)}`
+
+  let connected = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let requestId = 0
+  let bestHeight = 0
+  let lastBlockHash = ''
+  let watchingBlocks = false
+  // The addresses are in the form the node and Blockbook use
+  const watchedAddresses = new Set<string>()
+  // The addresses the node's wallet has, whether by a descriptor of the
+  // wallet's or on their own
+  const importedAddresses = new Set<string>()
+  // The number of addresses the node derives from each descriptor
+  const descriptorRanges = new Map<string, number>()
+  const pendingImports = new Set<string>()
+  let importing: Promise<void> = Promise.resolve()
+  // The txids of each of the wallet's addresses, newest first, as listed up
+  // to the block of the history cursor
+  const walletHistory = new Map<string, string[]>()
+  const historyTxids = new Set<string>()
+  let historyCursor = ''
+  // Nothing while the history needs listing again
+  let historySynced: Promise<void> | undefined
+  let historySyncing: Promise<void> = Promise.resolve()
+  // The wallet transactions seen by the last poll, by txid and block hash
+  let seenTransactions = new Set<string>()
+  const confirmedTransactions = new Map<string, NodeTransaction>()
+
+  const taskRunner = makeTaskRunner({
+    uri: wsAddress,
+    walletId,
+    log,
+    queueSize: QUEUE_SIZE,
+    isConnected: () => connected,
+    onQueueSpaceCB: config.onQueueSpaceCB,
+    translateTask
+  })
+  const { wakeUp, promisifyTask } = taskRunner
+
+  const instance: BlockBook = {
+    get isConnected(): boolean {
+      return connected
+    },
+    connect,
+    disconnect,
+    onQueueSpace: taskRunner.onQueueSpace,
+    fetchInfo,
+    fetchAddress,
+    watchAddresses,
+    watchBlocks,
+    fetchAddressUtxos,
+    fetchTransaction,
+    broadcastTx
+  }
+
+  // ---------------------------------------------------------------------
+  // Connection
+  // ---------------------------------------------------------------------
+
+  async function connect(): Promise<void> {
+    log(`connecting to bitcoin core node with uri ${wsAddress}`)
+    if (connected) return
+
+    try {
+      const info = asBitcoinCoreBlockchainInfoResponse(
+        await rpc('getblockchaininfo')
+      )
+      bestHeight = info.blocks
+      lastBlockHash = info.bestblockhash
+      await loadWallet()
+    } catch (e) {
+      socketEmitter.emit(SocketEvent.CONNECTION_CLOSE, wsAddress, e)
+      throw e
+    }
+    connected = true
+    socketEmitter.emit(SocketEvent.CONNECTION_OPEN, wsAddress)
+    setupTimer()
+    wakeUp()
+  }
+
+  async function disconnect(): Promise<void> {
+    log(
+      `disconnecting from bitcoin core node with uri ${wsAddress}, currently connected: ${connected}`
+    )
+    stop()
+  }
+
+  const stop = (): void => {
+    if (timer != null) clearTimeout(timer)
+    taskRunner.stop()
+    connected = false
+    watchingBlocks = false
+    watchedAddresses.clear()
+    historySynced = undefined
+  }
+
+  // Requests failing to reach the node close the connection, the same as a
+  // socket error
+  const handleError = (e: Error): void => {
+    log.error('handled error!', e)
+    if (!connected) return
+    log.warn(`closing due to ${e.message} with node ${wsAddress}`)
+    stop()
+    socketEmitter.emit(SocketEvent.CONNECTION_CLOSE, wsAddress, e)
+  }
+
+  const request = async (
+    method: string,
+    params: unknown[] = [],
+    onWallet: boolean = false
+  ): Promise<BitcoinCoreResponse> => {
+    const uri = onWallet ? `${rpcUri}/wallet/${walletName}` : rpcUri
+    let response: EdgeFetchResponse
+    try {
+      response = await fetch(uri, {
+        method: 'POST',
+        headers: {
+          Authorization: authorization,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          jsonrpc: '1.0',
+          id: ++requestId,
+          method,
+          params
+        })
+      })
+    } catch (e) {
+      handleError(e)
+      throw e
+    }
+    // Errors come with an error status, but still have a JSON body, unless
+    // the credentials are wrong
+    const text = await response.text()
+    try {
+      return asBitcoinCoreResponse(JSON.parse(text))
+    } catch (e) {
+      const error = new Error(
+        `Bitcoin Core ${method} failed with status ${response.status}`
+      )
+      handleError(error)
+      throw error
+    }
+  }
+
+  const rpc = async (
+    method: string,
+    params: unknown[] = [],
+    onWallet: boolean = false
+  ): Promise<unknown> => {
+    const { result, error } = await request(method, params, onWallet)
+    if (error != null) throw new Error(error.message)
+    return result
+  }
+
+  const loadWallet = async (): Promise<void> => {
+    const { error } = await request('loadwallet', [walletName])
+    if (error != null && error.code === RPC_WALLET_NOT_FOUND) {
+      // A blank watch-only descriptor wallet, for the addresses of the wallet
+      await rpc('createwallet', [walletName, true, true, '', false, true])
+    } else if (error != null && error.code !== RPC_WALLET_ALREADY_LOADED) {
+      throw new Error(error.message)
+    }
+
+    // Descriptors and addresses imported in earlier sessions don't need
+    // another rescan
+    const { descriptors } = asBitcoinCoreDescriptorsResponse(
+      await rpc('listdescriptors', [], true)
+    )
+    for (const { desc, range } of descriptors) {
+      const [, address] = /^addr\(([^)]+)\)/.exec(desc) ?? []
+      if (address != null) {
+        importedAddresses.add(address)
+      } else if (range != null) {
+        descriptorRanges.set(withoutChecksum(desc), range[1] + 1)
+        for (const address of await deriveAddresses(desc, range)) {
+          importedAddresses.add(address)
+        }
+      }
+    }
+  }
+
+  const deriveAddresses = async (
+    desc: string,
+    range: number[]
+  ): Promise<string[]> =>
+    asBitcoinCoreDeriveAddressesResponse(
+      await rpc('deriveaddresses', [desc, range])
+    )
+
+  // ---------------------------------------------------------------------
+  // Polling
+  // ---------------------------------------------------------------------
+
+  const setupTimer = (): void => {
+    const onDone = (): void => {
+      if (connected) setupTimer()
+    }
+    timer = setTimeout(() => {
+      poll().then(onDone, e => {
+        log.error(`bitcoin core poll error: ${e.message}`)
+        onDone()
+      })
+    }, POLL_MS)
+  }
+
+  const poll = async (): Promise<void> => {
+    const startTime = Date.now()
+    const height = asNumber(await rpc('getblockcount'))
+    socketEmitter.emit(SocketEvent.CONNECTION_TIMER, wsAddress, startTime)
+    if (height !== bestHeight) {
+      bestHeight = height
+      if (watchingBlocks) {
+        engineEmitter.emit(EngineEvent.BLOCK_HEIGHT_CHANGED, wsAddress, height)
+      }
+    }
+
+    await pollWallet()
+    wakeUp()
+  }
+
+  // Tells the engine about the wallet's new and newly confirmed transactions,
+  // the same as Blockbook address notifications
+  const pollWallet = async (): Promise<void> => {
+    const { transactions, lastblock } = asBitcoinCoreSinceBlockResponse(
+      await rpc('listsinceblock', [lastBlockHash, 1, true], true)
+    )
+    const seen = new Set<string>()
+    for (const { txid, blockhash = '' } of transactions) {
+      const key = `${txid}:${blockhash}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      if (seenTransactions.has(key)) continue
+
+      historySynced = undefined
+      const tx = await getTransaction(txid)
+      for (const address of getTransactionAddresses(tx)) {
+        if (!watchedAddresses.has(address)) continue
+        engineEmitter.emit(
+          EngineEvent.NEW_ADDRESS_TRANSACTION,
+          wsAddress,
+          asSubscribeAddressResponse(asAddress)({ address, tx })
+        )
+      }
+    }
+    seenTransactions = seen
+    lastBlockHash = lastblock
+  }
+
+  function watchBlocks(deferredBlockSub: Deferred<unknown>): void {
+    watchingBlocks = true
+    deferredBlockSub.resolve({ subscribed: true })
+  }
+
+  function watchAddresses(
+    addresses: string[],
+    deferredAddressSub: Deferred<unknown>
+  ): void {
+    const nodeAddresses = addresses.map(wasAddress)
+    for (const address of nodeAddresses) watchedAddresses.add(address)
+    importAddresses(nodeAddresses).then(
+      () => deferredAddressSub.resolve({ subscribed: true }),
+      e => deferredAddressSub.reject(e)
+    )
+  }
+
+  // ---------------------------------------------------------------------
+  // Watch-only Wallet
+  // ---------------------------------------------------------------------
+
+  // Imports addresses into the node's wallet, along with the wallet's
+  // descriptors the first time. Addresses asked for during an import are
+  // imported together afterwards, to rescan for them at once.
+  const importAddresses = async (addresses: string[]): Promise<void> => {
+    const missing = addresses.filter(address => !importedAddresses.has(address))
+    if (missing.length === 0) return
+
+    for (const address of missing) pendingImports.add(address)
+    importing = importing.then(doImport, doImport)
+    await importing
+    const failed = missing.find(address => !importedAddresses.has(address))
+    if (failed != null) throw new Error(`Failed to import ${failed}`)
+  }
+
+  const doImport = async (): Promise<void> => {
+    const pending = Array.from(pendingImports)
+    pendingImports.clear()
+
+    // The wallet's descriptors cover its addresses up to their range, which
+    // grows a batch at a time for the addresses past it. Addresses of none
+    // of the descriptors are imported on their own.
+    const uncovered = new Set(
+      pending.filter(address => !importedAddresses.has(address))
+    )
+    const imports: Array<{
+      desc: string
+      range?: number[]
+      addresses: string[]
+    }> = []
+    for (const desc of chainDescriptors) {
+      const importedRange = descriptorRanges.get(withoutChecksum(desc)) ?? 0
+      let end = importedRange
+      const addresses: string[] = []
+      while (end === 0 || uncovered.size > 0) {
+        // Nodes of older versions, or of altcoins, lack some script types
+        const batch = await deriveAddresses(desc, [
+          end,
+          end + DESCRIPTOR_RANGE - 1
+        ]).catch(e => {
+          log.warn(`failed to derive ${desc}: ${e.message}`)
+          return undefined
+        })
+        if (batch == null) break
+        if (end > 0 && !batch.some(address => uncovered.has(address))) break
+        end += DESCRIPTOR_RANGE
+        for (const address of batch) {
+          addresses.push(address)
+          uncovered.delete(address)
+        }
+      }
+      if (end > importedRange) {
+        imports.push({ desc, range: [0, end - 1], addresses })
+      }
+    }
+    for (const address of uncovered) {
+      const desc = `addr(${address})`
+      imports.push({
+        desc: `${desc}#${descriptorChecksum(desc)}`,
+        addresses: [address]
+      })
+    }
+    if (imports.length === 0) return
+
+    log(`importing ${imports.length} descriptors into ${walletName}`)
+    const { timestamp, blockHash } = await getRescanStart()
+    const requests = imports.map(({ desc, range }) => ({
+      desc,
+      range,
+      timestamp
+    }))
+    const results = asBitcoinCoreImportResponse(
+      await rpc('importdescriptors', [requests], true)
+    )
+    results.forEach((result, i) => {
+      const { desc, range, addresses } = imports[i]
+      if (!result.success) {
+        log.warn(`failed to import ${desc}: ${result.error?.message}`)
+        return
+      }
+      if (range != null) {
+        descriptorRanges.set(withoutChecksum(desc), range[1] + 1)
+      }
+      for (const address of addresses) importedAddresses.add(address)
+    })
+    // The rescan finds transactions in blocks the history was listed past
+    historyCursor = blockHash
+    historySynced = undefined
+  }
+
+  // The block before the wallet's history starts, after which the node
+  // rescans the chain for imports. Wallets with history from an unknown time
+  // only have the blocks from now on scanned.
+  const getRescanStart = async (): Promise<RescanStart> => {
+    const height = Math.min(await getBirthdayHeight(), bestHeight) - 1
+    if (height < 0) return { timestamp: 'now', blockHash: '' }
+    const blockHash = asString(await rpc('getblockhash', [height]))
+    const { time } = asBitcoinCoreBlockHeaderResponse(
+      await rpc('getblockheader', [blockHash])
+    )
+    return { timestamp: time, blockHash }
+  }
+
+  // Adds the transactions in the blocks after the history cursor, and those
+  // in the mempool, to the wallet's history
+  const syncWalletHistory = async (): Promise<void> => {
+    const cursor = historyCursor
+    const { transactions, lastblock } = asBitcoinCoreSinceBlockResponse(
+      await rpc('listsinceblock', [cursor, 1, true], true)
+    )
+
+    // Transactions have an entry for each of the wallet's inputs and outputs
+    const newTxs = new Map<string, BlockbookTransaction>()
+    for (const { txid } of transactions) {
+      if (historyTxids.has(txid) || newTxs.has(txid)) continue
+      newTxs.set(txid, await getTransaction(txid))
+    }
+
+    // Oldest first, so the newest ends up at the front
+    const toHeight = (tx: BlockbookTransaction): number =>
+      tx.blockHeight > 0 ? tx.blockHeight : Number.MAX_SAFE_INTEGER
+    const sortedTxs = Array.from(newTxs.values()).sort(
+      (a, b) => toHeight(a) - toHeight(b)
+    )
+    for (const tx of sortedTxs) {
+      historyTxids.add(tx.txid)
+      for (const address of getTransactionAddresses(tx)) {
+        const txids = walletHistory.get(address) ?? []
+        txids.unshift(tx.txid)
+        walletHistory.set(address, txids)
+      }
+    }
+    // Imports during the listing moved the cursor back for their rescans
+    if (historyCursor === cursor) historyCursor = lastblock
+  }
+
+  const getWalletHistory = async (): Promise<Map<string, string[]>> => {
+    if (historySynced == null) {
+      historySyncing = historySyncing.then(syncWalletHistory, syncWalletHistory)
+      const synced = historySyncing
+      historySynced = synced
+      synced.catch(() => {
+        if (historySynced === synced) historySynced = undefined
+      })
+    }
+    await historySynced
+    return walletHistory
+  }
+
+  // ---------------------------------------------------------------------
+  // Tasks
+  // ---------------------------------------------------------------------
+
+  // Answers a Blockbook message with RPC requests
+  async function translateTask(
+    method: string,
+    params: unknown
+  ): Promise<unknown> {
+    switch (method) {
+      case 'ping':
+        await rpc('getblockcount')
+        return {}
+      case 'getInfo':
+        return await getInfo()
+      case 'getAccountInfo':
+        return await getAccountInfo(asAccountInfoParams(params))
+      case 'getAccountUtxo':
+        return await getAccountUtxo(asDescriptorParams(params).descriptor)
+      case 'getTransaction': {
+        const { txid } = asTxidParams(params)
+        const nodeTransaction = await findNodeTransaction(txid)
+        if (nodeTransaction == null) return missingTransactionResponse(txid)
+        return toBlockbookTransaction(nodeTransaction)
+      }
+      case 'getTransactionSpecific':
+        return (await getNodeTransaction(asTxidParams(params).txid)).tx
+      case 'sendTransaction': {
+        const result = await rpc('sendrawtransaction', [
+          asHexParams(params).hex
+        ])
+        historySynced = undefined
+        return { result }
+      }
+      default:
+        throw new Error(`Unsupported Bitcoin Core message ${method}`)
+    }
+  }
+
+  const getInfo = async (): Promise<unknown> => {
+    const info = asBitcoinCoreBlockchainInfoResponse(
+      await rpc('getblockchaininfo')
+    )
+    bestHeight = info.blocks
+    return {
+      name: 'Bitcoin Core',
+      shortcut: '',
+      decimals: 8,
+      version: '',
+      bestHeight,
+      bestHash: info.bestblockhash,
+      block0Hash: '',
+      testnet: info.chain !== 'main'
+    }
+  }
+
+  const getAccountInfo = async (
+    params: ReturnType<typeof asAccountInfoParams>
+  ): Promise<unknown> => {
+    const { descriptor: address, details, page, pageSize, from } = params
+    await importAddresses([address])
+
+    // The node only knows the history of its whole wallet
+    const txids = (await getWalletHistory()).get(address) ?? []
+    const history: BlockbookTransaction[] = []
+    for (const txid of txids) history.push(await getTransaction(txid))
+
+    let balance = '0'
+    let totalReceived = '0'
+    let totalSent = '0'
+    let unconfirmedBalance = '0'
+    let txs = 0
+    let unconfirmedTxs = 0
+    for (const tx of history) {
+      const received = sumValues(tx.vout, address)
+      const sent = sumValues(tx.vin, address)
+      if (tx.blockHeight > 0) {
+        balance = add(balance, sub(received, sent))
+        totalReceived = add(totalReceived, received)
+        totalSent = add(totalSent, sent)
+        txs++
+      } else {
+        unconfirmedBalance = add(unconfirmedBalance, sub(received, sent))
+        unconfirmedTxs++
+      }
+    }
+
+    // Only transactions from a height on, and those in the mempool
+    const items = history.filter(
+      tx => tx.blockHeight <= 0 || tx.blockHeight >= from
+    )
+    const pageItems = items.slice((page - 1) * pageSize, page * pageSize)
+    return {
+      address,
+      balance,
+      totalReceived,
+      totalSent,
+      txs,
+      unconfirmedBalance,
+      unconfirmedTxs,
+      txids: pageItems.map(tx => tx.txid),
+      transactions: details === 'txs' ? pageItems : [],
+      page,
+      totalPages: Math.ceil(items.length / pageSize),
+      itemsOnPage: pageItems.length
+    }
+  }
+
+  const getAccountUtxo = async (
+    address: string
+  ): Promise<BlockbookAccountUtxo[]> => {
+    await importAddresses([address])
+    const utxos = asBitcoinCoreUnspentResponse(
+      await rpc('listunspent', [0, 9999999, [address]], true)
+    )
+    return utxos.map(utxo => {
+      const { confirmations } = utxo
+      return {
+        txid: utxo.txid,
+        vout: utxo.vout,
+        value: toSats(utxo.amount),
+        confirmations,
+        height: confirmations > 0 ? bestHeight - confirmations + 1 : undefined
+      }
+    })
+  }
+
+  const getTransaction = async (txid: string): Promise<BlockbookTransaction> =>
+    toBlockbookTransaction(await getNodeTransaction(txid))
+
+  const getNodeTransaction = async (txid: string): Promise<NodeTransaction> => {
+    const nodeTransaction = await findNodeTransaction(txid)
+    if (nodeTransaction == null)
+      throw new Error(`Transaction ${txid} not found`)
+    return nodeTransaction
+  }
+
+  // Finds nothing for transactions which neither the node's mempool nor its
+  // blocks contain, such as after the mempool dropped them
+  const findNodeTransaction = async (
+    txid: string
+  ): Promise<NodeTransaction | undefined> => {
+    const cached = confirmedTransactions.get(txid)
+    if (cached != null) return cached
+
+    // Without a transaction index, the node only finds confirmed
+    // transactions by the block they are in, which its wallet knows
+    let blockhash: string | undefined
+    let height: number | undefined
+    const walletResponse = await request('gettransaction', [txid, true], true)
+    if (walletResponse.error == null) {
+      const walletTx = asBitcoinCoreWalletTransactionResponse(
+        walletResponse.result
+      )
+      blockhash = walletTx.blockhash
+      height = walletTx.blockheight
+    } else if (walletResponse.error.code !== RPC_INVALID_ADDRESS_OR_KEY) {
+      throw new Error(walletResponse.error.message)
+    }
+
+    const params = blockhash == null ? [txid, 2] : [txid, 2, blockhash]
+    const { result, error } = await request('getrawtransaction', params)
+    if (error != null) {
+      if (error.code === RPC_INVALID_ADDRESS_OR_KEY) return
+      throw new Error(error.message)
+    }
+    const tx = asBitcoinCoreTransactionResponse(result)
+    const { confirmations = 0 } = tx
+    if (height == null && confirmations > 0) {
+      height = bestHeight - confirmations + 1
+    }
+
+    const nodeTransaction = { tx, height }
+    if (height != null) {
+      addToCache(confirmedTransactions, txid, nodeTransaction)
+    }
+    return nodeTransaction
+  }
+
+  // ---------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------
+
+  // The addresses a transaction spends from or pays to
+  const getTransactionAddresses = (tx: BlockbookTransaction): Set<string> => {
+    const addresses = new Set<string>()
+    for (const item of [...tx.vin, ...tx.vout]) {
+      for (const address of item.addresses) addresses.add(address)
+    }
+    return addresses
+  }
+
+  const toAddresses = (address?: string): string[] =>
+    address == null ? [] : [address]
+
+  const sumValues = (
+    items: Array<{ addresses: string[]; value: string }>,
+    address: string
+  ): string =>
+    items
+      .filter(item => item.addresses.includes(address))
+      .reduce((sum, item) => add(sum, item.value), '0')
+
+  const toBlockbookTransaction = (
+    nodeTransaction: NodeTransaction
+  ): BlockbookTransaction => {
+    const { tx, height } = nodeTransaction
+    return {
+      txid: tx.txid,
+      hex: tx.hex,
+      // Blockbook gives mempool transactions a height of -1
+      blockHeight: height ?? -1,
+      confirmations: height != null ? bestHeight - height + 1 : 0,
+      blockTime: tx.blocktime ?? Math.floor(Date.now() / 1000),
+      fees: toSats(tx.fee ?? 0),
+      vin: tx.vin.map((input, n) => {
+        const addresses = toAddresses(input.prevout?.scriptPubKey.address)
+        return {
+          txid: input.txid ?? '',
+          sequence: input.sequence,
+          n,
+          // Blockbook gives coinbase inputs a vout of -1
+          vout: input.vout ?? -1,
+          addresses,
+          isAddress: addresses.length > 0,
+          value: toSats(input.prevout?.value ?? 0)
+        }
+      }),
+      vout: tx.vout.map(output => ({
+        n: output.n,
+        value: toSats(output.value),
+        addresses: toAddresses(output.scriptPubKey.address),
+        hex: output.scriptPubKey.hex
+      }))
+    }
+  }
+
+  // ---------------------------------------------------------------------
+  // Blockbook Messages
+  // ---------------------------------------------------------------------
+
+  async function fetchInfo(): Promise<InfoResponse> {
+    return await promisifyTask(infoMessage())
+  }
+
+  async function fetchAddressUtxos(
+    account: string
+  ): Promise<AddressUtxosResponse> {
+    return await promisifyTask(addressUtxosMessage(account, asAddress))
+  }
+
+  async function fetchTransaction(hash: string): Promise<TransactionResponse> {
+    return await promisifyTask(transactionMessage(hash, asAddress))
+  }
+
+  async function fetchAddress(
+    address: string,
+    params: AddresssMessageParams = {}
+  ): Promise<AddressResponse> {
+    return await promisifyTask(addressMessage(address, asAddress, params))
+  }
+
+  async function broadcastTx(
+    transaction: EdgeTransaction
+  ): Promise<BroadcastTxResponse> {
+    return await promisifyTask(broadcastTxMessage(transaction))
+  }
+
+  return instance
+}
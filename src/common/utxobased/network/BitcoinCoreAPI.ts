@@ -0,0 +1,184 @@
+import {
+  asArray,
+  asBoolean,
+  asNumber,
+  asObject,
+  asOptional,
+  asString,
+  asUnknown
+} from 'cleaners'
+
+/*
+The JSON-RPC interface of Bitcoin Core, and of the altcoin daemons forked from
+it. Addresses are watched by importing them into a watch-only descriptor
+wallet on the node, so no indexer is needed.
+Reference: https://developer.bitcoin.org/reference/rpc/
+*/
+
+// The RPC error codes which are handled
+export const RPC_INVALID_ADDRESS_OR_KEY = -5
+export const RPC_WALLET_NOT_FOUND = -18
+export const RPC_WALLET_ALREADY_LOADED = -35
+
+/**
+ * The response to any request
+ */
+export type BitcoinCoreResponse = ReturnType<typeof asBitcoinCoreResponse>
+export const asBitcoinCoreResponse = asObject({
+  result: asOptional(asUnknown),
+  error: asOptional(
+    asObject({
+      code: asNumber,
+      message: asString
+    })
+  )
+})
+
+export type BitcoinCoreScriptPubkey = ReturnType<
+  typeof asBitcoinCoreScriptPubkey
+>
+export const asBitcoinCoreScriptPubkey = asObject({
+  hex: asString,
+  address: asOptional(asString)
+})
+
+// ---------------------------------------------------------------------
+// Bitcoin Core RPC Response Types
+// ---------------------------------------------------------------------
+
+/**
+ * getblockchaininfo
+ */
+export type BitcoinCoreBlockchainInfoResponse = ReturnType<
+  typeof asBitcoinCoreBlockchainInfoResponse
+>
+export const asBitcoinCoreBlockchainInfoResponse = asObject({
+  chain: asString,
+  blocks: asNumber,
+  bestblockhash: asString
+})
+
+/**
+ * getblockheader
+ */
+export type BitcoinCoreBlockHeaderResponse = ReturnType<
+  typeof asBitcoinCoreBlockHeaderResponse
+>
+export const asBitcoinCoreBlockHeaderResponse = asObject({
+  time: asNumber
+})
+
+/**
+ * getrawtransaction with a verbosity of 2, which includes the fee and the
+ * outputs spent by the inputs
+ */
+export type BitcoinCoreTransactionResponse = ReturnType<
+  typeof asBitcoinCoreTransactionResponse
+>
+export const asBitcoinCoreTransactionResponse = asObject({
+  txid: asString,
+  hex: asString,
+  fee: asOptional(asNumber),
+  vin: asArray(
+    asObject({
+      txid: asOptional(asString),
+      vout: asOptional(asNumber),
+      sequence: asNumber,
+      // Coinbase inputs spend no output
+      prevout: asOptional(
+        asObject({
+          value: asNumber,
+          scriptPubKey: asBitcoinCoreScriptPubkey
+        })
+      )
+    })
+  ),
+  vout: asArray(
+    asObject({
+      value: asNumber,
+      n: asNumber,
+      scriptPubKey: asBitcoinCoreScriptPubkey
+    })
+  ),
+  confirmations: asOptional(asNumber),
+  blocktime: asOptional(asNumber)
+})
+
+/**
+ * gettransaction, for transactions of the wallet
+ */
+export type BitcoinCoreWalletTransactionResponse = ReturnType<
+  typeof asBitcoinCoreWalletTransactionResponse
+>
+export const asBitcoinCoreWalletTransactionResponse = asObject({
+  blockhash: asOptional(asString),
+  blockheight: asOptional(asNumber)
+})
+
+/**
+ * listsinceblock, which gives the wallet's transactions in the mempool and in
+ * the blocks after a block
+ */
+export type BitcoinCoreSinceBlockResponse = ReturnType<
+  typeof asBitcoinCoreSinceBlockResponse
+>
+export const asBitcoinCoreSinceBlockResponse = asObject({
+  transactions: asArray(
+    asObject({
+      txid: asString,
+      blockhash: asOptional(asString)
+    })
+  ),
+  lastblock: asString
+})
+
+/**
+ * listunspent
+ */
+export type BitcoinCoreUnspentResponse = ReturnType<
+  typeof asBitcoinCoreUnspentResponse
+>
+export const asBitcoinCoreUnspentResponse = asArray(
+  asObject({
+    txid: asString,
+    vout: asNumber,
+    amount: asNumber,
+    confirmations: asNumber
+  })
+)
+
+/**
+ * listdescriptors, with the range of the ranged descriptors
+ */
+export type BitcoinCoreDescriptorsResponse = ReturnType<
+  typeof asBitcoinCoreDescriptorsResponse
+>
+export const asBitcoinCoreDescriptorsResponse = asObject({
+  descriptors: asArray(
+    asObject({
+      desc: asString,
+      range: asOptional(asArray(asNumber))
+    })
+  )
+})
+
+/**
+ * deriveaddresses
+ */
+export type BitcoinCoreDeriveAddressesResponse = ReturnType<
+  typeof asBitcoinCoreDeriveAddressesResponse
+>
+export const asBitcoinCoreDeriveAddressesResponse = asArray(asString)
+
+/**
+ * importdescriptors, which has a result for each descriptor
+ */
+export type BitcoinCoreImportResponse = ReturnType<
+  typeof asBitcoinCoreImportResponse
+>
+export const asBitcoinCoreImportResponse = asArray(
+  asObject({
+    success: asBoolean,
+    error: asOptional(asObject({ message: asString }))
+  })
+)
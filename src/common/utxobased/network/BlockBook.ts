@@ -60,7 +60,7 @@ export interface BlockBook {
   broadcastTx: (transaction: EdgeTransaction) => Promise<BroadcastTxResponse>
 }
 
-interface BlockBookConfig {
+export interface BlockBookConfig {
   socketEmitter: SocketEmitter
   engineEmitter: EngineEmitter
   wsAddress: string
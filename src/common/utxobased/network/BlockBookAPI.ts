@@ -212,6 +212,40 @@ export const transactionMessage = (
 export type TransactionResponse = BlockbookTransaction
 export const asTransactionResponse = asBlockbookTransaction
 
+/**
+ * Find Transaction
+ *
+ * Gets a transaction, or nothing if the server neither has it in its mempool
+ * nor in its blocks, such as after dropping it from its mempool.
+ */
+export const findTransactionMessage = (
+  hash: string,
+  asAddress: Cleaner<string> = asString
+): BlockbookTask<TransactionResponse | undefined> => ({
+  method: 'getTransaction',
+  params: { txid: hash },
+  cleaner: raw => {
+    const errResponse = asMaybe(asBlockbookErrorResponse)(raw)
+    if (
+      errResponse != null &&
+      errResponse.error.message ===
+        missingTransactionResponse(hash).error.message
+    ) {
+      return undefined
+    }
+    return asBlockbookResponse(asTransactionResponse(asAddress))(raw)
+  }
+})
+/**
+ * The error response of Blockbook for a transaction it doesn't have, which
+ * backends speaking other protocols answer with the same way
+ */
+export const missingTransactionResponse = (
+  hash: string
+): BlockbookErrorResponse => ({
+  error: { message: `Transaction '${hash}' not found` }
+})
+
 /**
  * Get Transaction Specific
  */
@@ -300,6 +334,89 @@ export const asAddressResponse = (asAddress: Cleaner<string> = asString) =>
     itemsOnPage: asOptional(asNumber, NaN)
   })
 
+/**
+ * Get Account Info for an xpub or a descriptor, which covers all the
+ * addresses Blockbook derives from it
+ */
+export interface XpubMessageParams extends AddresssMessageParams {
+  tokens?: 'nonzero' | 'used' | 'derived'
+  // The unused addresses Blockbook derives past the last used one
+  gap?: number
+}
+export const xpubMessage = (
+  descriptor: string,
+  asAddress: Cleaner<string> = asString,
+  params: XpubMessageParams = {}
+): BlockbookTask<XpubResponse> => {
+  return {
+    method: 'getAccountInfo',
+    params: {
+      ...{ details: 'basic', page: 1, pageSize: 100, ...params },
+      descriptor
+    },
+    cleaner: asBlockbookResponse(asXpubResponse(asAddress))
+  }
+}
+export interface XpubToken {
+  name: string
+  path: string
+  transfers: number
+}
+export interface XpubResponse {
+  address: string
+  balance: string
+  txs: number
+  unconfirmedBalance: string
+  unconfirmedTxs: number
+  transactions: BlockbookTransaction[]
+  tokens: XpubToken[]
+  page: number
+  totalPages: number
+  itemsOnPage: number
+}
+// eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+export const asXpubResponse = (asAddress: Cleaner<string> = asString) =>
+  asObject({
+    // details: basic
+    address: asString,
+    balance: asString,
+    txs: asNumber,
+    unconfirmedBalance: asString,
+    unconfirmedTxs: asNumber,
+    // details: txs
+    transactions: asOptional(asArray(asBlockbookTransaction(asAddress)), []),
+    // The derived addresses, with their derivation paths
+    tokens: asOptional(
+      asArray(
+        asObject({
+          name: asAddress,
+          path: asString,
+          transfers: asNumber
+        })
+      ),
+      []
+    ),
+    // Pagination (included with txids and txs requests)
+    page: asOptional(asNumber, NaN),
+    totalPages: asOptional(asNumber, NaN),
+    itemsOnPage: asOptional(asNumber, NaN)
+  })
+
+/**
+ * Get Account UTXO for an xpub or a descriptor, with the address and the
+ * derivation path of each utxo
+ */
+export const xpubUtxosMessage = (
+  descriptor: string,
+  asAddress: Cleaner<string> = asString
+): BlockbookTask<AddressUtxosResponse> => {
+  return {
+    method: 'getAccountUtxo',
+    params: { descriptor },
+    cleaner: asBlockbookResponse(asAddressUtxosResponse(asAddress))
+  }
+}
+
 /**
  * Subscribe New Block
  */
@@ -0,0 +1,743 @@
+import * as bitcoin from 'altcoin-js'
+import { add, sub } from 'biggystring'
+import { asNumber, asObject, asOptional, asString, uncleaner } from 'cleaners'
+import { EdgeTransaction } from 'edge-core-js/types'
+
+import { EngineEvent } from '../../plugin/makeEngineEmitter'
+import { removeItem } from '../../plugin/utils'
+import {
+  addressToScriptPubkey,
+  AddressTypeEnum,
+  scriptPubkeyToAddress
+} from '../keymanager/keymanager'
+import { BlockBook, BlockBookConfig } from './BlockBook'
+import {
+  addressMessage,
+  AddressResponse,
+  AddresssMessageParams,
+  addressUtxosMessage,
+  AddressUtxosResponse,
+  asSubscribeAddressResponse,
+  BlockbookAccountUtxo,
+  BlockbookTransaction,
+  broadcastTxMessage,
+  BroadcastTxResponse,
+  infoMessage,
+  InfoResponse,
+  missingTransactionResponse,
+  transactionMessage,
+  TransactionResponse
+} from './BlockBookAPI'
+import Deferred from './Deferred'
+import {
+  asElectrumBalanceResponse,
+  asElectrumHeaderResponse,
+  asElectrumHistoryResponse,
+  asElectrumMessage,
+  asElectrumStatusResponse,
+  asElectrumUnspentResponse,
+  ELECTRUM_PROTOCOL_VERSION,
+  ElectrumHistoryResponse,
+  scriptPubkeyToElectrumScriptHash
+} from './ElectrumAPI'
+import { SocketEvent } from './MakeSocketEmitter'
+import { setupWS } from './nodejsWS'
+import { makeTaskRunner } from './taskRunner'
+import { InnerSocket, InnerSocketCallbacks, ReadyState } from './types'
+import { setupBrowser } from './windowWS'
+
+const CLIENT_NAME = 'edge-currency-plugins'
+const KEEP_ALIVE_MS = 60000 // interval at which we keep the connection alive
+const WAKE_UP_MS = 5000 // interval at which we wakeUp and potentially onQueueSpace
+const TIMEOUT_MS = 30000
+// Each Blockbook task takes a number of Electrum requests
+const QUEUE_SIZE = 10
+const CACHE_SIZE = 500
+
+export interface ElectrumConfig extends BlockBookConfig {
+  coin: string
+}
+
+interface PendingRequest {
+  deferred: Deferred<unknown>
+  startTime: number
+}
+
+interface ScriptHashSubscription {
+  address: string
+  status?: string
+}
+
+// The scripts which have addresses, by their hex
+const ADDRESS_SCRIPTS: Array<[AddressTypeEnum, RegExp]> = [
+  [AddressTypeEnum.p2pkh, /^76a914[0-9a-f]{40}88ac$/],
+  [AddressTypeEnum.p2sh, /^a914[0-9a-f]{40}87$/],
+  [AddressTypeEnum.p2wpkh, /^0014[0-9a-f]{40}$/],
+  [AddressTypeEnum.p2wsh, /^0020[0-9a-f]{64}$/],
+  [AddressTypeEnum.p2tr, /^5120[0-9a-f]{64}$/]
+]
+
+// The params of the Blockbook messages which are translated
+const asDescriptorParams = asObject({ descriptor: asString })
+const asAccountInfoParams = asObject({
+  descriptor: asString,
+  details: asOptional(asString, 'basic'),
+  page: asOptional(asNumber, 1),
+  pageSize: asOptional(asNumber, 100),
+  from: asOptional(asNumber, 0)
+})
+const asTxidParams = asObject({ txid: asString })
+const asHexParams = asObject({ hex: asString })
+
+const addToCache = <K, V>(cache: Map<K, V>, key: K, value: V): void => {
+  cache.set(key, value)
+  if (cache.size > CACHE_SIZE) {
+    const [oldestKey] = cache.keys()
+    cache.delete(oldestKey)
+  }
+}
+
+/**
+ * Whether a server speaks the Electrum protocol rather than Blockbook's.
+ * These are websocket URIs, not the raw TCP and TLS ports most Electrum
+ * servers list.
+ */
+export const isElectrumUri = (uri: string): boolean =>
+  /^electrums?:\/\//.test(uri)
+
+/**
+ * Connects to an ElectrumX or Fulcrum server over its websocket port, using
+ * electrum:// for ws:// and electrums:// for wss://. Browsers and React Native
+ * can't open raw sockets, so servers without a websocket port, which is most
+ * of them on ports 50001 and 50002, need a websocket proxy. Blockbook tasks are
+ * answered in Blockbook's format, so the engine can use either kind of server.
+ * Electrum servers only know about scripts, so xpub queries aren't supported.
+ */
+export function makeElectrum(config: ElectrumConfig): BlockBook {
+  const {
+    wsAddress,
+    socketEmitter,
+    engineEmitter,
+    log,
+    walletId,
+    coin,
+    asAddress = asString
+  } = config
+  log(`makeElectrum with uri ${wsAddress}`)
+  const wasAddress = uncleaner(asAddress)
+
+  let socket: InnerSocket | null = null
+  let connected = false
+  let error: Error | undefined
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let nextId = 0
+  let lastKeepAlive = 0
+  let bestHeight = 0
+  let watchingBlocks = false
+  let pendingRequests: { [id: string]: PendingRequest } = {}
+  let subscriptions: { [scriptHash: string]: ScriptHashSubscription } = {}
+  const rawTransactions = new Map<string, string>()
+  // Requests in flight, so concurrent lookups of a transaction share one
+  const pendingRawTransactions = new Map<string, Promise<string | undefined>>()
+  const blockTimes = new Map<number, number>()
+  // The heights of transactions seen in the history of scripts
+  const txHeights = new Map<string, number>()
+
+  const taskRunner = makeTaskRunner({
+    uri: wsAddress,
+    walletId,
+    log,
+    queueSize: QUEUE_SIZE,
+    isConnected: () => connected,
+    onQueueSpaceCB: config.onQueueSpaceCB,
+    translateTask
+  })
+  const { wakeUp, promisifyTask } = taskRunner
+
+  const instance: BlockBook = {
+    get isConnected(): boolean {
+      return connected
+    },
+    connect,
+    disconnect,
+    onQueueSpace: taskRunner.onQueueSpace,
+    fetchInfo,
+    fetchAddress,
+    watchAddresses,
+    watchBlocks,
+    fetchAddressUtxos,
+    fetchTransaction,
+    broadcastTx
+  }
+
+  // ---------------------------------------------------------------------
+  // Connection
+  // ---------------------------------------------------------------------
+
+  async function connect(): Promise<void> {
+    log(`connecting to electrum socket with uri ${wsAddress}`)
+    if (socket != null) return
+    error = undefined
+
+    await new Promise<void>((resolve, reject) => {
+      const cbs: InnerSocketCallbacks = {
+        onOpen: () => {
+          onSocketConnect().then(resolve, (e: Error) => {
+            handleError(e)
+            reject(e)
+          })
+        },
+        onMessage,
+        onError: event => {
+          error = new Error(JSON.stringify(event))
+        },
+        onClose: () => {
+          reject(error ?? new Error('Socket close'))
+          onSocketClose()
+        }
+      }
+
+      const uri = wsAddress.replace(/^electrum(s?):/, 'ws$1:')
+      try {
+        socket = setupBrowser(uri, cbs)
+      } catch {
+        socket = setupWS(uri, cbs)
+      }
+    })
+  }
+
+  async function disconnect(): Promise<void> {
+    log(
+      `disconnecting from electrum socket with uri ${wsAddress}, currently connected: ${connected}`
+    )
+    closeSocket(new Error('Socket disconnected'))
+  }
+
+  const onSocketConnect = async (): Promise<void> => {
+    log(`onSocketConnect with server ${wsAddress}`)
+    await request('server.version', [CLIENT_NAME, ELECTRUM_PROTOCOL_VERSION])
+    connected = true
+    lastKeepAlive = Date.now()
+    socketEmitter.emit(SocketEvent.CONNECTION_OPEN, wsAddress)
+    setupTimer()
+    wakeUp()
+  }
+
+  const onSocketClose = (): void => {
+    if (socket == null) return
+    const err = error ?? new Error('Socket close')
+    log.warn(`onSocketClose due to ${err.message} with server ${wsAddress}`)
+    closeSocket(err)
+    socketEmitter.emit(SocketEvent.CONNECTION_CLOSE, wsAddress, err)
+  }
+
+  const handleError = (e: Error): void => {
+    log.error('handled error!', e)
+    if (error == null) error = e
+    onSocketClose()
+  }
+
+  const closeSocket = (err: Error): void => {
+    if (timer != null) clearTimeout(timer)
+    taskRunner.stop()
+    connected = false
+    watchingBlocks = false
+    subscriptions = {}
+    socket?.disconnect()
+    socket = null
+    for (const pending of Object.values(pendingRequests)) {
+      pending.deferred.reject(err)
+    }
+    pendingRequests = {}
+  }
+
+  const setupTimer = (): void => {
+    timer = setTimeout(() => onTimer(), WAKE_UP_MS)
+  }
+
+  const onTimer = (): void => {
+    const now = Date.now()
+    if (lastKeepAlive + KEEP_ALIVE_MS < now) {
+      log(`submitting healthCheck to server ${wsAddress}`)
+      lastKeepAlive = now
+      request('server.ping')
+        .then(() => {
+          socketEmitter.emit(SocketEvent.CONNECTION_TIMER, wsAddress, now)
+        })
+        .catch((e: Error) => handleError(e))
+    }
+
+    for (const [id, pending] of Object.entries(pendingRequests)) {
+      if (pending.startTime + TIMEOUT_MS < now) {
+        pending.deferred.reject(new Error('Timeout'))
+        removeItem(pendingRequests, id)
+      }
+    }
+    wakeUp()
+    setupTimer()
+  }
+
+  const onMessage = (messageJson: string): void => {
+    try {
+      const message = asElectrumMessage(JSON.parse(messageJson))
+      if (message.method != null) {
+        onNotification(message.method, message.params ?? [])
+      } else {
+        const id = String(message.id)
+        const pending = pendingRequests[id]
+        if (pending == null) {
+          throw new Error(`Bad response id in ${messageJson}`)
+        }
+        removeItem(pendingRequests, id)
+        if (message.error != null) {
+          pending.deferred.reject(new Error(message.error.message))
+        } else {
+          pending.deferred.resolve(message.result)
+        }
+      }
+    } catch (e) {
+      handleError(e)
+    }
+    wakeUp()
+  }
+
+  async function request(
+    method: string,
+    params: unknown[] = []
+  ): Promise<unknown> {
+    if (socket == null || socket.readyState !== ReadyState.OPEN) {
+      throw new Error(`Not connected to ${wsAddress}`)
+    }
+    const id = nextId++
+    const deferred = new Deferred<unknown>()
+    pendingRequests[id] = { deferred, startTime: Date.now() }
+    socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }))
+    return await deferred.promise
+  }
+
+  // ---------------------------------------------------------------------
+  // Tasks
+  // ---------------------------------------------------------------------
+
+  // Answers a Blockbook message with Electrum requests
+  async function translateTask(
+    method: string,
+    params: unknown
+  ): Promise<unknown> {
+    switch (method) {
+      case 'ping':
+        await request('server.ping')
+        return {}
+      case 'getInfo':
+        return await getInfo()
+      case 'getAccountInfo':
+        return await getAccountInfo(asAccountInfoParams(params))
+      case 'getAccountUtxo':
+        return await getAccountUtxo(asDescriptorParams(params).descriptor)
+      case 'getTransaction': {
+        const { txid } = asTxidParams(params)
+        const tx = await findTransaction(txid)
+        return tx ?? missingTransactionResponse(txid)
+      }
+      case 'getTransactionSpecific':
+        // The verbose transaction of the coin's node
+        return await request('blockchain.transaction.get', [
+          asTxidParams(params).txid,
+          true
+        ])
+      case 'sendTransaction':
+        return {
+          result: await request('blockchain.transaction.broadcast', [
+            asHexParams(params).hex
+          ])
+        }
+      default:
+        throw new Error(`Unsupported Electrum message ${method}`)
+    }
+  }
+
+  const getInfo = async (): Promise<unknown> => {
+    const header = asElectrumHeaderResponse(
+      await request('blockchain.headers.subscribe')
+    )
+    bestHeight = header.height
+    return {
+      name: coin,
+      shortcut: '',
+      decimals: 8,
+      version: ELECTRUM_PROTOCOL_VERSION,
+      bestHeight: header.height,
+      // Not every coin hashes its headers the same way
+      bestHash: '',
+      block0Hash: '',
+      testnet: false
+    }
+  }
+
+  const getAccountInfo = async (
+    params: ReturnType<typeof asAccountInfoParams>
+  ): Promise<unknown> => {
+    const { descriptor, details, page, pageSize, from } = params
+    const scriptHash = descriptorToScriptHash(descriptor)
+    const balance = asElectrumBalanceResponse(
+      await request('blockchain.scripthash.get_balance', [scriptHash])
+    )
+    const history = await fetchHistory(scriptHash)
+    const unconfirmedTxs = history.filter(item => item.height <= 0).length
+
+    // Blockbook lists the newest transactions first
+    const items = history
+      .filter(item => item.height <= 0 || item.height >= from)
+      .reverse()
+    const pageItems = items.slice((page - 1) * pageSize, page * pageSize)
+    const transactions =
+      details === 'txs'
+        ? await Promise.all(
+            pageItems.map(
+              async item => await fetchTransactionAt(item.tx_hash, item.height)
+            )
+          )
+        : []
+
+    return {
+      address: descriptor,
+      balance: String(balance.confirmed),
+      // Electrum servers don't keep totals of what a script received and sent
+      totalReceived: '0',
+      totalSent: '0',
+      txs: history.length - unconfirmedTxs,
+      unconfirmedBalance: String(balance.unconfirmed),
+      unconfirmedTxs,
+      txids: pageItems.map(item => item.tx_hash),
+      transactions,
+      page,
+      totalPages: Math.ceil(items.length / pageSize),
+      itemsOnPage: pageItems.length
+    }
+  }
+
+  const getAccountUtxo = async (
+    descriptor: string
+  ): Promise<BlockbookAccountUtxo[]> => {
+    const utxos = asElectrumUnspentResponse(
+      await request('blockchain.scripthash.listunspent', [
+        descriptorToScriptHash(descriptor)
+      ])
+    )
+    return utxos.map(utxo => ({
+      txid: utxo.tx_hash,
+      vout: utxo.tx_pos,
+      value: String(utxo.value),
+      confirmations: utxo.height > 0 ? bestHeight - utxo.height + 1 : 0,
+      height: utxo.height > 0 ? utxo.height : undefined
+    }))
+  }
+
+  // Finds nothing for transactions which neither the server's mempool nor
+  // its blocks contain, such as after the mempool dropped them
+  const findTransaction = async (
+    txid: string
+  ): Promise<BlockbookTransaction | undefined> => {
+    // Only confirmed heights can't have changed since they were seen
+    const height = txHeights.get(txid)
+    if (height != null && height > 0) {
+      return await fetchTransactionAt(txid, height)
+    }
+
+    // Electrum servers only tell the height of a transaction in the history
+    // of its scripts, so look for it in the history of its first output
+    const hex = await findRawTransaction(txid)
+    if (hex == null) return
+    const tx = bitcoin.Transaction.fromHex(hex)
+    const output = tx.outs.find(output => output.script[0] !== 0x6a)
+    if (output != null) {
+      await fetchHistory(
+        scriptPubkeyToElectrumScriptHash(output.script.toString('hex'))
+      )
+    }
+    return await fetchTransactionAt(txid, txHeights.get(txid) ?? 0)
+  }
+
+  // ---------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------
+
+  const descriptorToScriptHash = (descriptor: string): string =>
+    scriptPubkeyToElectrumScriptHash(
+      addressToScriptPubkey({ address: asAddress(descriptor), coin })
+    )
+
+  const scriptToAddresses = (script: Buffer): string[] => {
+    const scriptPubkey = script.toString('hex')
+    const match = ADDRESS_SCRIPTS.find(([, regex]) => regex.test(scriptPubkey))
+    if (match == null) return []
+    try {
+      const { address } = scriptPubkeyToAddress({
+        scriptPubkey,
+        addressType: match[0],
+        coin
+      })
+      return [wasAddress(address)]
+    } catch (e) {
+      return []
+    }
+  }
+
+  const fetchHistory = async (
+    scriptHash: string
+  ): Promise<ElectrumHistoryResponse> => {
+    const history = asElectrumHistoryResponse(
+      await request('blockchain.scripthash.get_history', [scriptHash])
+    )
+    for (const item of history) {
+      txHeights.set(item.tx_hash, item.height)
+    }
+    return history
+  }
+
+  const fetchRawTransaction = async (txid: string): Promise<string> => {
+    const hex = await findRawTransaction(txid)
+    if (hex == null) throw new Error(`Transaction ${txid} not found`)
+    return hex
+  }
+
+  const findRawTransaction = async (
+    txid: string
+  ): Promise<string | undefined> => {
+    const cached = rawTransactions.get(txid)
+    if (cached != null) return cached
+    const pending = pendingRawTransactions.get(txid)
+    if (pending != null) return await pending
+
+    const promise = requestRawTransaction(txid)
+    pendingRawTransactions.set(txid, promise)
+    try {
+      return await promise
+    } finally {
+      pendingRawTransactions.delete(txid)
+    }
+  }
+
+  const requestRawTransaction = async (
+    txid: string
+  ): Promise<string | undefined> => {
+    let hex: string
+    try {
+      hex = asString(await request('blockchain.transaction.get', [txid]))
+    } catch (e) {
+      // Electrum servers only pass on the error of their node, which has no
+      // code of its own for a missing transaction
+      if (/no such mempool or blockchain transaction/i.test(e.message)) return
+      throw e
+    }
+    addToCache(rawTransactions, txid, hex)
+    return hex
+  }
+
+  const fetchBlockTime = async (height: number): Promise<number> => {
+    const cached = blockTimes.get(height)
+    if (cached != null) return cached
+
+    const header = Buffer.from(
+      asString(await request('blockchain.block.header', [height])),
+      'hex'
+    )
+    // The time follows the version, previous block hash and merkle root
+    const blockTime = header.readUInt32LE(68)
+    addToCache(blockTimes, height, blockTime)
+    return blockTime
+  }
+
+  // Builds a Blockbook transaction from the raw transaction and the outputs
+  // it spends
+  const fetchTransactionAt = async (
+    txid: string,
+    height: number
+  ): Promise<BlockbookTransaction> => {
+    const hex = await fetchRawTransaction(txid)
+    const tx = bitcoin.Transaction.fromHex(hex)
+    const isCoinbase = tx.isCoinbase()
+    const prevTxids = tx.ins.map(input =>
+      Buffer.from(input.hash).reverse().toString('hex')
+    )
+
+    // Fetch each spent transaction once, however many of its outputs are spent
+    const prevTxs = new Map<string, bitcoin.Transaction>()
+    if (!isCoinbase) {
+      await Promise.all(
+        Array.from(new Set(prevTxids)).map(async prevTxid => {
+          const prevHex = await fetchRawTransaction(prevTxid)
+          prevTxs.set(prevTxid, bitcoin.Transaction.fromHex(prevHex))
+        })
+      )
+    }
+
+    const vin = tx.ins.map((input, n) => {
+      const prevTxid = prevTxids[n]
+      const prevOutput = prevTxs.get(prevTxid)?.outs[input.index]
+      const addresses =
+        prevOutput == null ? [] : scriptToAddresses(prevOutput.script)
+      return {
+        txid: prevTxid,
+        sequence: input.sequence,
+        n,
+        vout: input.index,
+        addresses,
+        isAddress: addresses.length > 0,
+        value: String(prevOutput?.value ?? 0)
+      }
+    })
+    const vout = tx.outs.map((output, n) => ({
+      n,
+      value: String(output.value),
+      addresses: scriptToAddresses(output.script),
+      hex: output.script.toString('hex')
+    }))
+    const inputTotal = vin.reduce((sum, input) => add(sum, input.value), '0')
+    const outputTotal = vout.reduce(
+      (sum, output) => add(sum, output.value),
+      '0'
+    )
+
+    const isConfirmed = height > 0
+    return {
+      txid,
+      hex,
+      // Blockbook gives mempool transactions a height of -1
+      blockHeight: isConfirmed ? height : -1,
+      confirmations: isConfirmed ? bestHeight - height + 1 : 0,
+      blockTime: isConfirmed
+        ? await fetchBlockTime(height)
+        : Math.floor(Date.now() / 1000),
+      fees: isCoinbase ? '0' : sub(inputTotal, outputTotal),
+      vin,
+      vout
+    }
+  }
+
+  // ---------------------------------------------------------------------
+  // Subscriptions
+  // ---------------------------------------------------------------------
+
+  const onNotification = (method: string, params: unknown[]): void => {
+    switch (method) {
+      case 'blockchain.headers.subscribe': {
+        const { height } = asElectrumHeaderResponse(params[0])
+        bestHeight = height
+        if (watchingBlocks) {
+          engineEmitter.emit(
+            EngineEvent.BLOCK_HEIGHT_CHANGED,
+            wsAddress,
+            height
+          )
+        }
+        break
+      }
+      case 'blockchain.scripthash.subscribe':
+        onStatusChange(
+          asString(params[0]),
+          asElectrumStatusResponse(params[1])
+        ).catch(e => {
+          log.error(`electrum subscription error: ${e.message}`)
+        })
+        break
+    }
+  }
+
+  // Tells the engine about the newest transaction of a script, the same as a
+  // Blockbook address notification
+  const onStatusChange = async (
+    scriptHash: string,
+    status?: string
+  ): Promise<void> => {
+    const subscription = subscriptions[scriptHash]
+    if (subscription == null || subscription.status === status) return
+    subscription.status = status
+
+    const history = await fetchHistory(scriptHash)
+    const item = history[history.length - 1]
+    if (item == null) return
+    const tx = await fetchTransactionAt(item.tx_hash, item.height)
+    engineEmitter.emit(
+      EngineEvent.NEW_ADDRESS_TRANSACTION,
+      wsAddress,
+      asSubscribeAddressResponse(asAddress)({
+        address: wasAddress(subscription.address),
+        tx
+      })
+    )
+  }
+
+  function watchBlocks(deferredBlockSub: Deferred<unknown>): void {
+    watchingBlocks = true
+    request('blockchain.headers.subscribe')
+      .then(raw => {
+        bestHeight = asElectrumHeaderResponse(raw).height
+        deferredBlockSub.resolve({ subscribed: true })
+      })
+      .catch(e => {
+        watchingBlocks = false
+        deferredBlockSub.reject(e)
+      })
+  }
+
+  function watchAddresses(
+    addresses: string[],
+    deferredAddressSub: Deferred<unknown>
+  ): void {
+    // Electrum subscriptions add to the earlier ones, so only subscribe the
+    // new addresses
+    const subscribeAddress = async (address: string): Promise<void> => {
+      const scriptHash = scriptPubkeyToElectrumScriptHash(
+        addressToScriptPubkey({ address, coin })
+      )
+      if (subscriptions[scriptHash] != null) return
+      subscriptions[scriptHash] = { address }
+      try {
+        const status = asElectrumStatusResponse(
+          await request('blockchain.scripthash.subscribe', [scriptHash])
+        )
+        subscriptions[scriptHash] = { address, status }
+      } catch (e) {
+        removeItem(subscriptions, scriptHash)
+        throw e
+      }
+    }
+    Promise.all(addresses.map(subscribeAddress))
+      .then(() => deferredAddressSub.resolve({ subscribed: true }))
+      .catch(e => deferredAddressSub.reject(e))
+  }
+
+  // ---------------------------------------------------------------------
+  // Blockbook Messages
+  // ---------------------------------------------------------------------
+
+  async function fetchInfo(): Promise<InfoResponse> {
+    return await promisifyTask(infoMessage())
+  }
+
+  async function fetchAddressUtxos(
+    account: string
+  ): Promise<AddressUtxosResponse> {
+    return await promisifyTask(addressUtxosMessage(account, asAddress))
+  }
+
+  async function fetchTransaction(hash: string): Promise<TransactionResponse> {
+    return await promisifyTask(transactionMessage(hash, asAddress))
+  }
+
+  async function fetchAddress(
+    address: string,
+    params: AddresssMessageParams = {}
+  ): Promise<AddressResponse> {
+    return await promisifyTask(addressMessage(address, asAddress, params))
+  }
+
+  async function broadcastTx(
+    transaction: EdgeTransaction
+  ): Promise<BroadcastTxResponse> {
+    return await promisifyTask(broadcastTxMessage(transaction))
+  }
+
+  return instance
+}
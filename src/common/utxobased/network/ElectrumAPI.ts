@@ -0,0 +1,112 @@
+import * as bitcoin from 'altcoin-js'
+import {
+  asArray,
+  asNumber,
+  asObject,
+  asOptional,
+  asString,
+  asUnknown
+} from 'cleaners'
+
+/*
+The JSON-RPC protocol of ElectrumX and Fulcrum servers, which index the
+history of scripts by the hash of the script instead of by address.
+Reference: https://electrumx.readthedocs.io/en/latest/protocol-methods.html
+*/
+
+export const ELECTRUM_PROTOCOL_VERSION = '1.4'
+
+/**
+ * The key of a script in Electrum servers, which is its reversed sha256 hash.
+ */
+export const scriptPubkeyToElectrumScriptHash = (
+  scriptPubkey: string
+): string =>
+  Buffer.from(bitcoin.crypto.sha256(Buffer.from(scriptPubkey, 'hex')))
+    .reverse()
+    .toString('hex')
+
+// ---------------------------------------------------------------------
+// Electrum Messages
+// ---------------------------------------------------------------------
+
+/**
+ * A response to a request, or a notification of a subscription
+ */
+export type ElectrumMessage = ReturnType<typeof asElectrumMessage>
+export const asElectrumMessage = asObject({
+  id: asOptional(asNumber),
+  result: asOptional(asUnknown),
+  error: asOptional(
+    asObject({
+      code: asOptional(asNumber),
+      message: asString
+    })
+  ),
+  // Notifications
+  method: asOptional(asString),
+  params: asOptional(asArray(asUnknown))
+})
+
+// ---------------------------------------------------------------------
+// Electrum API Response Types
+// ---------------------------------------------------------------------
+
+/**
+ * blockchain.headers.subscribe
+ */
+export type ElectrumHeaderResponse = ReturnType<typeof asElectrumHeaderResponse>
+export const asElectrumHeaderResponse = asObject({
+  height: asNumber,
+  hex: asString
+})
+
+/**
+ * blockchain.scripthash.get_balance
+ */
+export type ElectrumBalanceResponse = ReturnType<
+  typeof asElectrumBalanceResponse
+>
+export const asElectrumBalanceResponse = asObject({
+  confirmed: asNumber,
+  unconfirmed: asNumber
+})
+
+/**
+ * blockchain.scripthash.get_history
+ *
+ * Confirmed transactions come first, by height, and mempool transactions have
+ * a height of 0, or -1 if they spend other mempool transactions.
+ */
+export type ElectrumHistoryResponse = ReturnType<
+  typeof asElectrumHistoryResponse
+>
+export const asElectrumHistoryResponse = asArray(
+  asObject({
+    tx_hash: asString,
+    height: asNumber,
+    fee: asOptional(asNumber)
+  })
+)
+
+/**
+ * blockchain.scripthash.listunspent
+ */
+export type ElectrumUnspentResponse = ReturnType<
+  typeof asElectrumUnspentResponse
+>
+export const asElectrumUnspentResponse = asArray(
+  asObject({
+    tx_hash: asString,
+    tx_pos: asNumber,
+    height: asNumber,
+    value: asNumber
+  })
+)
+
+/**
+ * blockchain.scripthash.subscribe, which gives a hash of the history of the
+ * script, or null if it has none
+ */
+export type ElectrumStatusResponse = ReturnType<typeof asElectrumStatusResponse>
+export const asElectrumStatusResponse = asOptional(asString)
@@ -0,0 +1,540 @@
+import { asNumber, asObject, asOptional, asString, uncleaner } from 'cleaners'
+import {
+  EdgeFetchFunction,
+  EdgeFetchOptions,
+  EdgeFetchResponse,
+  EdgeTransaction
+} from 'edge-core-js/types'
+
+import { EngineEvent } from '../../plugin/makeEngineEmitter'
+import { BlockBook, BlockBookConfig } from './BlockBook'
+import {
+  addressMessage,
+  AddressResponse,
+  AddresssMessageParams,
+  addressUtxosMessage,
+  AddressUtxosResponse,
+  asSubscribeAddressResponse,
+  BlockbookAccountUtxo,
+  BlockbookTransaction,
+  broadcastTxMessage,
+  BroadcastTxResponse,
+  infoMessage,
+  InfoResponse,
+  missingTransactionResponse,
+  transactionMessage,
+  TransactionResponse
+} from './BlockBookAPI'
+import Deferred from './Deferred'
+import {
+  asEsploraAddressResponse,
+  asEsploraTransaction,
+  asEsploraTransactionsResponse,
+  asEsploraUtxosResponse,
+  ESPLORA_CHAIN_TXS_PER_PAGE,
+  EsploraTransaction
+} from './EsploraAPI'
+import { SocketEvent } from './MakeSocketEmitter'
+import { makeTaskRunner } from './taskRunner'
+
+const POLL_MS = 15000 // interval at which we poll for blocks and transactions
+// Every watched address is polled each interval, this many at once
+const ADDRESSES_PER_BATCH = 4
+const QUEUE_SIZE = 4
+
+export interface EsploraConfig extends BlockBookConfig {
+  fetch: EdgeFetchFunction
+}
+
+// The params of the Blockbook messages which are translated
+const asDescriptorParams = asObject({ descriptor: asString })
+const asAccountInfoParams = asObject({
+  descriptor: asString,
+  details: asOptional(asString, 'basic'),
+  page: asOptional(asNumber, 1),
+  pageSize: asOptional(asNumber, 100),
+  from: asOptional(asNumber, 0)
+})
+const asTxidParams = asObject({ txid: asString })
+const asHexParams = asObject({ hex: asString })
+
+// How far the history of an address has been walked, so its next page
+// continues from there rather than from the newest transaction
+interface HistoryCursor {
+  stats: string
+  from: number
+  items: EsploraTransaction[]
+  // Nothing once the history is walked to its end, or to the height
+  nextPath?: string
+}
+
+/**
+ * Whether a server speaks the Esplora REST API rather than a socket protocol.
+ */
+export const isEsploraUri = (uri: string): boolean => /^https?:\/\//.test(uri)
+
+/**
+ * Polls an Esplora server, such as a self-hosted electrs, through
+ * io.fetch. Blockbook tasks are answered in Blockbook's format, and new
+ * blocks and address transactions are found by polling, so the engine can
+ * use it in place of a Blockbook server. Esplora servers only know about
+ * addresses, so xpub queries aren't supported.
+ */
+export function makeEsplora(config: EsploraConfig): BlockBook {
+  const {
+    wsAddress,
+    socketEmitter,
+    engineEmitter,
+    log,
+    walletId,
+    fetch,
+    asAddress = asString
+  } = config
+  log(`makeEsplora with uri ${wsAddress}`)
+  const wasAddress = uncleaner(asAddress)
+  const baseUri = wsAddress.replace(/\/$/, '')
+
+  let connected = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let bestHeight = 0
+  let watchingBlocks = false
+  // The watched addresses, with the stats they had when last polled
+  const watchedAddresses = new Map<string, string | undefined>()
+  const historyCursors = new Map<string, HistoryCursor>()
+
+  const taskRunner = makeTaskRunner({
+    uri: wsAddress,
+    walletId,
+    log,
+    queueSize: QUEUE_SIZE,
+    isConnected: () => connected,
+    onQueueSpaceCB: config.onQueueSpaceCB,
+    translateTask
+  })
+  const { wakeUp, promisifyTask } = taskRunner
+
+  const instance: BlockBook = {
+    get isConnected(): boolean {
+      return connected
+    },
+    connect,
+    disconnect,
+    onQueueSpace: taskRunner.onQueueSpace,
+    fetchInfo,
+    fetchAddress,
+    watchAddresses,
+    watchBlocks,
+    fetchAddressUtxos,
+    fetchTransaction,
+    broadcastTx
+  }
+
+  // ---------------------------------------------------------------------
+  // Connection
+  // ---------------------------------------------------------------------
+
+  async function connect(): Promise<void> {
+    log(`connecting to esplora server with uri ${wsAddress}`)
+    if (connected) return
+
+    try {
+      bestHeight = await fetchTipHeight()
+    } catch (e) {
+      socketEmitter.emit(SocketEvent.CONNECTION_CLOSE, wsAddress, e)
+      throw e
+    }
+    connected = true
+    socketEmitter.emit(SocketEvent.CONNECTION_OPEN, wsAddress)
+    setupTimer()
+    wakeUp()
+  }
+
+  async function disconnect(): Promise<void> {
+    log(
+      `disconnecting from esplora server with uri ${wsAddress}, currently connected: ${connected}`
+    )
+    stop()
+  }
+
+  const stop = (): void => {
+    if (timer != null) clearTimeout(timer)
+    taskRunner.stop()
+    connected = false
+    watchingBlocks = false
+    watchedAddresses.clear()
+    historyCursors.clear()
+  }
+
+  // Requests failing to reach the server close the connection, the same as a
+  // socket error
+  const handleError = (e: Error): void => {
+    log.error('handled error!', e)
+    if (!connected) return
+    log.warn(`closing due to ${e.message} with server ${wsAddress}`)
+    stop()
+    socketEmitter.emit(SocketEvent.CONNECTION_CLOSE, wsAddress, e)
+  }
+
+  const fetchText = async (
+    path: string,
+    opts?: EdgeFetchOptions
+  ): Promise<string> => {
+    const text = await findText(path, opts)
+    if (text == null) throw new Error(`Esplora ${path} not found`)
+    return text
+  }
+
+  // Finds nothing for paths which the server answers as not found
+  const findText = async (
+    path: string,
+    opts?: EdgeFetchOptions
+  ): Promise<string | undefined> => {
+    let response: EdgeFetchResponse
+    try {
+      response = await fetch(`${baseUri}${path}`, opts)
+    } catch (e) {
+      handleError(e)
+      throw e
+    }
+    const text = await response.text()
+    if (response.status === 404) return
+    if (!response.ok) {
+      const error = new Error(`Esplora ${path} failed: ${text}`)
+      if (response.status >= 500) handleError(error)
+      throw error
+    }
+    return text
+  }
+
+  const fetchJson = async (path: string): Promise<unknown> =>
+    JSON.parse(await fetchText(path))
+
+  const fetchTipHeight = async (): Promise<number> =>
+    parseInt(await fetchText('/blocks/tip/height'))
+
+  // ---------------------------------------------------------------------
+  // Polling
+  // ---------------------------------------------------------------------
+
+  const setupTimer = (): void => {
+    const onDone = (): void => {
+      if (connected) setupTimer()
+    }
+    timer = setTimeout(() => {
+      poll().then(onDone, e => {
+        log.error(`esplora poll error: ${e.message}`)
+        onDone()
+      })
+    }, POLL_MS)
+  }
+
+  const poll = async (): Promise<void> => {
+    const startTime = Date.now()
+    const height = await fetchTipHeight()
+    socketEmitter.emit(SocketEvent.CONNECTION_TIMER, wsAddress, startTime)
+    if (height !== bestHeight) {
+      bestHeight = height
+      if (watchingBlocks) {
+        engineEmitter.emit(EngineEvent.BLOCK_HEIGHT_CHANGED, wsAddress, height)
+      }
+    }
+
+    const addresses = Array.from(watchedAddresses.keys())
+    for (let i = 0; i < addresses.length; i += ADDRESSES_PER_BATCH) {
+      if (!connected) return
+      const batch = addresses.slice(i, i + ADDRESSES_PER_BATCH)
+      await Promise.all(batch.map(async address => await pollAddress(address)))
+    }
+    wakeUp()
+  }
+
+  // Tells the engine about the newest transaction of an address whose stats
+  // changed, the same as a Blockbook address notification
+  const pollAddress = async (address: string): Promise<void> => {
+    const stats = JSON.stringify(
+      asEsploraAddressResponse(await fetchJson(`/address/${address}`))
+    )
+    const lastStats = watchedAddresses.get(address)
+    if (!watchedAddresses.has(address) || lastStats === stats) return
+    watchedAddresses.set(address, stats)
+    // The first poll of an address only sets where it starts from
+    if (lastStats == null) return
+
+    const [newestTx] = asEsploraTransactionsResponse(
+      await fetchJson(`/address/${address}/txs`)
+    )
+    if (newestTx == null) return
+    const tx = await toBlockbookTransaction(newestTx)
+    engineEmitter.emit(
+      EngineEvent.NEW_ADDRESS_TRANSACTION,
+      wsAddress,
+      asSubscribeAddressResponse(asAddress)({
+        address: wasAddress(address),
+        tx
+      })
+    )
+  }
+
+  function watchBlocks(deferredBlockSub: Deferred<unknown>): void {
+    watchingBlocks = true
+    deferredBlockSub.resolve({ subscribed: true })
+  }
+
+  function watchAddresses(
+    addresses: string[],
+    deferredAddressSub: Deferred<unknown>
+  ): void {
+    for (const address of addresses) {
+      if (!watchedAddresses.has(address)) {
+        watchedAddresses.set(address, undefined)
+      }
+    }
+    deferredAddressSub.resolve({ subscribed: true })
+  }
+
+  // ---------------------------------------------------------------------
+  // Tasks
+  // ---------------------------------------------------------------------
+
+  // Answers a Blockbook message with Esplora requests
+  async function translateTask(
+    method: string,
+    params: unknown
+  ): Promise<unknown> {
+    switch (method) {
+      case 'ping':
+        await fetchTipHeight()
+        return {}
+      case 'getInfo':
+        return await getInfo()
+      case 'getAccountInfo':
+        return await getAccountInfo(asAccountInfoParams(params))
+      case 'getAccountUtxo':
+        return await getAccountUtxo(asDescriptorParams(params).descriptor)
+      case 'getTransaction': {
+        const { txid } = asTxidParams(params)
+        const tx = await findTransaction(txid)
+        return tx ?? missingTransactionResponse(txid)
+      }
+      case 'getTransactionSpecific':
+        // Esplora has nothing coin specific, besides its own format
+        return await fetchJson(`/tx/${asTxidParams(params).txid}`)
+      case 'sendTransaction':
+        return {
+          result: await fetchText('/tx', {
+            method: 'POST',
+            body: asHexParams(params).hex
+          })
+        }
+      default:
+        throw new Error(`Unsupported Esplora message ${method}`)
+    }
+  }
+
+  const getInfo = async (): Promise<unknown> => {
+    bestHeight = await fetchTipHeight()
+    return {
+      name: 'Esplora',
+      shortcut: '',
+      decimals: 8,
+      version: '',
+      bestHeight,
+      bestHash: await fetchText('/blocks/tip/hash'),
+      block0Hash: '',
+      testnet: false
+    }
+  }
+
+  const getAccountInfo = async (
+    params: ReturnType<typeof asAccountInfoParams>
+  ): Promise<unknown> => {
+    const { descriptor, details, page, pageSize, from } = params
+    const address = asAddress(descriptor)
+    const addressResponse = asEsploraAddressResponse(
+      await fetchJson(`/address/${address}`)
+    )
+    const {
+      chain_stats: chainStats,
+      mempool_stats: mempoolStats
+    } = addressResponse
+
+    // Continue the walk of an earlier page, unless the history changed since
+    const stats = JSON.stringify(addressResponse)
+    const isBasic = details === 'basic'
+    const lastCursor = historyCursors.get(address)
+    const cursor: HistoryCursor =
+      !isBasic && lastCursor?.stats === stats && lastCursor.from === from
+        ? lastCursor
+        : {
+            stats,
+            from,
+            items: [],
+            nextPath: isBasic ? undefined : `/address/${address}/txs`
+          }
+    const { items } = cursor
+
+    // Walk the pages of the history until the requested page, or the height
+    // to query from, is reached
+    while (cursor.nextPath != null) {
+      if (from === 0 && items.length >= page * pageSize) break
+      const txs = asEsploraTransactionsResponse(
+        await fetchJson(cursor.nextPath)
+      )
+      const confirmedTxs = txs.filter(tx => tx.status.confirmed)
+      let reachedEnd = false
+      for (const tx of txs) {
+        if ((tx.status.block_height ?? from) < from) {
+          reachedEnd = true
+          break
+        }
+        items.push(tx)
+      }
+      const lastTx = confirmedTxs[confirmedTxs.length - 1]
+      cursor.nextPath =
+        reachedEnd ||
+        lastTx == null ||
+        confirmedTxs.length < ESPLORA_CHAIN_TXS_PER_PAGE
+          ? undefined
+          : `/address/${address}/txs/chain/${lastTx.txid}`
+    }
+
+    const pageItems = items.slice((page - 1) * pageSize, page * pageSize)
+    const transactions: BlockbookTransaction[] = []
+    if (details === 'txs') {
+      for (const tx of pageItems) {
+        transactions.push(await toBlockbookTransaction(tx))
+      }
+    }
+    // Without a height to query from, the history may not have been walked
+    // to its end
+    const totalTxs =
+      from > 0 ? items.length : chainStats.tx_count + mempoolStats.tx_count
+    const totalPages = Math.ceil(totalTxs / pageSize)
+    // Only keep the walk while there are pages left to ask for
+    if (!isBasic) {
+      if (page < totalPages) historyCursors.set(address, cursor)
+      else historyCursors.delete(address)
+    }
+
+    return {
+      address: descriptor,
+      balance: String(chainStats.funded_txo_sum - chainStats.spent_txo_sum),
+      totalReceived: String(chainStats.funded_txo_sum),
+      totalSent: String(chainStats.spent_txo_sum),
+      txs: chainStats.tx_count,
+      unconfirmedBalance: String(
+        mempoolStats.funded_txo_sum - mempoolStats.spent_txo_sum
+      ),
+      unconfirmedTxs: mempoolStats.tx_count,
+      txids: pageItems.map(tx => tx.txid),
+      transactions,
+      page,
+      totalPages,
+      itemsOnPage: pageItems.length
+    }
+  }
+
+  const getAccountUtxo = async (
+    descriptor: string
+  ): Promise<BlockbookAccountUtxo[]> => {
+    const utxos = asEsploraUtxosResponse(
+      await fetchJson(`/address/${asAddress(descriptor)}/utxo`)
+    )
+    return utxos.map(utxo => {
+      const { block_height: height } = utxo.status
+      return {
+        txid: utxo.txid,
+        vout: utxo.vout,
+        value: String(utxo.value),
+        confirmations: height != null ? bestHeight - height + 1 : 0,
+        height
+      }
+    })
+  }
+
+  // Finds nothing for transactions which neither the server's mempool nor
+  // its blocks contain, such as after the mempool dropped them
+  const findTransaction = async (
+    txid: string
+  ): Promise<BlockbookTransaction | undefined> => {
+    const text = await findText(`/tx/${txid}`)
+    if (text == null) return
+    return await toBlockbookTransaction(asEsploraTransaction(JSON.parse(text)))
+  }
+
+  // ---------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------
+
+  const toAddresses = (address?: string): string[] =>
+    address == null ? [] : [wasAddress(address)]
+
+  // Esplora transactions have everything a Blockbook transaction has but
+  // the raw transaction
+  const toBlockbookTransaction = async (
+    tx: EsploraTransaction
+  ): Promise<BlockbookTransaction> => {
+    const { block_height: height, block_time: blockTime } = tx.status
+    const hex = await fetchText(`/tx/${tx.txid}/hex`)
+    return {
+      txid: tx.txid,
+      hex,
+      // Blockbook gives mempool transactions a height of -1
+      blockHeight: height ?? -1,
+      confirmations: height != null ? bestHeight - height + 1 : 0,
+      blockTime: blockTime ?? Math.floor(Date.now() / 1000),
+      fees: String(tx.fee),
+      vin: tx.vin.map((input, n) => {
+        const addresses = toAddresses(input.prevout?.scriptpubkey_address)
+        return {
+          txid: input.txid,
+          sequence: input.sequence,
+          n,
+          vout: input.vout,
+          addresses,
+          isAddress: addresses.length > 0,
+          value: String(input.prevout?.value ?? 0)
+        }
+      }),
+      vout: tx.vout.map((output, n) => ({
+        n,
+        value: String(output.value),
+        addresses: toAddresses(output.scriptpubkey_address),
+        hex: output.scriptpubkey
+      }))
+    }
+  }
+
+  // ---------------------------------------------------------------------
+  // Blockbook Messages
+  // ---------------------------------------------------------------------
+
+  async function fetchInfo(): Promise<InfoResponse> {
+    return await promisifyTask(infoMessage())
+  }
+
+  async function fetchAddressUtxos(
+    account: string
+  ): Promise<AddressUtxosResponse> {
+    return await promisifyTask(addressUtxosMessage(account, asAddress))
+  }
+
+  async function fetchTransaction(hash: string): Promise<TransactionResponse> {
+    return await promisifyTask(transactionMessage(hash, asAddress))
+  }
+
+  async function fetchAddress(
+    address: string,
+    params: AddresssMessageParams = {}
+  ): Promise<AddressResponse> {
+    return await promisifyTask(addressMessage(address, asAddress, params))
+  }
+
+  async function broadcastTx(
+    transaction: EdgeTransaction
+  ): Promise<BroadcastTxResponse> {
+    return await promisifyTask(broadcastTxMessage(transaction))
+  }
+
+  return instance
+}
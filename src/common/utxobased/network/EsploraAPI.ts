@@ -0,0 +1,100 @@
+import {
+  asArray,
+  asBoolean,
+  asNumber,
+  asObject,
+  asOptional,
+  asString
+} from 'cleaners'
+
+/*
+The REST API of Esplora servers, such as those of mempool.space and
+Blockstream, which has no subscriptions, so is polled.
+Reference: https://github.com/Blockstream/esplora/blob/master/API.md
+*/
+
+// The number of confirmed transactions in each page of an address's history
+export const ESPLORA_CHAIN_TXS_PER_PAGE = 25
+
+// ---------------------------------------------------------------------
+// Esplora Types
+// ---------------------------------------------------------------------
+
+export type EsploraStatus = ReturnType<typeof asEsploraStatus>
+export const asEsploraStatus = asObject({
+  confirmed: asBoolean,
+  block_height: asOptional(asNumber),
+  block_time: asOptional(asNumber)
+})
+
+export type EsploraStats = ReturnType<typeof asEsploraStats>
+export const asEsploraStats = asObject({
+  funded_txo_sum: asNumber,
+  spent_txo_sum: asNumber,
+  tx_count: asNumber
+})
+
+export type EsploraTransaction = ReturnType<typeof asEsploraTransaction>
+export const asEsploraTransaction = asObject({
+  txid: asString,
+  fee: asNumber,
+  status: asEsploraStatus,
+  vin: asArray(
+    asObject({
+      txid: asString,
+      vout: asNumber,
+      sequence: asNumber,
+      // Coinbase inputs spend no output
+      prevout: asOptional(
+        asObject({
+          scriptpubkey_address: asOptional(asString),
+          value: asNumber
+        })
+      )
+    })
+  ),
+  vout: asArray(
+    asObject({
+      scriptpubkey: asString,
+      scriptpubkey_address: asOptional(asString),
+      value: asNumber
+    })
+  )
+})
+
+// ---------------------------------------------------------------------
+// Esplora API Response Types
+// ---------------------------------------------------------------------
+
+/**
+ * GET /address/:address
+ */
+export type EsploraAddressResponse = ReturnType<typeof asEsploraAddressResponse>
+export const asEsploraAddressResponse = asObject({
+  chain_stats: asEsploraStats,
+  mempool_stats: asEsploraStats
+})
+
+/**
+ * GET /address/:address/txs, which gives the mempool transactions and then the
+ * first page of confirmed ones, and GET /address/:address/txs/chain/:txid,
+ * which gives the page of confirmed transactions after a transaction.
+ * Transactions are newest first.
+ */
+export type EsploraTransactionsResponse = ReturnType<
+  typeof asEsploraTransactionsResponse
+>
+export const asEsploraTransactionsResponse = asArray(asEsploraTransaction)
+
+/**
+ * GET /address/:address/utxo
+ */
+export type EsploraUtxosResponse = ReturnType<typeof asEsploraUtxosResponse>
+export const asEsploraUtxosResponse = asArray(
+  asObject({
+    txid: asString,
+    vout: asNumber,
+    value: asNumber,
+    status: asEsploraStatus
+  })
+)
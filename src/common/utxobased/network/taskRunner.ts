@@ -0,0 +1,100 @@
+import { EdgeLog } from 'edge-core-js/types'
+
+import { BlockbookTask } from './BlockBookAPI'
+import { OnQueueSpaceCB, WsTask } from './Socket'
+import { pushUpdate, removeIdFromQueue } from './socketQueue'
+
+/**
+ * Answers a Blockbook message, in Blockbook's format, for a backend which
+ * speaks another protocol.
+ */
+export type TranslateTask = (
+  method: string,
+  params: unknown
+) => Promise<unknown>
+
+interface TaskRunnerConfig {
+  uri: string
+  walletId: string
+  log: EdgeLog
+  // The number of tasks which may run at once
+  queueSize: number
+  isConnected: () => boolean
+  onQueueSpaceCB: OnQueueSpaceCB
+  translateTask: TranslateTask
+}
+
+export interface TaskRunner {
+  // Picks up tasks until the queue is full
+  wakeUp: () => void
+  stop: () => void
+  onQueueSpace: (cb: OnQueueSpaceCB) => void
+  promisifyTask: <T>(message: BlockbookTask<T>) => Promise<T>
+}
+
+/**
+ * Runs the engine's Blockbook tasks on a backend which translates them, the
+ * way a Blockbook socket submits them to its server.
+ */
+export function makeTaskRunner(config: TaskRunnerConfig): TaskRunner {
+  const { uri, walletId, log, queueSize, isConnected, translateTask } = config
+  const queueId = walletId + '==' + uri
+  let onQueueSpaceCB = config.onQueueSpaceCB
+  let runningTasks = 0
+
+  const wakeUp = (): void => {
+    pushUpdate({
+      id: queueId,
+      updateFunc: () => {
+        doWakeUp().catch(err => {
+          log.error(`wake up error from: ${err.message}`)
+        })
+      }
+    })
+  }
+
+  const hasQueueSpace = (): boolean => isConnected() && runningTasks < queueSize
+
+  const doWakeUp = async (): Promise<void> => {
+    while (hasQueueSpace()) {
+      const task = await onQueueSpaceCB(uri)
+      if (task == null) break
+      if (typeof task === 'boolean') {
+        if (task) continue
+        break
+      }
+      runTask(task)
+    }
+  }
+
+  const runTask = <T>(task: WsTask<T>): void => {
+    const { cleaner = (raw: unknown) => raw as T, deferred } = task
+    const onDone = (): void => {
+      runningTasks--
+      wakeUp()
+    }
+    runningTasks++
+    translateTask(task.method, task.params)
+      .then(raw => deferred.resolve(cleaner(raw)))
+      .catch(e => deferred.reject(e))
+      .then(onDone, onDone)
+  }
+
+  return {
+    wakeUp,
+
+    stop() {
+      removeIdFromQueue(queueId)
+    },
+
+    onQueueSpace(cb: OnQueueSpaceCB): void {
+      onQueueSpaceCB = cb
+    },
+
+    async promisifyTask<T>(message: BlockbookTask<T>): Promise<T> {
+      return message.cleaner(
+        await translateTask(message.method, message.params)
+      )
+    }
+  }
+}
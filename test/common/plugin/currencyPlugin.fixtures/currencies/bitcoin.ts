@@ -19,7 +19,12 @@ export const bitcoin: FixtureType = {
     keys: { bitcoinKeyz: '12345678abcd' }
   },
   importKey: {
-    validKeys: [...mnemonics],
+    validKeys: [
+      ...mnemonics,
+      // Electrum standard and segwit seeds
+      'cycle rocket west magnet parrot shuffle foot correct salt library feed song',
+      'bitter grass shiver impose acquire brush forget axis eager alone wine silver'
+    ],
     invalidKeys: [
       ...airbitzSeeds.map(seed => seed.slice(1)),
       ...mnemonics.map(mnemonic => mnemonic.split(' ').slice(1).join(' ')),
@@ -192,3 +192,71 @@ describe('currencyPlugins.spec', () => {
     })
   }
 })
+
+describe('importPrivateKey seed types', () => {
+  // A phrase with both a valid BIP39 checksum and an Electrum version prefix
+  const ambiguousSeed =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon mass'
+  const electrumSeed =
+    'cycle rocket west magnet parrot shuffle foot correct salt library feed song'
+
+  let tools: EdgeCurrencyTools
+  let plugin: EdgeCurrencyPlugin
+
+  before('Plugin', async function () {
+    const fakeIo = makeFakeIo()
+    const factory = edgeCorePlugins.bitcoin
+    if (typeof factory !== 'function') throw new TypeError('Bad plugin')
+    plugin = factory({
+      initOptions: {},
+      io: fakeIo,
+      log: testLog,
+      nativeIo: {},
+      pluginDisklet: fakeIo.disklet
+    }) as EdgeCurrencyPlugin
+    tools = await plugin.makeCurrencyTools()
+  })
+
+  it('Rejects ambiguous seeds without a seed type', async function () {
+    if (tools.importPrivateKey == null) return
+    await assert.isRejected(
+      tools.importPrivateKey(ambiguousSeed),
+      /Ambiguous seed/
+    )
+    assert.throws(
+      () => plugin.otherMethods?.getMasterFingerprint(ambiguousSeed),
+      /Ambiguous seed/
+    )
+  })
+
+  it('Imports ambiguous seeds of the given seed type', async function () {
+    if (tools.importPrivateKey == null) return
+    const bip39Keys = await tools.importPrivateKey(ambiguousSeed, {
+      seedType: 'bip39'
+    })
+    assert.equal(bip39Keys.seedType, undefined)
+    assert.equal(bip39Keys.format, 'bip49')
+
+    const electrumKeys = await tools.importPrivateKey(ambiguousSeed, {
+      seedType: 'electrum'
+    })
+    assert.equal(electrumKeys.seedType, 'electrum')
+    assert.equal(electrumKeys.format, 'bip44')
+    assert.equal(electrumKeys.derivationPath, 'm')
+  })
+
+  it('Rejects seeds of another seed type', async function () {
+    if (tools.importPrivateKey == null) return
+    await assert.isRejected(
+      tools.importPrivateKey(electrumSeed, { seedType: 'bip39' }),
+      /Invalid mnemonic/
+    )
+    await assert.isRejected(
+      tools.importPrivateKey(
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+        { seedType: 'electrum' }
+      ),
+      /Invalid Electrum seed/
+    )
+  })
+})
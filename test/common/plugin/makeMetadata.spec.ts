@@ -48,4 +48,46 @@ describe('makeMetadata', () => {
       metadata.state.lastSeenBlockHeight.should.eql(10)
     })
   })
+
+  describe('frozen utxos', () => {
+    it('should freeze and unfreeze utxos', async () => {
+      metadata.state.frozenUtxoIds.should.eql([])
+
+      await metadata.freezeUtxos(['txid1_0', 'txid2_1'])
+      await metadata.freezeUtxos(['txid1_0'])
+      metadata.state.frozenUtxoIds.should.eql(['txid1_0', 'txid2_1'])
+
+      await metadata.unfreezeUtxos(['txid1_0'])
+      metadata.state.frozenUtxoIds.should.eql(['txid2_1'])
+    })
+
+    it('should keep frozen utxos when cleared', async function () {
+      this.timeout(3000)
+
+      await metadata.clear()
+      metadata.state.frozenUtxoIds.should.eql(['txid2_1'])
+
+      // Memlet writes to the disklet in the background
+      await wait(1)
+      const reloaded = await makeMetadata({ disklet, emitter, log })
+      reloaded.state.frozenUtxoIds.should.eql(['txid2_1'])
+    })
+  })
+
+  describe('sync checkpoint', () => {
+    it('should keep the checkpoint until cleared', async function () {
+      this.timeout(3000)
+
+      metadata.state.syncCheckpoint.should.eql(0)
+
+      await metadata.setSyncCheckpoint(100)
+      // Memlet writes to the disklet in the background
+      await wait(1)
+      const reloaded = await makeMetadata({ disklet, emitter, log })
+      reloaded.state.syncCheckpoint.should.eql(100)
+
+      await metadata.clear()
+      metadata.state.syncCheckpoint.should.eql(0)
+    })
+  })
 })
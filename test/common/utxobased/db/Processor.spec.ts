@@ -813,4 +813,175 @@ describe('Processor transactions tests', () => {
     expect(txsByBlockHeight3.length).to.be.equals(2)
     expect(txsByBlockHeight3[0]?.blockHeight).to.be.equals(10)
   })
+
+  it('remove transaction from transaction baselets', async () => {
+    const storage = {}
+    const disklet = makeMemoryDisklet(storage)
+    const processor = await makeProcessor({ disklet })
+
+    const input1: ITransactionInput = {
+      txId: 'random',
+      outputIndex: 0,
+      scriptPubkey: 'pubkeyin1',
+      n: 0,
+      amount: '1'
+    }
+    const output1: ITransactionOutput = {
+      amount: '1',
+      n: 0,
+      scriptPubkey: 'pubkeyout1'
+    }
+    const transaction1: IProcessorTransaction = {
+      txid: 'transaction1',
+      hex: '',
+      blockHeight: 1,
+      date: unixTime(new Date(10_000).getTime()),
+      fees: '1',
+      inputs: [input1],
+      outputs: [output1],
+      ourIns: [],
+      ourOuts: [],
+      ourAmount: '0'
+    }
+    const transaction2: IProcessorTransaction = {
+      txid: 'transaction2',
+      hex: '',
+      blockHeight: 0,
+      date: unixTime(new Date(20_000).getTime()),
+      fees: '1',
+      inputs: [input1],
+      outputs: [output1],
+      ourIns: [],
+      ourOuts: [],
+      ourAmount: '0'
+    }
+
+    await processor.saveTransaction({ tx: transaction1 })
+    await processor.saveTransaction({ tx: transaction2 })
+    assertNumTransactions(2, processor)
+
+    await processor.removeTransaction(transaction2.txid)
+    assertNumTransactions(1, processor)
+
+    const [tx2] = await processor.fetchTransactions({ txId: transaction2.txid })
+    expect(tx2).to.be.undefined
+    const unconfirmedTxs = await processor.fetchTransactions({
+      blockHeight: 0
+    })
+    expect(unconfirmedTxs.length).to.be.equals(0)
+    const txsByDate = await processor.fetchTransactions({ options: {} })
+    expect(txsByDate.length).to.be.equals(1)
+    expect(txsByDate[0]?.txid).to.be.equals(transaction1.txid)
+
+    // removing an unknown transaction is a no-op
+    await processor.removeTransaction('unknown')
+    assertNumTransactions(1, processor)
+  })
+
+  it('keep the replaced transaction link when the server updates it', async () => {
+    const storage = {}
+    const disklet = makeMemoryDisklet(storage)
+    const processor = await makeProcessor({ disklet })
+
+    const input1: ITransactionInput = {
+      txId: 'random',
+      outputIndex: 0,
+      scriptPubkey: 'pubkeyin1',
+      n: 0,
+      amount: '1'
+    }
+    const output1: ITransactionOutput = {
+      amount: '1',
+      n: 0,
+      scriptPubkey: 'pubkeyout1'
+    }
+    const cancelTransaction: IProcessorTransaction = {
+      txid: 'cancel',
+      hex: '',
+      blockHeight: 0,
+      date: unixTime(new Date(10_000).getTime()),
+      fees: '1',
+      inputs: [input1],
+      outputs: [output1],
+      ourIns: [],
+      ourOuts: [],
+      ourAmount: '0',
+      replacedTxid: 'original'
+    }
+
+    await processor.saveTransaction({ tx: cancelTransaction })
+    // Transactions from the server have no link
+    await processor.saveTransaction({
+      tx: { ...cancelTransaction, blockHeight: 10, replacedTxid: undefined }
+    })
+
+    const [tx] = await processor.fetchTransactions({ txId: 'cancel' })
+    expect(tx?.blockHeight).to.be.equals(10)
+    expect(tx?.replacedTxid).to.be.equals('original')
+  })
+  it('drop transaction from transaction baselets', async () => {
+    const storage = {}
+    const disklet = makeMemoryDisklet(storage)
+    const processor = await makeProcessor({ disklet })
+
+    const input1: ITransactionInput = {
+      txId: 'random',
+      outputIndex: 0,
+      scriptPubkey: 'pubkeyin1',
+      n: 0,
+      amount: '1'
+    }
+    const output1: ITransactionOutput = {
+      amount: '1',
+      n: 0,
+      scriptPubkey: 'pubkeyout1'
+    }
+    const transaction1: IProcessorTransaction = {
+      txid: 'transaction1',
+      hex: '',
+      blockHeight: 0,
+      date: unixTime(new Date(10_000).getTime()),
+      fees: '1',
+      inputs: [input1],
+      outputs: [output1],
+      ourIns: [],
+      ourOuts: [],
+      ourAmount: '0'
+    }
+
+    await processor.saveTransaction({ tx: transaction1 })
+    const droppedTx = await processor.dropTransaction(transaction1.txid)
+    expect(droppedTx?.confirmations).to.be.equals('dropped')
+
+    // dropped transactions stay in the history, but not as unconfirmed
+    assertNumTransactions(1, processor)
+    const [tx1] = await processor.fetchTransactions({ txId: 'transaction1' })
+    expect(tx1?.confirmations).to.be.equals('dropped')
+    const unconfirmedTxs = await processor.fetchTransactions({
+      blockHeight: 0
+    })
+    expect(unconfirmedTxs.length).to.be.equals(0)
+    const txsByDate = await processor.fetchTransactions({ options: {} })
+    expect(txsByDate.length).to.be.equals(1)
+
+    // saving the dropped transaction keeps it dropped
+    await processor.saveTransaction({ tx: droppedTx as IProcessorTransaction })
+    const stillUnconfirmedTxs = await processor.fetchTransactions({
+      blockHeight: 0
+    })
+    expect(stillUnconfirmedTxs.length).to.be.equals(0)
+
+    // the server knowing the transaction again restores it
+    await processor.saveTransaction({
+      tx: { ...transaction1, blockHeight: 10 }
+    })
+    const [restoredTx] = await processor.fetchTransactions({
+      blockHeight: 10
+    })
+    expect(restoredTx?.txid).to.be.equals(transaction1.txid)
+    expect(restoredTx?.confirmations).to.be.undefined
+
+    await processor.removeTransaction(transaction1.txid)
+    assertNumTransactions(0, processor)
+  })
 })
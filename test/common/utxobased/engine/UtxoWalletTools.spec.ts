@@ -34,6 +34,121 @@ describe('wallet tools tests', () => {
       'a9143fb6e95812e57bb4691f9a4a628862a61a4f769b87'
     )
   })
+  it('Saves paths of account 0 as they are', () => {
+    const path = { format: 'bip84', changeIndex: 0, addressIndex: 0 } as const
+    expect(walletTools.withAccount(path)).to.eqls(path)
+  })
+})
+
+describe('wallet tools account tests', () => {
+  // The BIP84 vector mnemonic at m/84'/0'/1'
+  const walletTools = makeUtxoWalletTools({
+    pluginInfo,
+    publicKey: {
+      publicKeys: {
+        bip84:
+          'zpub6rFR7y4Q2AijF6Gk1bofHLs1d66hKFamhXWdWBup1Em25wfabZqkDqvaieV63fDQFaYmaatCG7jVNUpUiM2hAMo6SAVHcrUpSnHDpNzucB7'
+      },
+      account: 1
+    }
+  })
+  const path = { format: 'bip84', changeIndex: 0, addressIndex: 0 } as const
+
+  it('Saves the account with paths', () => {
+    expect(walletTools.withAccount(path)).to.eqls({ ...path, account: 1 })
+  })
+  it('Derives PSBT paths from the account', () => {
+    const { path: derivationPath } = walletTools.getPsbtDerivation({
+      path: walletTools.withAccount(path),
+      masterFingerprint: '73c5da0a'
+    })
+    expect(derivationPath).to.eqls("m/84'/0'/1'/0/0")
+  })
+})
+
+describe('wallet tools multisig tests', () => {
+  const xpubs = [
+    'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8',
+    'xpub661MyMwAqRbcFW31YEwpkMuc5THy2PSt5bDMsktWQcFF8syAmRUapSCGu8ED9W6oDMSgv6Zz8idoc4a6mr8BDzTJY47LJhkJ8UB7WEGuduB',
+    'xpub661MyMwAqRbcEZVB4dScxMAdx6d4nFc9nvyvH3v4gJL378CSRZiYmhRoP7mBy6gSPSCYk6SzXPTf3ND1cZAceL7SfJ1Z3GC8vBgp2epUt13'
+  ]
+  const walletTools = makeUtxoWalletTools({
+    pluginInfo,
+    publicKey: {
+      publicKeys: {
+        bip48: xpubs[0],
+        bip48p2sh: xpubs[0]
+      },
+      multisig: {
+        cosignerXpubs: [xpubs[1], xpubs[2]],
+        threshold: 2
+      }
+    }
+  })
+
+  it('Get P2WSH address test', () => {
+    const address = walletTools.getAddress({
+      format: 'bip48',
+      changeIndex: 0,
+      addressIndex: 0
+    })
+    expect(address.address).to.eqls(
+      'bc1qu3g8nlwx7yu9l845h7mx2ka44cps4hgw47z8j9vd0j9hu8rlpu7sk94h3c'
+    )
+  })
+  it('Get P2SH-P2WSH address test', () => {
+    const address = walletTools.getAddress({
+      format: 'bip48p2sh',
+      changeIndex: 0,
+      addressIndex: 0
+    })
+    expect(address.address).to.eqls('3MoznmLaMxfm8WPSshVV1og3sJCTQacS6d')
+  })
+  it('Get sorted multisig script test', () => {
+    const { scriptPubkey, redeemScript } = walletTools.getScriptPubkey({
+      format: 'bip48',
+      changeIndex: 0,
+      addressIndex: 0
+    })
+    expect(scriptPubkey).to.eqls(
+      '0020e45079fdc6f1385f9eb4bfb6655bb5ae030add0eaf8479158d7c8b7e1c7f0f3d'
+    )
+    expect(redeemScript).to.eqls(
+      '52210205c8897fd0ff5644adba4545a84020cd6aa94d90e1e0a56bb4b8eb7522e3ef8c2102756de182c5dd4b717ea87e693006da62dbb3cddaa4a5cad2ed1f5bbab755f0f521036a31ff85f6fa98e2f35916c548fb55eb68067027c39136c7c87e980d3743e51d53ae'
+    )
+  })
+  it('Derives the same address for every cosigner', () => {
+    const cosignerTools = makeUtxoWalletTools({
+      pluginInfo,
+      publicKey: {
+        publicKeys: { bip48: xpubs[2] },
+        multisig: {
+          cosignerXpubs: [xpubs[1], xpubs[0]],
+          threshold: 2
+        }
+      }
+    })
+    const path = { format: 'bip48', changeIndex: 0, addressIndex: 0 } as const
+    expect(cosignerTools.getAddress(path)).to.eqls(walletTools.getAddress(path))
+  })
+  it('Accepts SLIP-132 cosigner xpubs', () => {
+    const slip132Tools = makeUtxoWalletTools({
+      pluginInfo,
+      publicKey: {
+        publicKeys: { bip48: xpubs[0] },
+        multisig: {
+          // xpubs[1] as a Zpub and xpubs[2] as a Ypub
+          cosignerXpubs: [
+            'Zpub6vZyhw1ShkEwNfad9cz3zcSR9Bd87z7UE5uUMowpYPqQsGAY39Bz9gNUkF6rhkdYG6kHHdmDwFjQVoQzWU79xwwB7CcasvrGZeaGsE5JMmK',
+            'Ypub6bjiQGLXZ4hTWRqfqehDzWbwqromwEHF2K9oyi5VS5YKnQaaSdGPUswsD2gFXSZG2YPLNA3fsGCi3pSLdUjab3uiN6pP2aUd5e2L1AqtMbn'
+          ],
+          threshold: 2
+        }
+      }
+    })
+    const path = { format: 'bip48', changeIndex: 0, addressIndex: 0 } as const
+    expect(slip132Tools.getAddress(path)).to.eqls(walletTools.getAddress(path))
+  })
 })
 
 describe('wallet tools wif test', () => {
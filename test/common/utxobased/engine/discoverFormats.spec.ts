@@ -0,0 +1,160 @@
+import { expect } from 'chai'
+import { makeMemoryDisklet } from 'disklet'
+import { EdgeFetchFunction } from 'edge-core-js/types'
+import { describe, it } from 'mocha'
+
+import { makeCurrencyTools } from '../../../../src/common/plugin/makeCurrencyTools'
+import { makePluginState } from '../../../../src/common/plugin/pluginState'
+import {
+  discoverFormats,
+  FormatDiscovery,
+  pickDiscoveredFormats
+} from '../../../../src/common/utxobased/engine/discoverFormats'
+import { info as pluginInfo } from '../../../../src/common/utxobased/info/bitcoin'
+import { asNumbWalletInfo } from '../../../../src/common/utxobased/keymanager/cleaners'
+import { makeFakeIo, makeFakeLog } from '../../../utils'
+
+describe('format discovery tests', () => {
+  const unused: FormatDiscovery = {
+    format: 'bip44',
+    privateKeyFormat: 'bip44',
+    account: 0,
+    balance: '0',
+    txs: 0
+  }
+  const emptied: FormatDiscovery = {
+    format: 'bip49',
+    privateKeyFormat: 'bip49',
+    account: 0,
+    balance: '0',
+    txs: 12
+  }
+  const funded: FormatDiscovery = {
+    format: 'bip84',
+    privateKeyFormat: 'bip49',
+    account: 1,
+    balance: '25000',
+    txs: 2
+  }
+
+  it('Picks nothing without history', () => {
+    expect(pickDiscoveredFormats([unused])).to.deep.equal([])
+  })
+  it('Picks the most transactions without funds first', () => {
+    const fewer = { ...emptied, format: 'bip86' as const, txs: 3 }
+    expect(pickDiscoveredFormats([unused, fewer, emptied])).to.deep.equal([
+      emptied,
+      fewer
+    ])
+  })
+  it('Picks the most funds first', () => {
+    expect(pickDiscoveredFormats([emptied, funded, unused])).to.deep.equal([
+      funded,
+      emptied
+    ])
+  })
+})
+
+describe('format discovery tests with dummy server', function () {
+  this.timeout(10000)
+  const baseUri = 'https://esplora.example.com/api'
+  const seed =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+  // The first receive addresses of account 0 of the seed
+  const funds: { [address: string]: number } = {
+    // bip84
+    bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu: 50000,
+    // bip44
+    '1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA': 1000
+  }
+
+  const respond = (path: string): unknown => {
+    if (path === '/blocks/tip/height') return 700000
+    const [, address] = /^\/address\/(\w+)$/.exec(path) ?? []
+    if (address == null) return
+    const funded = funds[address] ?? 0
+    return {
+      chain_stats: {
+        funded_txo_sum: funded,
+        spent_txo_sum: 0,
+        tx_count: funded > 0 ? 1 : 0
+      },
+      mempool_stats: { funded_txo_sum: 0, spent_txo_sum: 0, tx_count: 0 }
+    }
+  }
+
+  // The info server is down, so the built-in servers are used
+  const fakeFetch: EdgeFetchFunction = async (uri, opts) => {
+    const response = await makeFakeIo().fetch(uri, opts)
+    const body = uri.startsWith(baseUri)
+      ? respond(uri.slice(baseUri.length))
+      : undefined
+    const status = body == null ? 404 : 200
+    return {
+      ...response,
+      ok: status === 200,
+      status,
+      async json(): Promise<unknown> {
+        return body
+      },
+      async text(): Promise<string> {
+        return typeof body === 'string' ? body : JSON.stringify(body)
+      }
+    }
+  }
+
+  const io = { ...makeFakeIo(), fetch: fakeFetch }
+  const log = makeFakeLog()
+  const makeTestPluginState = (): ReturnType<typeof makePluginState> =>
+    makePluginState({
+      io,
+      defaultSettings: {
+        blockbookServers: [baseUri],
+        enableCustomServers: false
+      },
+      currencyCode: pluginInfo.currencyInfo.currencyCode,
+      pluginId: pluginInfo.currencyInfo.pluginId,
+      pluginDisklet: makeMemoryDisklet(),
+      log
+    })
+
+  it('Reports the history of each format from an Esplora server', async () => {
+    const discoveries = await discoverFormats({
+      pluginInfo,
+      pluginState: makeTestPluginState(),
+      io,
+      log,
+      seed
+    })
+    expect(
+      pickDiscoveredFormats(discoveries).map(({ format, balance, txs }) => ({
+        format,
+        balance,
+        txs
+      }))
+    ).to.deep.equal([
+      { format: 'bip84', balance: '50000', txs: 1 },
+      { format: 'bip44', balance: '1000', txs: 1 }
+    ])
+  })
+
+  it('Imports a seed with every format it has history with', async () => {
+    const tools = makeCurrencyTools(io, pluginInfo, makeTestPluginState(), log)
+    if (tools.importPrivateKey == null) return
+    const keys = await tools.importPrivateKey(seed, { discoverFormats: true })
+    expect(keys.format).to.equal('bip49')
+    expect(keys.account).to.equal(0)
+    expect(keys.walletFormats).to.deep.equal(['bip44'])
+
+    const { walletFormats, publicKey } = asNumbWalletInfo(pluginInfo)({
+      id: 'walletId',
+      type: 'wallet:bitcoin',
+      keys
+    }).keys
+    expect(walletFormats).to.deep.equal(['bip49', 'bip84', 'bip44'])
+    expect(publicKey.publicKeys.bip44).to.equal(
+      'xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj'
+    )
+  })
+})
@@ -0,0 +1,739 @@
+import { expect } from 'chai'
+import { makeMemoryDisklet } from 'disklet'
+import { EdgeTransaction, makeFakeIo } from 'edge-core-js'
+import { describe, it } from 'mocha'
+
+import {
+  EngineEmitter,
+  EngineEvent
+} from '../../../../src/common/plugin/makeEngineEmitter'
+import {
+  makeMetadata,
+  Metadata
+} from '../../../../src/common/plugin/makeMetadata'
+import { makePluginState } from '../../../../src/common/plugin/pluginState'
+import { AddressPath } from '../../../../src/common/plugin/types'
+import {
+  makeProcessor,
+  Processor
+} from '../../../../src/common/utxobased/db/makeProcessor'
+import {
+  IProcessorTransaction,
+  IUTXO,
+  makeIAddress
+} from '../../../../src/common/utxobased/db/types'
+import AwaitLock from '../../../../src/common/utxobased/engine/await-lock'
+import { DROPPED_TX_MIN_AGE } from '../../../../src/common/utxobased/engine/constants'
+import { makeServerStates } from '../../../../src/common/utxobased/engine/makeServerStates'
+import {
+  checkDroppedTransaction,
+  dropConflictingTransactions,
+  dropTransaction,
+  getBirthdayHeight,
+  makeSyncCheckpoint,
+  processXpubTransactions,
+  processXpubUtxos
+} from '../../../../src/common/utxobased/engine/makeUtxoEngineState'
+import { makeUtxoWalletTools } from '../../../../src/common/utxobased/engine/makeUtxoWalletTools'
+import { asUtxoUserSettings } from '../../../../src/common/utxobased/engine/types'
+import { info as pluginInfo } from '../../../../src/common/utxobased/info/bitcoin'
+import { NumbWalletInfo } from '../../../../src/common/utxobased/keymanager/cleaners'
+import { ScriptTypeEnum } from '../../../../src/common/utxobased/keymanager/keymanager'
+import {
+  BlockbookTransaction,
+  XpubResponse,
+  XpubToken
+} from '../../../../src/common/utxobased/network/BlockBookAPI'
+import { unixTime } from '../../../../src/util/unixTime'
+import { noOp, testLog } from '../../../util/testLog'
+
+const zpub =
+  'zpub6qmK2GdQoxXphTU8DjQNBFc9xKc3XnoNBUhKHKfKchMmVLENqeVn8GcwL9ThKYme2Qqnvq8RSrJh2PkpPGhy5rXmizkRBZ7naCd33hHSpaN'
+const walletInfo: NumbWalletInfo = {
+  id: 'walletId',
+  type: 'wallet:bitcoin',
+  keys: {
+    privateKeyFormat: 'bip84',
+    publicKey: { publicKeys: { bip84: zpub } },
+    walletFormats: ['bip84']
+  }
+}
+const walletTools = makeUtxoWalletTools({
+  pluginInfo,
+  publicKey: walletInfo.keys.publicKey
+})
+
+type CommonArgs = Omit<Parameters<typeof dropTransaction>[0], 'tx'>
+
+const makeCommonArgs = (
+  processor: Processor,
+  emitter: EngineEmitter
+): CommonArgs => {
+  const io = makeFakeIo()
+  const { currencyInfo } = pluginInfo
+  const pluginState = makePluginState({
+    io,
+    defaultSettings: asUtxoUserSettings(currencyInfo.defaultSettings),
+    currencyCode: currencyInfo.currencyCode,
+    pluginId: currencyInfo.pluginId,
+    pluginDisklet: makeMemoryDisklet(),
+    log: testLog
+  })
+  const serverStates = makeServerStates({
+    engineEmitter: emitter,
+    io,
+    log: testLog,
+    pluginInfo,
+    pluginState,
+    walletInfo,
+    getBirthdayHeight: async () => 0
+  })
+
+  return {
+    pluginInfo,
+    walletInfo,
+    walletTools,
+    processor,
+    emitter,
+    taskCache: {
+      blockWatching: false,
+      addressSubscribeCache: {},
+      addressTransactionCache: {},
+      addressUtxoCache: {},
+      rawUtxoCache: {},
+      processorUtxoCache: {},
+      updateTransactionCache: {},
+      updateTransactionSpecificCache: {},
+      missingTransactionCache: {},
+      xpubTransactionCache: {},
+      xpubUtxoCache: {}
+    },
+    updateProgressRatio: noOp,
+    io,
+    log: testLog,
+    serverStates,
+    pluginState,
+    // No look ahead addresses to derive
+    walletFormats: [],
+    lock: new AwaitLock()
+  }
+}
+
+describe('dropped transaction tests', () => {
+  const path: AddressPath = { format: 'bip84', changeIndex: 0, addressIndex: 0 }
+  const { scriptPubkey } = walletTools.getScriptPubkey(path)
+  const { address } = walletTools.scriptPubkeyToAddress({
+    changePath: path,
+    scriptPubkey
+  })
+
+  // Old enough for the servers to have seen the transactions
+  const date = unixTime(Date.now()) - DROPPED_TX_MIN_AGE - 1
+
+  const makeTx = (
+    txid: string,
+    blockHeight: number,
+    spends: Array<[string, number, string]>,
+    amount: string
+  ): IProcessorTransaction => ({
+    txid,
+    hex: '',
+    blockHeight,
+    date,
+    fees: '100',
+    inputs: spends.map(([txId, outputIndex, amount], n) => ({
+      txId,
+      outputIndex,
+      scriptPubkey,
+      n,
+      amount
+    })),
+    outputs: [{ amount, scriptPubkey, n: 0 }],
+    ourIns: spends.map((_, n) => n.toString()),
+    ourOuts: ['0'],
+    ourAmount: amount
+  })
+  const makeUtxo = (tx: IProcessorTransaction, spent: boolean): IUTXO => ({
+    id: `${tx.txid}_0`,
+    txid: tx.txid,
+    vout: 0,
+    value: tx.outputs[0].amount,
+    scriptPubkey,
+    script: '',
+    scriptType: ScriptTypeEnum.p2wpkh,
+    blockHeight: tx.blockHeight,
+    spent
+  })
+
+  // A confirmed parent, an unconfirmed spend of it and a child of that spend
+  const parentTx = makeTx('parent', 100, [], '1000')
+  const spendTx = makeTx('spend', 0, [['parent', 0, '1000']], '900')
+  const childTx = makeTx('child', 0, [['spend', 0, '900']], '800')
+
+  interface Fixtures {
+    args: CommonArgs
+    processor: Processor
+    changedTxs: EdgeTransaction[]
+  }
+
+  const makeFixtures = async (): Promise<Fixtures> => {
+    const processor = await makeProcessor({ disklet: makeMemoryDisklet() })
+    await processor.saveAddress(
+      makeIAddress({ scriptPubkey, path, balance: '800', used: true })
+    )
+    for (const tx of [parentTx, spendTx, childTx]) {
+      await processor.saveTransaction({ tx })
+    }
+    await processor.saveUtxo(makeUtxo(parentTx, true))
+    await processor.saveUtxo(makeUtxo(spendTx, true))
+    await processor.saveUtxo(makeUtxo(childTx, false))
+
+    const changedTxs: EdgeTransaction[] = []
+    const emitter = new EngineEmitter()
+    emitter.on(EngineEvent.TRANSACTIONS_CHANGED, txs => {
+      changedTxs.push(...txs)
+    })
+
+    const args = makeCommonArgs(processor, emitter)
+    return { args, processor, changedTxs }
+  }
+
+  const fetchUtxoIds = async (processor: Processor): Promise<string[]> =>
+    (await processor.fetchUtxos({ scriptPubkey }))
+      .filter((utxo): utxo is IUTXO => utxo != null && !utxo.spent)
+      .map(utxo => utxo.id)
+
+  it('drops a transaction and its descendants', async () => {
+    const { args, processor, changedTxs } = await makeFixtures()
+
+    await dropTransaction({ ...args, tx: spendTx })
+
+    // The transactions stay in the history, marked as dropped
+    const [spend] = await processor.fetchTransactions({ txId: 'spend' })
+    const [child] = await processor.fetchTransactions({ txId: 'child' })
+    expect(spend?.confirmations).to.equal('dropped')
+    expect(child?.confirmations).to.equal('dropped')
+    expect(await processor.fetchTransactions({ blockHeight: 0 })).to.deep.equal(
+      []
+    )
+    expect(changedTxs.map(tx => [tx.txid, tx.confirmations])).to.deep.equal([
+      ['child', 'dropped'],
+      ['spend', 'dropped']
+    ])
+
+    // The parent output is spendable again
+    expect(await fetchUtxoIds(processor)).to.deep.equal(['parent_0'])
+    const savedAddress = await processor.fetchAddress(scriptPubkey)
+    expect(savedAddress?.balance).to.equal('1000')
+    expect(args.taskCache.addressUtxoCache[address]).to.deep.equal({
+      processing: false,
+      path: { format: 'bip84', changeIndex: 0 }
+    })
+
+    // Dropping again changes nothing
+    await dropTransaction({ ...args, tx: spendTx })
+    expect(changedTxs.length).to.equal(2)
+  })
+
+  it('drops transactions which stay missing', async () => {
+    const { args, processor } = await makeFixtures()
+    const { missingTransactionCache } = args.taskCache
+
+    // Servers may briefly miss a transaction
+    expect(await checkDroppedTransaction({ ...args, txId: 'spend' })).to.equal(
+      false
+    )
+    expect(await checkDroppedTransaction({ ...args, txId: 'spend' })).to.equal(
+      false
+    )
+    expect(missingTransactionCache.spend).to.equal(2)
+    expect(await checkDroppedTransaction({ ...args, txId: 'spend' })).to.equal(
+      true
+    )
+    expect(missingTransactionCache.spend).to.equal(undefined)
+    const [spend] = await processor.fetchTransactions({ txId: 'spend' })
+    expect(spend?.confirmations).to.equal('dropped')
+
+    // Confirmed transactions are never dropped
+    for (let i = 0; i < 3; ++i) {
+      expect(
+        await checkDroppedTransaction({ ...args, txId: 'parent' })
+      ).to.equal(false)
+    }
+    const [parent] = await processor.fetchTransactions({ txId: 'parent' })
+    expect(parent?.confirmations).to.equal(undefined)
+
+    // Unknown transactions need no updates
+    expect(
+      await checkDroppedTransaction({ ...args, txId: 'unknown' })
+    ).to.equal(true)
+  })
+
+  it('keeps recently broadcast transactions', async () => {
+    const { args, processor } = await makeFixtures()
+    await processor.saveTransaction({
+      tx: { ...makeTx('recent', 0, [], '500'), date: unixTime(Date.now()) }
+    })
+
+    for (let i = 0; i < 3; ++i) {
+      expect(
+        await checkDroppedTransaction({ ...args, txId: 'recent' })
+      ).to.equal(false)
+    }
+    const [recent] = await processor.fetchTransactions({ txId: 'recent' })
+    expect(recent?.confirmations).to.equal(undefined)
+  })
+
+  it('drops transactions conflicting with a confirmed one', async () => {
+    const { args, processor } = await makeFixtures()
+    const replacementTx = await processor.saveTransaction({
+      tx: makeTx('replacement', 101, [['parent', 0, '1000']], '700')
+    })
+    await processor.saveUtxo(makeUtxo(replacementTx, false))
+
+    await dropConflictingTransactions({ ...args, tx: replacementTx })
+
+    const [spend] = await processor.fetchTransactions({ txId: 'spend' })
+    const [child] = await processor.fetchTransactions({ txId: 'child' })
+    expect(spend?.confirmations).to.equal('dropped')
+    expect(child?.confirmations).to.equal('dropped')
+
+    // The replacement spent the parent output, so it isn't restored
+    expect(await fetchUtxoIds(processor)).to.deep.equal(['replacement_0'])
+  })
+
+  it('keeps newer unconfirmed replacements', async () => {
+    const { args, processor } = await makeFixtures()
+    const staleTx = await processor.saveTransaction({
+      tx: {
+        ...makeTx('stale', 0, [['parent', 0, '1000']], '950'),
+        date: date - 1
+      }
+    })
+
+    await dropConflictingTransactions({ ...args, tx: staleTx })
+
+    const [spend] = await processor.fetchTransactions({ txId: 'spend' })
+    expect(spend?.confirmations).to.equal(undefined)
+  })
+
+  it('drops the transaction a confirmed fee bump replaced', async () => {
+    const { args, processor } = await makeFixtures()
+    // The fee bump spends a different output than the replaced transaction
+    const bumpTx = await processor.saveTransaction({
+      tx: {
+        ...makeTx('bump', 101, [['other', 0, '2000']], '1900'),
+        replacedTxid: 'spend'
+      }
+    })
+
+    await dropConflictingTransactions({ ...args, tx: bumpTx })
+
+    const [spend] = await processor.fetchTransactions({ txId: 'spend' })
+    expect(spend?.confirmations).to.equal('dropped')
+  })
+})
+
+describe('xpub sync tests', () => {
+  const uri = 'wss://blockbook.example.com'
+
+  const getAddress = (
+    changeIndex: number,
+    addressIndex: number
+  ): { address: string; scriptPubkey: string } => {
+    const path: AddressPath = { format: 'bip84', changeIndex, addressIndex }
+    const { scriptPubkey } = walletTools.getScriptPubkey(path)
+    const { address } = walletTools.scriptPubkeyToAddress({
+      changePath: path,
+      scriptPubkey
+    })
+    return { address, scriptPubkey }
+  }
+  const makeToken = (
+    changeIndex: number,
+    addressIndex: number,
+    transfers: number
+  ): XpubToken => ({
+    name: getAddress(changeIndex, addressIndex).address,
+    path: `m/84'/0'/0'/${changeIndex}/${addressIndex}`,
+    transfers
+  })
+  const makeXpubResponse = (
+    tokens: XpubToken[],
+    transactions: BlockbookTransaction[] = []
+  ): XpubResponse => ({
+    address: zpub,
+    balance: '1000',
+    txs: transactions.length,
+    unconfirmedBalance: '0',
+    unconfirmedTxs: 0,
+    transactions,
+    tokens,
+    page: 1,
+    totalPages: 1,
+    itemsOnPage: transactions.length
+  })
+
+  // A transaction paying the second receive address
+  const receiveTx: BlockbookTransaction = {
+    txid: 'receive',
+    hex: '',
+    blockHeight: 90,
+    confirmations: 11,
+    blockTime: 1600000000,
+    fees: '100',
+    vin: [],
+    vout: [
+      {
+        n: 0,
+        value: '1000',
+        addresses: [getAddress(0, 1).address],
+        hex: getAddress(0, 1).scriptPubkey
+      }
+    ]
+  }
+
+  // The server is at a height of 100, and isn't one with a score to keep
+  const makeArgs = async (): Promise<CommonArgs> => {
+    const processor = await makeProcessor({ disklet: makeMemoryDisklet() })
+    const args = makeCommonArgs(processor, new EngineEmitter())
+    return {
+      ...args,
+      serverStates: { ...args.serverStates, getBlockHeight: () => 100 },
+      pluginState: { ...args.pluginState, serverScoreUp: noOp }
+    }
+  }
+
+  // The engine processes the responses of tasks in the background, and
+  // updates the task cache last
+  const waitFor = async (isDone: () => boolean): Promise<void> => {
+    for (let i = 0; i < 500 && !isDone(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+  }
+
+  const makeTransactionState = (
+    from: number
+  ): Parameters<typeof processXpubTransactions>[0]['xpubTransactionState'] => ({
+    processing: true,
+    format: 'bip84',
+    descriptor: zpub,
+    page: 1,
+    from,
+    blockHeight: 0,
+    addresses: []
+  })
+
+  it('queries the derived addresses of an account with the gap limit', async () => {
+    const args = await makeArgs()
+    const task = await processXpubTransactions({
+      ...args,
+      uri,
+      needsTxSpecific: false,
+      xpubTransactionState: makeTransactionState(0)
+    })
+    expect(task.method).to.equal('getAccountInfo')
+    expect(task.params).to.deep.include({
+      descriptor: zpub,
+      details: 'txs',
+      tokens: 'derived',
+      gap: pluginInfo.engineInfo.gapLimit,
+      page: 1
+    })
+  })
+
+  it('queries the history of an account after the sync checkpoint', async () => {
+    const args = await makeArgs()
+    const task = await processXpubTransactions({
+      ...args,
+      uri,
+      needsTxSpecific: false,
+      xpubTransactionState: makeTransactionState(50)
+    })
+    expect(task.params).to.deep.include({ descriptor: zpub, from: 50 })
+  })
+
+  // The second receive address is used, and was last queried at the given
+  // height
+  const processHistoryAfter = async (
+    lastQueriedBlockHeight: number
+  ): Promise<CommonArgs> => {
+    const args = await makeArgs()
+    for (let addressIndex = 0; addressIndex < 2; addressIndex++) {
+      const { scriptPubkey } = getAddress(0, addressIndex)
+      const path: AddressPath = {
+        format: 'bip84',
+        changeIndex: 0,
+        addressIndex
+      }
+      await args.processor.saveAddress(
+        makeIAddress({
+          scriptPubkey,
+          path,
+          used: addressIndex === 1,
+          lastQueriedBlockHeight
+        })
+      )
+    }
+    const task = await processXpubTransactions({
+      ...args,
+      uri,
+      needsTxSpecific: false,
+      xpubTransactionState: makeTransactionState(50)
+    })
+    task.deferred.resolve(
+      makeXpubResponse([makeToken(0, 0, 0), makeToken(0, 1, 1)], [receiveTx])
+    )
+    const { xpubTransactionCache, xpubUtxoCache } = args.taskCache
+    await waitFor(
+      () => xpubTransactionCache.bip84 != null || xpubUtxoCache.bip84 != null
+    )
+    return args
+  }
+
+  it('queries the whole history of an account the last sync missed', async () => {
+    const { processor, taskCache } = await processHistoryAfter(40)
+
+    // The account is queried again from the start
+    expect(taskCache.xpubTransactionCache.bip84).to.deep.equal({
+      ...makeTransactionState(50),
+      processing: false,
+      from: 0
+    })
+    expect(taskCache.xpubUtxoCache.bip84).to.equal(undefined)
+    const [tx] = await processor.fetchTransactions({ txId: 'receive' })
+    expect(tx).to.equal(undefined)
+  })
+
+  it('keeps to the history after the checkpoint of synced accounts', async () => {
+    const { processor, taskCache } = await processHistoryAfter(60)
+
+    expect(taskCache.xpubTransactionCache.bip84).to.equal(undefined)
+    expect(taskCache.xpubUtxoCache.bip84).to.not.equal(undefined)
+    const [tx] = await processor.fetchTransactions({ txId: 'receive' })
+    expect(tx?.ourAmount).to.equal('1000')
+  })
+
+  it('saves the used addresses and transactions of an account', async () => {
+    const args = await makeArgs()
+    const { processor, taskCache } = args
+    const tokens = [
+      makeToken(0, 0, 0),
+      makeToken(0, 1, 1),
+      makeToken(0, 2, 0),
+      makeToken(1, 0, 2)
+    ]
+    const task = await processXpubTransactions({
+      ...args,
+      uri,
+      needsTxSpecific: false,
+      xpubTransactionState: makeTransactionState(0)
+    })
+    task.deferred.resolve(makeXpubResponse(tokens, [receiveTx]))
+    await waitFor(() => taskCache.xpubUtxoCache.bip84 != null)
+
+    // The addresses up to the last used one of each branch are saved
+    const fetchUsed = async (
+      changeIndex: number,
+      addressIndex: number
+    ): Promise<boolean | undefined> =>
+      (
+        await processor.fetchAddress(
+          getAddress(changeIndex, addressIndex).scriptPubkey
+        )
+      )?.used
+    expect(await fetchUsed(0, 0)).to.equal(false)
+    expect(await fetchUsed(0, 1)).to.equal(true)
+    expect(await fetchUsed(0, 2)).to.equal(undefined)
+    expect(await fetchUsed(1, 0)).to.equal(true)
+    expect(Object.keys(taskCache.addressSubscribeCache)).to.have.members([
+      getAddress(0, 0).address,
+      getAddress(0, 1).address,
+      getAddress(1, 0).address
+    ])
+
+    const [tx] = await processor.fetchTransactions({ txId: 'receive' })
+    expect(tx?.ourAmount).to.equal('1000')
+
+    // The account's utxos are next, for the addresses Blockbook derived
+    expect(taskCache.xpubTransactionCache.bip84).to.equal(undefined)
+    expect(taskCache.xpubUtxoCache.bip84).to.deep.equal({
+      processing: false,
+      format: 'bip84',
+      descriptor: zpub,
+      blockHeight: 100,
+      addresses: tokens.map(token => token.name)
+    })
+  })
+
+  it('marks only the addresses Blockbook derived as synced', async () => {
+    const args = await makeArgs()
+    const { processor, taskCache } = args
+    const { addressSubscribeCache, addressUtxoCache } = taskCache
+
+    // The look ahead went one address past those Blockbook derived
+    for (let addressIndex = 0; addressIndex < 3; addressIndex++) {
+      const { address, scriptPubkey } = getAddress(0, addressIndex)
+      const path: AddressPath = {
+        format: 'bip84',
+        changeIndex: 0,
+        addressIndex
+      }
+      await processor.saveAddress(
+        makeIAddress({ scriptPubkey, path, used: addressIndex === 1 })
+      )
+      const changePath = { format: 'bip84', changeIndex: 0 } as const
+      addressSubscribeCache[address] = { processing: true, path: changePath }
+      addressUtxoCache[address] = { processing: false, path: changePath }
+    }
+    const derived = [getAddress(0, 0).address, getAddress(0, 1).address]
+    taskCache.xpubUtxoCache.bip84 = {
+      processing: true,
+      format: 'bip84',
+      descriptor: zpub,
+      blockHeight: 100,
+      addresses: derived
+    }
+
+    const task = await processXpubUtxos({
+      ...args,
+      uri,
+      xpubUtxoState: taskCache.xpubUtxoCache.bip84
+    })
+    task.deferred.resolve([
+      {
+        txid: 'receive',
+        vout: 0,
+        value: '1000',
+        height: 90,
+        confirmations: 11,
+        address: getAddress(0, 1).address,
+        path: "m/84'/0'/0'/0/1"
+      }
+    ])
+    await waitFor(() => taskCache.xpubUtxoCache.bip84 == null)
+
+    expect(Object.keys(taskCache.rawUtxoCache)).to.deep.equal(['receive_0'])
+    // The address past them is left to its own queries
+    expect(Object.keys(addressUtxoCache)).to.deep.equal([
+      getAddress(0, 2).address
+    ])
+    const fetchQueriedHeight = async (
+      addressIndex: number
+    ): Promise<number | undefined> =>
+      (await processor.fetchAddress(getAddress(0, addressIndex).scriptPubkey))
+        ?.lastQueriedBlockHeight
+    expect(await fetchQueriedHeight(0)).to.equal(100)
+    expect(await fetchQueriedHeight(1)).to.equal(100)
+    expect(await fetchQueriedHeight(2)).to.equal(0)
+  })
+
+  it('falls back to address queries when xpub queries fail', async () => {
+    const args = await makeArgs()
+    const { taskCache } = args
+    const xpubTransactionState = makeTransactionState(0)
+    taskCache.xpubTransactionCache.bip84 = xpubTransactionState
+
+    const task = await processXpubTransactions({
+      ...args,
+      uri,
+      needsTxSpecific: false,
+      xpubTransactionState
+    })
+    task.deferred.reject(new Error('Unsupported descriptor'))
+    await waitFor(() => taskCache.xpubTransactionCache.bip84 == null)
+
+    // The addresses of the format are queried on their own
+    expect(taskCache.xpubUtxoCache.bip84).to.equal(undefined)
+  })
+})
+
+describe('sync checkpoint tests', () => {
+  const makeFixtures = async (): Promise<{
+    emitter: EngineEmitter
+    metadata: Metadata
+    processor: Processor
+  }> => {
+    const emitter = new EngineEmitter()
+    const metadata = await makeMetadata({
+      disklet: makeMemoryDisklet(),
+      emitter,
+      log: testLog
+    })
+    const processor = await makeProcessor({ disklet: makeMemoryDisklet() })
+    return { emitter, metadata, processor }
+  }
+
+  const makeTx = (
+    txid: string,
+    blockHeight: number
+  ): IProcessorTransaction => ({
+    txid,
+    hex: '',
+    blockHeight,
+    date: 0,
+    fees: '100',
+    inputs: [],
+    outputs: [],
+    ourIns: [],
+    ourOuts: [],
+    ourAmount: '0'
+  })
+
+  it('saves the lowest block height the servers reported during a sync', async () => {
+    const { emitter, metadata } = await makeFixtures()
+    const syncCheckpoint = makeSyncCheckpoint({ emitter, metadata })
+
+    // Heights from before the sync are not recorded
+    emitter.emit(EngineEvent.BLOCK_HEIGHT_CHANGED, 'a', 90)
+    syncCheckpoint.start()
+    emitter.emit(EngineEvent.BLOCK_HEIGHT_CHANGED, 'a', 105)
+    emitter.emit(EngineEvent.BLOCK_HEIGHT_CHANGED, 'b', 100)
+    emitter.emit(EngineEvent.BLOCK_HEIGHT_CHANGED, 'a', 106)
+    await syncCheckpoint.save()
+    expect(metadata.state.syncCheckpoint).to.equal(100)
+
+    // The next sync advances the checkpoint to its own heights
+    emitter.emit(EngineEvent.BLOCK_HEIGHT_CHANGED, 'b', 101)
+    syncCheckpoint.start()
+    emitter.emit(EngineEvent.BLOCK_HEIGHT_CHANGED, 'b', 107)
+    await syncCheckpoint.save()
+    expect(metadata.state.syncCheckpoint).to.equal(107)
+  })
+
+  it('keeps the checkpoint of syncs without a block height', async () => {
+    const { emitter, metadata } = await makeFixtures()
+    await metadata.setSyncCheckpoint(100)
+    const syncCheckpoint = makeSyncCheckpoint({ emitter, metadata })
+
+    syncCheckpoint.start()
+    await syncCheckpoint.save()
+    expect(metadata.state.syncCheckpoint).to.equal(100)
+  })
+
+  it('gets the height of the first transaction before the checkpoint', async () => {
+    const { metadata, processor } = await makeFixtures()
+    for (const tx of [
+      makeTx('unconfirmed', 0),
+      makeTx('first', 80),
+      makeTx('second', 95),
+      makeTx('after', 120)
+    ]) {
+      await processor.saveTransaction({ tx })
+    }
+
+    // Wallets never synced may have history from any height
+    expect(await getBirthdayHeight({ metadata, processor })).to.equal(0)
+
+    await metadata.setSyncCheckpoint(100)
+    expect(await getBirthdayHeight({ metadata, processor })).to.equal(80)
+  })
+
+  it('gets the checkpoint for wallets without history before it', async () => {
+    const { metadata, processor } = await makeFixtures()
+    await processor.saveTransaction({ tx: makeTx('after', 120) })
+
+    await metadata.setSyncCheckpoint(100)
+    expect(await getBirthdayHeight({ metadata, processor })).to.equal(100)
+  })
+})
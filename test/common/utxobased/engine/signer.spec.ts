@@ -0,0 +1,253 @@
+import * as bitcoin from 'altcoin-js'
+import * as chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { makeMemoryDisklet } from 'disklet'
+import {
+  EdgeCurrencyEngine,
+  EdgeCurrencyPlugin,
+  EdgeTransaction,
+  makeFakeIo
+} from 'edge-core-js'
+import { before, describe, it } from 'mocha'
+
+import {
+  makeInMemorySigner,
+  SignerRequest,
+  UtxoSigner
+} from '../../../../src/common/utxobased/engine/signer'
+import { UtxoTxOtherParams } from '../../../../src/common/utxobased/engine/types'
+import {
+  completePsbt,
+  makeTx,
+  privateKeyEncodingToPubkey,
+  pubkeyToScriptPubkey,
+  ScriptTypeEnum,
+  wifToPrivateKeyEncoding
+} from '../../../../src/common/utxobased/keymanager/keymanager'
+import edgeCorePlugins from '../../../../src/index'
+import { noOp, testLog } from '../../../util/testLog'
+
+chai.use(chaiAsPromised)
+const { expect } = chai
+
+describe('transaction signers', function () {
+  this.timeout(10000)
+
+  const privateKeyEncoding = wifToPrivateKeyEncoding({
+    wifKey: 'L2uPYXe17xSTqbCjZvL2DsyXPCbXspvcu5mHLDYUgzdUbZGSKrSr',
+    coin: 'bitcoin'
+  })
+  const pubkey = privateKeyEncodingToPubkey(privateKeyEncoding)
+  const scriptPubkey: string = pubkeyToScriptPubkey({
+    pubkey,
+    scriptType: ScriptTypeEnum.p2pkh
+  }).scriptPubkey
+
+  const tx = makeTx({
+    forceUseUtxo: [],
+    coin: 'bitcoin',
+    currencyCode: 'BTC',
+    setRBF: false,
+    freshChangeAddress: '1KRMKfeZcmosxALVYESdPNez1AP1mEtywp',
+    feeRate: 0,
+    subtractFee: false,
+    utxos: [
+      {
+        id: '0',
+        scriptType: ScriptTypeEnum.p2pkh,
+        txid:
+          '7d067b4a697a09d2c3cff7d4d9506c9955e93bff41bf82d439da7d030382bc3e',
+        scriptPubkey,
+        value: '80000',
+        blockHeight: 0,
+        spent: false,
+        script:
+          '0200000001f9f34e95b9d5c8abcd20fc5bd4a825d1517be62f0f775e5f36da944d9' +
+          '452e550000000006b483045022100c86e9a111afc90f64b4904bd609e9eaed80d48' +
+          'ca17c162b1aca0a788ac3526f002207bb79b60d4fc6526329bf18a77135dc566020' +
+          '9e761da46e1c2f1152ec013215801210211755115eabf846720f5cb18f248666fec' +
+          '631e5e1e66009ce3710ceea5b1ad13ffffffff01' +
+          '905f010000000000' +
+          '19' +
+          scriptPubkey +
+          '00000000',
+        vout: 0
+      }
+    ],
+    targets: [],
+    outputSort: 'bip69'
+  })
+
+  const request: SignerRequest = {
+    psbtBase64: tx.psbtBase64,
+    inputs: [
+      {
+        path: { format: 'bip44', changeIndex: 0, addressIndex: 0 },
+        derivation: {
+          masterFingerprint: 'deadbeef',
+          path: "m/44'/0'/0'/0/0",
+          pubkey
+        }
+      }
+    ],
+    coin: 'bitcoin'
+  }
+
+  // Stands in for a hardware wallet, which gets the request over a message
+  // channel and answers with partial signatures
+  const makeFakeSigner = (): UtxoSigner & { requests: string[] } => {
+    const requests: string[] = []
+    return {
+      masterFingerprint: 'deadbeef',
+      requests,
+      async signPsbt({ psbtBase64 }: SignerRequest): Promise<string> {
+        const message = JSON.stringify({ psbtBase64 })
+        requests.push(message)
+        const psbt = bitcoin.Psbt.fromBase64(JSON.parse(message).psbtBase64)
+        psbt.signInput(
+          0,
+          bitcoin.ECPair.fromPrivateKey(
+            Buffer.from(privateKeyEncoding.hex, 'hex')
+          )
+        )
+        return psbt.toBase64()
+      }
+    }
+  }
+
+  it('signs with keys in memory', async () => {
+    const signer = makeInMemorySigner(async inputs => {
+      expect(inputs).to.deep.equal(request.inputs)
+      return [privateKeyEncoding]
+    })
+    const signedTx = completePsbt({
+      psbtBase64: await signer.signPsbt(request),
+      coin: 'bitcoin'
+    })
+    expect(signedTx.complete).to.equal(true)
+  })
+
+  it('completes the partial signatures of an external signer', async () => {
+    const fakeSigner = makeFakeSigner()
+    const inMemorySigner = makeInMemorySigner(async () => [privateKeyEncoding])
+    const externalTx = completePsbt({
+      psbtBase64: await fakeSigner.signPsbt(request),
+      coin: 'bitcoin'
+    })
+    const inMemoryTx = completePsbt({
+      psbtBase64: await inMemorySigner.signPsbt(request),
+      coin: 'bitcoin'
+    })
+
+    expect(fakeSigner.requests.length).to.equal(1)
+    expect(externalTx.complete).to.equal(true)
+    expect(externalTx.id).to.equal(inMemoryTx.id)
+    expect(externalTx.hex).to.equal(inMemoryTx.hex)
+  })
+
+  describe('engine external signers', () => {
+    let engine: EdgeCurrencyEngine
+
+    before('Engine', async () => {
+      const io = makeFakeIo()
+      const factory = edgeCorePlugins.bitcoin
+      if (typeof factory !== 'function') throw new TypeError('Bad plugin')
+      const plugin = factory({
+        initOptions: {},
+        io,
+        log: testLog,
+        nativeIo: {},
+        pluginDisklet: makeMemoryDisklet()
+      }) as EdgeCurrencyPlugin
+      const tools = await plugin.makeCurrencyTools()
+      const keys = await tools.createPrivateKey('wallet:bitcoin')
+      const disklet = makeMemoryDisklet()
+      engine = await plugin.makeCurrencyEngine(
+        { type: 'wallet:bitcoin', keys, id: 'signerWalletId' },
+        {
+          callbacks: {
+            onAddressChanged: noOp,
+            onAddressesChecked: noOp,
+            onBalanceChanged: noOp,
+            onBlockHeightChanged: noOp,
+            onStakingStatusChanged: noOp,
+            onTransactionsChanged: noOp,
+            onTxidsChanged: noOp,
+            onUnactivatedTokenIdsChanged: noOp,
+            onWcNewContractCall: noOp
+          },
+          log: testLog,
+          walletLocalDisklet: disklet,
+          walletLocalEncryptedDisklet: disklet,
+          customTokens: {},
+          enabledTokenIds: [],
+          userSettings: {}
+        }
+      )
+    })
+
+    const makeTransaction = (): EdgeTransaction => {
+      const otherParams: UtxoTxOtherParams = {
+        unsignedTx: tx.hex,
+        psbt: {
+          base64: tx.psbtBase64,
+          inputs: tx.inputs,
+          outputs: tx.outputs
+        },
+        edgeSpendInfo: { currencyCode: 'BTC', spendTargets: [] },
+        ourScriptPubkeys: [scriptPubkey]
+      }
+      return {
+        walletId: 'signerWalletId',
+        currencyCode: 'BTC',
+        txid: '',
+        date: 0,
+        blockHeight: 0,
+        nativeAmount: '0',
+        networkFee: '0',
+        ourReceiveAddresses: [],
+        signedTx: '',
+        otherParams
+      }
+    }
+
+    it('signs with the external signer', async () => {
+      const fakeSigner = makeFakeSigner()
+      await engine.otherMethods?.setExternalSigner(fakeSigner)
+      const signedTx = await engine.signTx(makeTransaction())
+      await engine.otherMethods?.setExternalSigner(undefined)
+
+      const inMemoryTx = completePsbt({
+        psbtBase64: await makeInMemorySigner(async () => [
+          privateKeyEncoding
+        ]).signPsbt(request),
+        coin: 'bitcoin'
+      })
+      expect(fakeSigner.requests.length).to.equal(1)
+      expect(signedTx.txid).to.equal(inMemoryTx.id)
+      expect(signedTx.signedTx).to.equal(inMemoryTx.hex)
+    })
+
+    it('rejects a signed PSBT for another transaction', async () => {
+      // Signs the transaction with another lock time
+      const tamperingSigner: UtxoSigner = {
+        async signPsbt({ psbtBase64 }: SignerRequest): Promise<string> {
+          const psbt = bitcoin.Psbt.fromBase64(psbtBase64)
+          psbt.setLocktime(1)
+          psbt.signInput(
+            0,
+            bitcoin.ECPair.fromPrivateKey(
+              Buffer.from(privateKeyEncoding.hex, 'hex')
+            )
+          )
+          return psbt.toBase64()
+        }
+      }
+      await engine.otherMethods?.setExternalSigner(tamperingSigner)
+      await expect(engine.signTx(makeTransaction())).to.be.rejectedWith(
+        'The signed PSBT is for a different transaction'
+      )
+      await engine.otherMethods?.setExternalSigner(undefined)
+    })
+  })
+})
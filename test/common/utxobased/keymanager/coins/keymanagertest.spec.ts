@@ -2,18 +2,48 @@ import * as bitcoin from 'altcoin-js'
 import { expect } from 'chai'
 import { describe, it } from 'mocha'
 
+import { all } from '../../../../../src/common/utxobased/info/all'
+import { bip322MessageHash } from '../../../../../src/common/utxobased/keymanager/bip322'
 import {
+  descriptorChecksum,
+  descriptorsToPublicKey,
+  formatToDescriptor
+} from '../../../../../src/common/utxobased/keymanager/descriptors'
+import { electrumSeedType } from '../../../../../src/common/utxobased/keymanager/electrum'
+import {
+  accountDerivationPath,
   addressToScriptPubkey,
+  AddressTypeEnum,
+  bip38ToWIF,
+  BIP43PurposeTypeEnum,
+  convertXKey,
+  isBip38Key,
   privateKeyToWIF,
   pubkeyToScriptPubkey,
   scriptPubkeyToAddress,
+  ScriptTypeEnum,
+  seedOrMnemonicToFingerprint,
   seedOrMnemonicToXPriv,
   signMessageBase64,
+  signMessageBip322,
+  verifyAddress,
+  VerifyAddressEnum,
+  verifyMessage,
   wifToPrivateKeyEncoding,
+  xkeyPurposeType,
+  xkeyToFingerprint,
+  xprivToAccountXPriv,
   xprivToPrivateKey,
   xprivToXPub,
   xpubToPubkey
 } from '../../../../../src/common/utxobased/keymanager/keymanager'
+import {
+  signSchnorr,
+  tweakPrivateKey,
+  tweakPublicKey,
+  verifySchnorr
+} from '../../../../../src/common/utxobased/keymanager/taprootUtils/schnorr'
+import { taprootKeyPathSighash } from '../../../../../src/common/utxobased/keymanager/taprootUtils/sighash'
 import { fixtures } from './altcointestfixtures'
 
 describe('altcoin test fixtures', () => {
@@ -139,3 +169,811 @@ describe('altcoin test fixtures', () => {
     }
   })
 })
+
+// Vectors from BIP86 and BIP340
+describe('bitcoin taproot test vectors', () => {
+  const mnemonic =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+  const xpub =
+    'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ'
+  const address =
+    'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+  const scriptPubkey =
+    '5120a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c'
+
+  it('derives the bip86 account xpub from a mnemonic', () => {
+    const xpriv = seedOrMnemonicToXPriv({
+      seed: mnemonic,
+      type: BIP43PurposeTypeEnum.Taproot,
+      coin: 'bitcoin'
+    })
+    const result = xprivToXPub({
+      xpriv,
+      type: BIP43PurposeTypeEnum.Taproot,
+      coin: 'bitcoin'
+    })
+    expect(result).to.equal(xpub)
+  })
+
+  it('derives the first receive address', () => {
+    const pubkey = xpubToPubkey({
+      xpub,
+      type: BIP43PurposeTypeEnum.Taproot,
+      bip44ChangeIndex: 0,
+      bip44AddressIndex: 0,
+      coin: 'bitcoin'
+    })
+    const result = pubkeyToScriptPubkey({
+      pubkey,
+      scriptType: ScriptTypeEnum.p2tr
+    })
+    expect(result.scriptPubkey).to.equal(scriptPubkey)
+    expect(
+      scriptPubkeyToAddress({
+        scriptPubkey,
+        addressType: AddressTypeEnum.p2tr,
+        coin: 'bitcoin'
+      }).address
+    ).to.equal(address)
+  })
+
+  it('accepts bech32m addresses', () => {
+    expect(verifyAddress({ address, coin: 'bitcoin' })).to.equal(
+      VerifyAddressEnum.good
+    )
+    expect(addressToScriptPubkey({ address, coin: 'bitcoin' })).to.equal(
+      scriptPubkey
+    )
+    expect(
+      addressToScriptPubkey({ address: address.toUpperCase(), coin: 'bitcoin' })
+    ).to.equal(scriptPubkey)
+  })
+
+  it('rejects taproot addresses with a bech32 checksum', () => {
+    expect(
+      verifyAddress({
+        address:
+          'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqr9a0ap',
+        coin: 'bitcoin'
+      })
+    ).to.equal(VerifyAddressEnum.bad)
+  })
+
+  it('signs schnorr signatures', () => {
+    const fixtures = [
+      {
+        privateKey:
+          '0000000000000000000000000000000000000000000000000000000000000003',
+        auxRand:
+          '0000000000000000000000000000000000000000000000000000000000000000',
+        message:
+          '0000000000000000000000000000000000000000000000000000000000000000',
+        signature:
+          'e907831f80848d1069a5371b402410364bdf1c5f8307b0084c55f1ce2dca821525f66a4a85ea8b71e482a74f382d2ce5ebeee8fdb2172f477df4900d310536c0'
+      },
+      {
+        privateKey:
+          'b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef',
+        auxRand:
+          '0000000000000000000000000000000000000000000000000000000000000001',
+        message:
+          '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+        signature:
+          '6896bd60eeae296db48a229ff71dfe071bde413e6d43f917dc8dcf8c78de33418906d11ac976abccb20b091292bff4ea897efcb639ea871cfa95f6de339e4b0a'
+      }
+    ]
+    for (const fixture of fixtures) {
+      const signature = signSchnorr(
+        Buffer.from(fixture.message, 'hex'),
+        Buffer.from(fixture.privateKey, 'hex'),
+        Buffer.from(fixture.auxRand, 'hex')
+      )
+      expect(signature.toString('hex')).to.equal(fixture.signature)
+    }
+  })
+
+  it('signs with random nonces by default', () => {
+    const privateKey = Buffer.from(
+      'b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef',
+      'hex'
+    )
+    const pubkey = Buffer.from(
+      'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+      'hex'
+    )
+    const message = Buffer.alloc(32, 1)
+    const signature = signSchnorr(message, privateKey)
+    expect(signSchnorr(message, privateKey).equals(signature)).to.equal(false)
+    expect(verifySchnorr(signature, message, pubkey)).to.equal(true)
+    expect(verifySchnorr(signature, Buffer.alloc(32), pubkey)).to.equal(false)
+  })
+})
+
+// Key-path spending vectors from BIP341
+describe('bitcoin taproot signature hash test vectors', () => {
+  const unsignedTx = bitcoin.Transaction.fromHex(
+    '02000000097de20cbff686da83a54981d2b9bab3586f4ca7e48f57f5b55963115f3b334e9c010000000000000000d7b7cab57b1393ace2d064f4d4a2cb8af6def61273e127517d44759b6dafdd990000000000fffffffff8e1f583384333689228c5d28eac13366be082dc57441760d957275419a418420000000000fffffffff0689180aa63b30cb162a73c6d2a38b7eeda2a83ece74310fda0843ad604853b0100000000feffffffaa5202bdf6d8ccd2ee0f0202afbbb7461d9264a25e5bfd3c5a52ee1239e0ba6c0000000000feffffff956149bdc66faa968eb2be2d2faa29718acbfe3941215893a2a3446d32acd050000000000000000000e664b9773b88c09c32cb70a2a3e4da0ced63b7ba3b22f848531bbb1d5d5f4c94010000000000000000e9aa6b8e6c9de67619e6a3924ae25696bb7b694bb677a632a74ef7eadfd4eabf0000000000ffffffffa778eb6a263dc090464cd125c466b5a99667720b1c110468831d058aa1b82af10100000000ffffffff0200ca9a3b000000001976a91406afd46bcdfd22ef94ac122aa11f241244a37ecc88ac807840cb0000000020ac9a87f5594be208f8532db38cff670c450ed2fea8fcdefcc9a663f78bab962b0065cd1d'
+  )
+  const prevouts = [
+    [
+      '512053a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343',
+      420000000
+    ],
+    [
+      '5120147c9c57132f6e7ecddba9800bb0c4449251c92a1e60371ee77557b6620f3ea3',
+      462000000
+    ],
+    ['76a914751e76e8199196d454941c45d1b3a323f1433bd688ac', 294000000],
+    [
+      '5120e4d810fd50586274face62b8a807eb9719cef49c04177cc6b76a9a4251d5450e',
+      504000000
+    ],
+    [
+      '512091b64d5324723a985170e4dc5a0f84c041804f2cd12660fa5dec09fc21783605',
+      630000000
+    ],
+    ['00147dd65592d0ab2fe0d0257d571abf032cd9db93dc', 378000000],
+    [
+      '512075169f4001aa68f15bbed28b218df1d0a62cbbcf1188c6665110c293c907b831',
+      672000000
+    ],
+    [
+      '5120712447206d7a5238acc7ff53fbe94a3b64539ad291c7cdbc490b7577e4b17df5',
+      546000000
+    ],
+    [
+      '512077e30a5522dd9f894c3f8b8bd4c4b2cf82ca7da8a3ea6a239655c39c050ab220',
+      588000000
+    ]
+  ].map(([script, value]) => ({
+    script: Buffer.from(script as string, 'hex'),
+    value: value as number
+  }))
+
+  it('tweaks keys which commit to no script tree', () => {
+    expect(
+      tweakPublicKey(
+        Buffer.from(
+          'd6889cb081036e0faefa3a35157ad71086b123b2b144b649798b494c300a961d',
+          'hex'
+        )
+      ).toString('hex')
+    ).to.equal(
+      '53a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343'
+    )
+    expect(
+      tweakPrivateKey(
+        Buffer.from(
+          '6b973d88838f27366ed61c9ad6367663045cb456e28335c109e30717ae0c6baa',
+          'hex'
+        )
+      ).toString('hex')
+    ).to.equal(
+      '2405b971772ad26915c8dcdf10f238753a9b837e5f8e6a86fd7c0cce5b7296d9'
+    )
+  })
+
+  it('hashes and signs an input with SIGHASH_DEFAULT', () => {
+    const sighash = taprootKeyPathSighash(unsignedTx, 4, prevouts)
+    expect(sighash.toString('hex')).to.equal(
+      '4f900a0bae3f1446fd48490c2958b5a023228f01661cda3496a11da502a7f7ef'
+    )
+    const signature = signSchnorr(
+      sighash,
+      Buffer.from(
+        'a8e7aa924f0d58854185a490e6c41f6efb7b675c0f3331b7f14b549400b4d501',
+        'hex'
+      ),
+      Buffer.alloc(32)
+    )
+    expect(signature.toString('hex')).to.equal(
+      'b4010dd48a617db09926f729e79c33ae0b4e94b79f04a1ae93ede6315eb3669de185a17d2b0ac9ee09fd4c64b678a0b61a0a86fa888a273c8511be83bfd6810f'
+    )
+  })
+
+  it('rejects missing prevouts', () => {
+    expect(() =>
+      taprootKeyPathSighash(unsignedTx, 4, prevouts.slice(1))
+    ).to.throw('Missing prevouts for taproot signature hash')
+  })
+})
+
+// Vectors from BIP322
+describe('bitcoin BIP322 message signing', () => {
+  const address = 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l'
+  const privateKey = wifToPrivateKeyEncoding({
+    wifKey: 'L3VFeEujGtevx9w18HD1fhRbCH67Az2dpCymeRE1SoPK6XQtaN2k',
+    coin: 'bitcoin'
+  }).hex
+  const fixtures = [
+    {
+      message: '',
+      hash: 'c90c269c4f8fcbe6880f72a721ddfbf1914268a794cbb21cfafee13770ae19f1',
+      signature:
+        'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI='
+    },
+    {
+      message: 'Hello World',
+      hash: 'f0eb03b1a75ac6d9847f55c624a99169b5dccba2a31f5b23bea77ba270de0a7a',
+      signature:
+        'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI='
+    }
+  ]
+
+  const signAndVerify = (
+    scriptType: ScriptTypeEnum,
+    addressType: AddressTypeEnum,
+    format: 'simple' | 'full'
+  ): boolean => {
+    const pubkey = bitcoin.ECPair.fromPrivateKey(
+      Buffer.from(privateKey, 'hex')
+    ).publicKey.toString('hex')
+    const { scriptPubkey } = pubkeyToScriptPubkey({ pubkey, scriptType })
+    const signature = signMessageBip322({
+      message: 'Hello World',
+      privateKey,
+      scriptPubkey,
+      format
+    })
+    const { address } = scriptPubkeyToAddress({
+      scriptPubkey,
+      addressType,
+      coin: 'bitcoin'
+    })
+    return verifyMessage({
+      message: 'Hello World',
+      address,
+      signature,
+      coin: 'bitcoin'
+    })
+  }
+
+  it('hashes messages', () => {
+    for (const fixture of fixtures) {
+      expect(bip322MessageHash(fixture.message).toString('hex')).to.equal(
+        fixture.hash
+      )
+    }
+  })
+
+  it('signs simple signatures', () => {
+    const scriptPubkey = addressToScriptPubkey({ address, coin: 'bitcoin' })
+    for (const fixture of fixtures) {
+      const signature = signMessageBip322({
+        message: fixture.message,
+        privateKey,
+        scriptPubkey,
+        format: 'simple'
+      })
+      expect(signature).to.equal(fixture.signature)
+    }
+  })
+
+  it('verifies simple signatures', () => {
+    const [empty, helloWorld] = fixtures
+    for (const fixture of fixtures) {
+      expect(verifyMessage({ ...fixture, address, coin: 'bitcoin' })).to.equal(
+        true
+      )
+    }
+    expect(
+      verifyMessage({
+        message: empty.message,
+        address,
+        signature: helloWorld.signature,
+        coin: 'bitcoin'
+      })
+    ).to.equal(false)
+    expect(
+      verifyMessage({
+        message: helloWorld.message,
+        address: '14vV3aCHBeStb5bkenkNHbe2YAFinYdXgc',
+        signature: helloWorld.signature,
+        coin: 'bitcoin'
+      })
+    ).to.equal(false)
+  })
+
+  it('signs and verifies each address type', () => {
+    expect(
+      signAndVerify(ScriptTypeEnum.p2wpkh, AddressTypeEnum.p2wpkh, 'full')
+    ).to.equal(true)
+    expect(
+      signAndVerify(ScriptTypeEnum.p2wpkhp2sh, AddressTypeEnum.p2sh, 'simple')
+    ).to.equal(true)
+    expect(
+      signAndVerify(ScriptTypeEnum.p2tr, AddressTypeEnum.p2tr, 'simple')
+    ).to.equal(true)
+    expect(
+      signAndVerify(ScriptTypeEnum.p2pkh, AddressTypeEnum.p2pkh, 'full')
+    ).to.equal(true)
+  })
+
+  it('verifies legacy signatures', () => {
+    const signature = signMessageBase64('Hello World', privateKey)
+    expect(
+      verifyMessage({
+        message: 'Hello World',
+        address: '14vV3aCHBeStb5bkenkNHbe2YAFinYdXgc',
+        signature,
+        coin: 'bitcoin'
+      })
+    ).to.equal(true)
+  })
+})
+
+// Vectors from BIP38
+describe('bitcoin bip38 test vectors', function () {
+  // scrypt is slow on purpose
+  this.timeout(60000)
+  const passphrase = 'TestingOneTwoThree'
+
+  it('detects encrypted keys', () => {
+    expect(
+      isBip38Key('6PYNKZ1EAgYgmQfmNVamxyXVWHzK5s6DGhwP4J5o44cvXdoY7sRzhtpUeo')
+    ).to.equal(true)
+    expect(
+      isBip38Key('L44B5gGEpqEDRS9vVPz7QT35jcBG2r3CZwSwQ4fCewXAhAhqGVpP')
+    ).to.equal(false)
+  })
+
+  it('decrypts a compressed key', async () => {
+    const wif = await bip38ToWIF({
+      encryptedKey:
+        '6PYNKZ1EAgYgmQfmNVamxyXVWHzK5s6DGhwP4J5o44cvXdoY7sRzhtpUeo',
+      passphrase,
+      coin: 'bitcoin'
+    })
+    expect(wif).to.equal('L44B5gGEpqEDRS9vVPz7QT35jcBG2r3CZwSwQ4fCewXAhAhqGVpP')
+  })
+
+  it('decrypts an EC multiplied key', async () => {
+    const wif = await bip38ToWIF({
+      encryptedKey:
+        '6PfQu77ygVyJLZjfvMLyhLMQbYnu5uguoJJ4kMCLqWwPEdfpwANVS76gTX',
+      passphrase,
+      coin: 'bitcoin'
+    })
+    expect(wif).to.equal('5K4caxezwjGCGfnoPTZ8tMcJBLB7Jvyjv4xxeacadhq8nLisLR2')
+  })
+
+  it('rejects a wrong passphrase', async () => {
+    const message = await bip38ToWIF({
+      encryptedKey:
+        '6PYNKZ1EAgYgmQfmNVamxyXVWHzK5s6DGhwP4J5o44cvXdoY7sRzhtpUeo',
+      passphrase: 'Satoshi',
+      coin: 'bitcoin'
+    }).then(
+      () => undefined,
+      (error: Error) => error.message
+    )
+    expect(message).to.equal('Incorrect BIP38 passphrase')
+  })
+
+  it('rejects coins other than bitcoin', async () => {
+    const message = await bip38ToWIF({
+      encryptedKey:
+        '6PYNKZ1EAgYgmQfmNVamxyXVWHzK5s6DGhwP4J5o44cvXdoY7sRzhtpUeo',
+      passphrase,
+      coin: 'litecoin'
+    }).then(
+      () => undefined,
+      (error: Error) => error.message
+    )
+    expect(message).to.equal('BIP38 keys are not supported for litecoin')
+  })
+})
+
+describe('bitcoin sweep keys', () => {
+  const mnemonic =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+  const rootXpriv =
+    'xprv9s21ZrQH143K3GJpoapnV8SFfukcVBSfeCficPSGfubmSFDxo1kuHnLisriDvSnRRuL2Qrg5ggqHKNVpxR86QEC8w35uxmGoggxtQTPvfUu'
+  const segwitXpriv =
+    'zprvAdG4iTXWBoARxkkzNpNh8r6Qag3irQB8PzEMkAFeTRXxHpbF9z4QgEvBRmfvqWvGp42t42nvgGpNgYSJA9iefm1yYNZKEm7z6qUWCroSQnE'
+  const wrappedSegwitXpriv =
+    'yprvAHwhK6RbpuS3dgCYHM5jc2ZvEKd7Bi61u9FVhYMpgMSuZS613T1xxQeKTffhrHY79hZ5PsskBjcc6C2V7DrnsMsNaGDaWev3GLRQRgV7hxF'
+
+  it('derives account xprivs from a master xpriv', () => {
+    expect(
+      xprivToAccountXPriv({
+        xpriv: rootXpriv,
+        type: BIP43PurposeTypeEnum.Segwit,
+        coin: 'bitcoin'
+      })
+    ).to.equal(segwitXpriv)
+    expect(
+      xprivToAccountXPriv({
+        xpriv: rootXpriv,
+        type: BIP43PurposeTypeEnum.WrappedSegwit,
+        coin: 'bitcoin'
+      })
+    ).to.equal(wrappedSegwitXpriv)
+  })
+
+  it('keeps account xprivs for their own purpose only', () => {
+    expect(
+      xprivToAccountXPriv({
+        xpriv: segwitXpriv,
+        type: BIP43PurposeTypeEnum.Segwit,
+        coin: 'bitcoin'
+      })
+    ).to.equal(segwitXpriv)
+    expect(
+      xprivToAccountXPriv({
+        xpriv: segwitXpriv,
+        type: BIP43PurposeTypeEnum.WrappedSegwit,
+        coin: 'bitcoin'
+      })
+    ).to.equal(undefined)
+  })
+
+  it('derives from a mnemonic with a passphrase', () => {
+    // The BIP39 test vector master key for the passphrase TREZOR
+    const passphraseRootXpriv =
+      'xprv9s21ZrQH143K3h3fDYiay8mocZ3afhfULfb5GX8kCBdno77K4HiA15Tg23wpbeF1pLfs1c5SPmYHrEpTuuRhxMwvKDwqdKiGJS9XFKzUsAF'
+    expect(
+      seedOrMnemonicToXPriv({
+        seed: mnemonic,
+        passphrase: 'TREZOR',
+        type: BIP43PurposeTypeEnum.Segwit,
+        coin: 'bitcoin'
+      })
+    ).to.equal(
+      xprivToAccountXPriv({
+        xpriv: passphraseRootXpriv,
+        type: BIP43PurposeTypeEnum.Segwit,
+        coin: 'bitcoin'
+      })
+    )
+  })
+})
+
+describe('bitcoin account derivation', () => {
+  const mnemonic =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+  it('derives other accounts', () => {
+    // The BIP84 vector mnemonic at m/84'/0'/1'
+    const xpriv =
+      'zprvAdG4iTXWBoAS2cCGuaGevCvH54GCunrvLJb2hoWCSuE3D9LS42XVg3c6sPm64w6VMq3w18vJf8nF3cBA2kUMkyWHsq6enWVXivzw42UrVHG'
+    expect(
+      seedOrMnemonicToXPriv({
+        seed: mnemonic,
+        type: BIP43PurposeTypeEnum.Segwit,
+        account: 1,
+        coin: 'bitcoin'
+      })
+    ).to.equal(xpriv)
+    expect(
+      seedOrMnemonicToXPriv({
+        seed: mnemonic,
+        type: BIP43PurposeTypeEnum.Segwit,
+        derivationPath: "m/84'/0'/1'",
+        coin: 'bitcoin'
+      })
+    ).to.equal(xpriv)
+    expect(
+      xprivToXPub({ xpriv, type: BIP43PurposeTypeEnum.Segwit, coin: 'bitcoin' })
+    ).to.equal(
+      'zpub6rFR7y4Q2AijF6Gk1bofHLs1d66hKFamhXWdWBup1Em25wfabZqkDqvaieV63fDQFaYmaatCG7jVNUpUiM2hAMo6SAVHcrUpSnHDpNzucB7'
+    )
+    expect(
+      accountDerivationPath({
+        type: BIP43PurposeTypeEnum.Segwit,
+        account: 1,
+        coin: 'bitcoin'
+      })
+    ).to.equal("m/84'/0'/1'")
+  })
+
+  it('derives custom paths', () => {
+    // Electrum style wallets derive their chains from the master key
+    expect(
+      seedOrMnemonicToXPriv({
+        seed: mnemonic,
+        type: BIP43PurposeTypeEnum.Legacy,
+        derivationPath: 'm',
+        coin: 'bitcoin'
+      })
+    ).to.equal(
+      'xprv9s21ZrQH143K3GJpoapnV8SFfukcVBSfeCficPSGfubmSFDxo1kuHnLisriDvSnRRuL2Qrg5ggqHKNVpxR86QEC8w35uxmGoggxtQTPvfUu'
+    )
+    expect(
+      accountDerivationPath({
+        type: BIP43PurposeTypeEnum.Legacy,
+        derivationPath: "m/44'/0'/2147483646'",
+        coin: 'bitcoin'
+      })
+    ).to.equal("m/44'/0'/2147483646'")
+  })
+})
+
+describe('bitcoin bip39 passphrase', () => {
+  const mnemonic =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+  it('changes the master fingerprint', () => {
+    expect(
+      seedOrMnemonicToFingerprint({ seed: mnemonic, coin: 'bitcoin' })
+    ).to.equal('73c5da0a')
+    expect(
+      seedOrMnemonicToFingerprint({
+        seed: mnemonic,
+        passphrase: 'TREZOR',
+        coin: 'bitcoin'
+      })
+    ).to.equal('b4e3f5ed')
+  })
+
+  it('treats an empty passphrase as none', () => {
+    expect(
+      seedOrMnemonicToXPriv({
+        seed: mnemonic,
+        passphrase: '',
+        type: BIP43PurposeTypeEnum.Segwit,
+        coin: 'bitcoin'
+      })
+    ).to.equal(
+      seedOrMnemonicToXPriv({
+        seed: mnemonic,
+        type: BIP43PurposeTypeEnum.Segwit,
+        coin: 'bitcoin'
+      })
+    )
+  })
+})
+
+describe('bitcoin electrum seeds', () => {
+  const standardSeed =
+    'cycle rocket west magnet parrot shuffle foot correct salt library feed song'
+  const segwitSeed =
+    'bitter grass shiver impose acquire brush forget axis eager alone wine silver'
+
+  it('detects the seed type', () => {
+    expect(electrumSeedType(standardSeed)).to.equal('standard')
+    expect(electrumSeedType(segwitSeed)).to.equal('segwit')
+    expect(
+      electrumSeedType(
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+      )
+    ).to.equal(undefined)
+  })
+
+  it('derives a standard wallet from the master key', () => {
+    const xpriv = seedOrMnemonicToXPriv({
+      seed: standardSeed,
+      seedType: 'electrum',
+      type: BIP43PurposeTypeEnum.Legacy,
+      derivationPath: 'm',
+      coin: 'bitcoin'
+    })
+    expect(xpriv).to.equal(
+      'xprv9s21ZrQH143K32jECVM729vWgGq4mUDJCk1ozqAStTphzQtCTuoFmFafNoG1g55iCnBTXUzz3zWnDb5CVLGiFvmaZjuazHDL8a81cPQ8KL6'
+    )
+    const xpub = xprivToXPub({
+      xpriv,
+      type: BIP43PurposeTypeEnum.Legacy,
+      coin: 'bitcoin'
+    })
+    expect(xpub).to.equal(
+      'xpub661MyMwAqRbcFWohJWt7PHsFEJfZAvw9ZxwQoDa4SoMgsDDM1T7WK3u9E4edkC4ugRnZ8E4xDZRpk8Rnts3Nbt97dPwT52CwBdDWroaZf8U'
+    )
+  })
+
+  it('derives a segwit wallet from m/0h', () => {
+    expect(
+      seedOrMnemonicToXPriv({
+        seed: segwitSeed,
+        seedType: 'electrum',
+        type: BIP43PurposeTypeEnum.Segwit,
+        derivationPath: "m/0'",
+        coin: 'bitcoin'
+      })
+    ).to.equal(
+      'zprvAZswDvNeJeha8qZ8g7efN3FXYVJLaEUsE9TW6qXDEbVe74AZ75c2sZFZXPNFzxnhChDQ89oC8C5AjWwHmH1HeRKE1c4kKBQAmjUDdKDUZw2'
+    )
+  })
+})
+
+describe('bitcoin output descriptors', () => {
+  const zpub =
+    'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+  const descriptor =
+    "wpkh([73c5da0a/84'/0'/0']xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V/<0;1>/*)#hpg6d6w2"
+
+  it('computes checksums', () => {
+    expect(descriptorChecksum('raw(deadbeef)')).to.equal('89f8spxm')
+    expect(
+      descriptorChecksum(
+        'pkh(02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5)'
+      )
+    ).to.equal('8fhd9pwu')
+  })
+
+  it('exports a format with its key origin', () => {
+    expect(
+      formatToDescriptor({
+        format: 'bip84',
+        xpub: zpub,
+        coin: 'bitcoin',
+        origin: { fingerprint: '73c5da0a', path: "m/84'/0'/0'" }
+      })
+    ).to.equal(descriptor)
+  })
+
+  it('imports a watch-only wallet', () => {
+    expect(
+      descriptorsToPublicKey({ descriptors: [descriptor], coin: 'bitcoin' })
+    ).to.deep.equal({ publicKeys: { bip84: zpub } })
+  })
+
+  it('rejects a wrong checksum', () => {
+    expect(() =>
+      descriptorsToPublicKey({
+        descriptors: [descriptor.replace('#hpg6d6w2', '#hpg6d6w3')],
+        coin: 'bitcoin'
+      })
+    ).to.throw('Invalid descriptor checksum hpg6d6w3')
+  })
+
+  // The descriptor for a single chain, with the hardened markers of Bitcoin
+  // Core
+  const chainDescriptor = (chain: string): string => {
+    const [bothChains] = descriptor.split('#')
+    const single = bothChains.replace('<0;1>', chain).replace(/'/g, 'h')
+    return `${single}#${descriptorChecksum(single)}`
+  }
+
+  it('imports the receive and change descriptors of Bitcoin Core', () => {
+    expect(
+      descriptorsToPublicKey({
+        descriptors: [chainDescriptor('0'), chainDescriptor('1')],
+        coin: 'bitcoin'
+      })
+    ).to.deep.equal({ publicKeys: { bip84: zpub } })
+  })
+
+  it('rejects a single chain', () => {
+    expect(() =>
+      descriptorsToPublicKey({
+        descriptors: [chainDescriptor('0')],
+        coin: 'bitcoin'
+      })
+    ).to.throw('Missing the change chain')
+    expect(() =>
+      descriptorsToPublicKey({
+        descriptors: [chainDescriptor('1'), chainDescriptor('1')],
+        coin: 'bitcoin'
+      })
+    ).to.throw('Duplicate descriptor')
+  })
+
+  it('rejects private keys', () => {
+    const xprv = convertXKey({
+      xkey: seedOrMnemonicToXPriv({
+        seed:
+          'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+        type: BIP43PurposeTypeEnum.Segwit,
+        coin: 'bitcoin'
+      }),
+      toType: BIP43PurposeTypeEnum.Legacy,
+      coin: 'bitcoin'
+    })
+    expect(() =>
+      descriptorsToPublicKey({
+        descriptors: [`wpkh([73c5da0a/84'/0'/0']${xprv}/<0;1>/*)`],
+        coin: 'bitcoin'
+      })
+    ).to.throw('Descriptors with private keys are unsupported')
+  })
+
+  it('rejects key origins of other formats', () => {
+    const [bothChains] = descriptor.split('#')
+    expect(() =>
+      descriptorsToPublicKey({
+        descriptors: [bothChains.replace("/84'/", "/44'/")],
+        coin: 'bitcoin'
+      })
+    ).to.throw("Key origin m/44'/0'/0' doesn't match the descriptor")
+    expect(() =>
+      descriptorsToPublicKey({
+        descriptors: [bothChains.replace("/84'/0'/0'", '')],
+        coin: 'bitcoin'
+      })
+    ).to.throw("Key origin m doesn't match the descriptor")
+  })
+})
+
+describe('extended key conversion', () => {
+  const mnemonic =
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+  const zpub =
+    'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+  const ypub =
+    'ypub6XR9pJPUsVBFKweLeV85HtwdxjjmKEuUr6djm9mNdkh47X7ASsD6byaXFotRAKByFoWgSzCuoTjaYdrv2yoJroLAPtBuHFjVm5vNmhyNehE'
+  const xpub =
+    'xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V'
+
+  it('converts between prefix families', () => {
+    expect(
+      convertXKey({
+        xkey: zpub,
+        toType: BIP43PurposeTypeEnum.Legacy,
+        coin: 'bitcoin'
+      })
+    ).to.equal(xpub)
+    expect(
+      convertXKey({
+        xkey: xpub,
+        toType: BIP43PurposeTypeEnum.WrappedSegwit,
+        coin: 'bitcoin'
+      })
+    ).to.equal(ypub)
+  })
+
+  it('detects the prefix family', () => {
+    expect(xkeyPurposeType({ xkey: ypub, coin: 'bitcoin' })).to.equal(
+      BIP43PurposeTypeEnum.WrappedSegwit
+    )
+    expect(xkeyPurposeType({ xkey: zpub, coin: 'bitcoin' })).to.equal(
+      BIP43PurposeTypeEnum.Segwit
+    )
+  })
+
+  it('converts litecoin Ltub and Mtub keys', () => {
+    const ltub =
+      'Ltub2Z1zyGvbcEwmj1jAQcLSwfxMsZut8QS84GKVoqcbdF9snnvjrDYGoZQpbUSrpowJSNoTHdzuBq2QmScUEBUjuVRypgNwN2g3yrd5HiGRfxy'
+    const mtub =
+      'Mtub2srGGwbWkvVFaJvHEy859m3s3Y4L52RcyNqibEWV1FXkqtjy6shqRd4xcgQSpibDr1vG37bTeVNxejE2wstkhj7ah25MwwVYFagigHNTnSn'
+    expect(
+      convertXKey({
+        xkey: ltub,
+        toType: BIP43PurposeTypeEnum.Legacy,
+        coin: 'litecoin'
+      })
+    ).to.equal(xpub)
+    expect(
+      convertXKey({
+        xkey: xpub,
+        toType: BIP43PurposeTypeEnum.WrappedSegwit,
+        coin: 'litecoin'
+      })
+    ).to.equal(mtub)
+  })
+
+  it('computes the fingerprint of a key', () => {
+    expect(xkeyToFingerprint({ xkey: zpub, coin: 'bitcoin' })).to.equal(
+      'fd13aac9'
+    )
+  })
+
+  all.forEach(({ coinInfo }) => {
+    it(`round trips ${coinInfo.name} keys through every prefix family`, () => {
+      const xpriv = seedOrMnemonicToXPriv({
+        seed: mnemonic,
+        type: BIP43PurposeTypeEnum.Legacy,
+        coin: coinInfo.name
+      })
+      const types = [
+        BIP43PurposeTypeEnum.Legacy,
+        ...(coinInfo.prefixes.wrappedSegwitXPub != null
+          ? [BIP43PurposeTypeEnum.WrappedSegwit]
+          : []),
+        ...(coinInfo.prefixes.segwitXPub != null
+          ? [BIP43PurposeTypeEnum.Segwit]
+          : [])
+      ]
+      for (const toType of types) {
+        const xkey = convertXKey({ xkey: xpriv, toType, coin: coinInfo.name })
+        expect(
+          convertXKey({
+            xkey,
+            toType: BIP43PurposeTypeEnum.Legacy,
+            coin: coinInfo.name
+          })
+        ).to.equal(xpriv)
+      }
+    })
+  })
+})
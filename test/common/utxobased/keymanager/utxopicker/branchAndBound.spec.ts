@@ -0,0 +1,55 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { ScriptTypeEnum } from '../../../../../src/common/utxobased/keymanager/keymanager'
+import { branchAndBound } from '../../../../../src/common/utxobased/keymanager/utxopicker/branchAndBound'
+import { UTXO } from '../../../../../src/common/utxobased/keymanager/utxopicker/types'
+
+describe('branch and bound utxo picker', () => {
+  const script = '00148bbc95d2709c71607c60ee3f097c1217482f518d'
+  const changeScript = '0014ca0d36044e0dc08a22724efa6f6a07b0ec4c79aa'
+
+  const makeUtxo = (index: number, value: number): UTXO => ({
+    hash: Buffer.alloc(32, index),
+    index,
+    value,
+    script: Buffer.from(script, 'hex'),
+    scriptPubkey: Buffer.from(script, 'hex'),
+    scriptType: ScriptTypeEnum.p2wpkh
+  })
+
+  it('picks a changeless input set', () => {
+    const result = branchAndBound({
+      utxos: [makeUtxo(0, 50000), makeUtxo(1, 10110), makeUtxo(2, 3000)],
+      targets: [{ script, value: 10000 }],
+      feeRate: 1,
+      changeScript
+    })
+    expect(result.changeUsed).to.equal(false)
+    expect(result.inputs?.map(({ value }) => value)).to.deep.equal([10110])
+    expect(result.outputs?.length).to.equal(1)
+    expect(result.fee).to.equal(110)
+  })
+
+  it('falls back to accumulative when change cannot be avoided', () => {
+    const result = branchAndBound({
+      utxos: [makeUtxo(0, 50000)],
+      targets: [{ script, value: 10000 }],
+      feeRate: 1,
+      changeScript
+    })
+    expect(result.changeUsed).to.equal(true)
+    expect(result.inputs?.length).to.equal(1)
+    expect(result.outputs?.length).to.equal(2)
+  })
+
+  it('fails without enough funds', () => {
+    const result = branchAndBound({
+      utxos: [makeUtxo(0, 5000)],
+      targets: [{ script, value: 10000 }],
+      feeRate: 1,
+      changeScript
+    })
+    expect(result.inputs).to.equal(undefined)
+  })
+})
@@ -0,0 +1,90 @@
+import { expect } from 'chai'
+import { asString, Cleaner } from 'cleaners'
+import { describe, it } from 'mocha'
+
+import {
+  findTransactionMessage,
+  missingTransactionResponse,
+  xpubMessage,
+  xpubUtxosMessage
+} from '../../../../src/common/utxobased/network/BlockBookAPI'
+
+describe('Blockbook xpub message tests', () => {
+  // Addresses go over the wire with a prefix, as for Bitcoin Cash
+  const asAddress: Cleaner<string> = raw => asString(raw).replace('prefix:', '')
+
+  const descriptor = 'tr(xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHw)'
+
+  it('queries the descriptor as it is', () => {
+    const { method, params } = xpubMessage(descriptor, asAddress, {
+      details: 'txs',
+      tokens: 'used'
+    })
+    expect(method).to.equal('getAccountInfo')
+    expect(params).to.deep.equal({
+      details: 'txs',
+      tokens: 'used',
+      page: 1,
+      pageSize: 100,
+      descriptor
+    })
+    expect(xpubUtxosMessage(descriptor, asAddress).params).to.deep.equal({
+      descriptor
+    })
+  })
+
+  it('cleans the derived addresses and their paths', () => {
+    const { cleaner } = xpubMessage(descriptor, asAddress)
+    const response = cleaner({
+      address: descriptor,
+      balance: '1000',
+      txs: 1,
+      unconfirmedBalance: '0',
+      unconfirmedTxs: 0,
+      tokens: [
+        {
+          type: 'XPUBAddress',
+          name: 'prefix:address',
+          path: "m/86'/0'/0'/1/3",
+          transfers: 1,
+          decimals: 8
+        }
+      ]
+    })
+    expect(response.tokens).to.deep.equal([
+      { name: 'address', path: "m/86'/0'/0'/1/3", transfers: 1 }
+    ])
+    expect(response.transactions).to.deep.equal([])
+
+    const { cleaner: utxosCleaner } = xpubUtxosMessage(descriptor, asAddress)
+    const [utxo] = utxosCleaner([
+      {
+        txid: '11'.repeat(32),
+        vout: 0,
+        value: '1000',
+        address: 'prefix:address',
+        path: "m/86'/0'/0'/1/3"
+      }
+    ])
+    expect(utxo).to.include({ address: 'address', path: "m/86'/0'/0'/1/3" })
+  })
+})
+
+describe('Blockbook transaction message tests', () => {
+  const txid = '11'.repeat(32)
+
+  it('finds nothing for a missing transaction', () => {
+    const { cleaner } = findTransactionMessage(txid)
+    expect(cleaner(missingTransactionResponse(txid))).to.equal(undefined)
+  })
+
+  it('fails for other errors', () => {
+    const { cleaner } = findTransactionMessage(txid)
+    expect(() => cleaner(missingTransactionResponse('22'.repeat(32)))).to.throw(
+      'Blockbook Error'
+    )
+    expect(() => cleaner({ error: { message: 'Internal error' } })).to.throw(
+      'Blockbook Error: Internal error'
+    )
+  })
+})
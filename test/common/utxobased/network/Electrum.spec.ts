@@ -0,0 +1,329 @@
+import * as bitcoin from 'altcoin-js'
+import { expect } from 'chai'
+import { EdgeTransaction } from 'edge-core-js/types'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import WS from 'ws'
+
+import {
+  EngineEmitter,
+  EngineEvent
+} from '../../../../src/common/plugin/makeEngineEmitter'
+import { addressToScriptPubkey } from '../../../../src/common/utxobased/keymanager/keymanager'
+import { BlockBook } from '../../../../src/common/utxobased/network/BlockBook'
+import {
+  addressMessage,
+  AddressResponse,
+  SubscribeAddressResponse
+} from '../../../../src/common/utxobased/network/BlockBookAPI'
+import Deferred from '../../../../src/common/utxobased/network/Deferred'
+import {
+  isElectrumUri,
+  makeElectrum
+} from '../../../../src/common/utxobased/network/Electrum'
+import { scriptPubkeyToElectrumScriptHash } from '../../../../src/common/utxobased/network/ElectrumAPI'
+import { SocketEmitter } from '../../../../src/common/utxobased/network/MakeSocketEmitter'
+import { WsTask } from '../../../../src/common/utxobased/network/Socket'
+import { makeFakeLog } from '../../../utils'
+
+describe('Electrum tests with dummy server', function () {
+  this.timeout(10000)
+
+  const address = '1KRMKfeZcmosxALVYESdPNez1AP1mEtywp'
+  const scriptPubkey = addressToScriptPubkey({ address, coin: 'bitcoin' })
+  const scriptHash = scriptPubkeyToElectrumScriptHash(scriptPubkey)
+  const otherScriptPubkey = addressToScriptPubkey({
+    address: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+    coin: 'bitcoin'
+  })
+
+  // A confirmed coinbase paying the address, and a mempool transaction
+  // spending it with a fee of 10000
+  const prevTx = new bitcoin.Transaction()
+  prevTx.addInput(Buffer.alloc(32), 0xffffffff)
+  prevTx.addOutput(Buffer.from(scriptPubkey, 'hex'), 100000)
+  const tx = new bitcoin.Transaction()
+  tx.addInput(prevTx.getHash(), 0)
+  tx.addOutput(Buffer.from(otherScriptPubkey, 'hex'), 60000)
+  tx.addOutput(Buffer.from(scriptPubkey, 'hex'), 30000)
+  const rawTransactions: { [txid: string]: string } = {
+    [prevTx.getId()]: prevTx.toHex(),
+    [tx.getId()]: tx.toHex()
+  }
+
+  const header = Buffer.alloc(80)
+  header.writeUInt32LE(1600000000, 68)
+
+  let requestedMethods: string[]
+  const respond = (method: string, params: unknown[]): unknown => {
+    requestedMethods.push(method)
+    const isOurs = params[0] === scriptHash
+    switch (method) {
+      case 'server.version':
+        return ['ElectrumX 1.16.0', '1.4']
+      case 'server.ping':
+        return null
+      case 'blockchain.headers.subscribe':
+        return { height: 101, hex: header.toString('hex') }
+      case 'blockchain.block.header':
+        return header.toString('hex')
+      case 'blockchain.scripthash.get_balance':
+        return isOurs
+          ? { confirmed: 100000, unconfirmed: -70000 }
+          : { confirmed: 0, unconfirmed: 0 }
+      case 'blockchain.scripthash.get_history':
+        return isOurs
+          ? [
+              { tx_hash: prevTx.getId(), height: 100 },
+              { tx_hash: tx.getId(), height: 0, fee: 10000 }
+            ]
+          : []
+      case 'blockchain.scripthash.listunspent':
+        return isOurs
+          ? [{ tx_hash: tx.getId(), tx_pos: 1, height: 0, value: 30000 }]
+          : []
+      case 'blockchain.scripthash.subscribe':
+        return isOurs ? 'status' : null
+      case 'blockchain.transaction.get': {
+        const hex = rawTransactions[params[0] as string]
+        if (hex == null) {
+          throw new Error(
+            'daemon error: No such mempool or blockchain transaction'
+          )
+        }
+        return hex
+      }
+      case 'blockchain.transaction.broadcast':
+        return bitcoin.Transaction.fromHex(params[0] as string).getId()
+    }
+    throw new Error(`unknown method ${method}`)
+  }
+
+  let websocketServer: WS.Server
+  let websocketClient: WS
+  let engineEmitter: EngineEmitter
+  let electrum: BlockBook
+  let tasks: Array<WsTask<unknown>>
+
+  beforeEach(async () => {
+    websocketServer = new WS.Server({ port: 8556 })
+    websocketServer.on('connection', (ws: WS) => {
+      websocketClient = ws
+      ws.on('message', (data: WS.Data) => {
+        const { id, method, params } = JSON.parse(data as string)
+        try {
+          const result = respond(method, params)
+          ws.send(JSON.stringify({ jsonrpc: '2.0', id, result }))
+        } catch (error) {
+          ws.send(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              id,
+              error: { code: 1, message: error.message }
+            })
+          )
+        }
+      })
+    })
+    engineEmitter = new EngineEmitter()
+    tasks = []
+    requestedMethods = []
+
+    electrum = makeElectrum({
+      socketEmitter: new SocketEmitter(),
+      engineEmitter,
+      log: makeFakeLog(),
+      walletId: '',
+      onQueueSpaceCB: async () => tasks.shift(),
+      wsAddress: 'electrum://localhost:8556',
+      coin: 'bitcoin'
+    })
+    await electrum.connect()
+    expect(electrum.isConnected).to.equal(true)
+  })
+
+  afterEach(async () => {
+    await electrum.disconnect()
+    expect(electrum.isConnected).to.equal(false)
+    websocketServer.close()
+  })
+
+  it('recognizes Electrum servers', () => {
+    expect(isElectrumUri('electrum://localhost:50003')).to.equal(true)
+    expect(isElectrumUri('electrums://localhost:50004')).to.equal(true)
+    expect(isElectrumUri('wss://btc1.trezor.io')).to.equal(false)
+  })
+
+  it('answers Blockbook tasks in the Blockbook format', async () => {
+    const { bestHeight } = await electrum.fetchInfo()
+    expect(bestHeight).to.equal(101)
+
+    const response = await electrum.fetchAddress(address)
+    expect(response.balance).to.equal('100000')
+    expect(response.unconfirmedBalance).to.equal('-70000')
+    expect(response.txs).to.equal(1)
+    expect(response.unconfirmedTxs).to.equal(1)
+    expect(response.transactions).to.deep.equal([])
+
+    const { transactions, totalPages } = await electrum.fetchAddress(address, {
+      details: 'txs'
+    })
+    expect(totalPages).to.equal(1)
+    // The newest transaction comes first
+    expect(transactions.map(tx => tx.txid)).to.deep.equal([
+      tx.getId(),
+      prevTx.getId()
+    ])
+    expect(transactions[0]).to.include({
+      blockHeight: -1,
+      confirmations: 0,
+      fees: '10000'
+    })
+    expect(transactions[0].vin[0]).to.include({
+      txid: prevTx.getId(),
+      vout: 0,
+      value: '100000'
+    })
+    expect(transactions[0].vin[0].addresses).to.deep.equal([address])
+    expect(transactions[0].vout[1]).to.include({
+      n: 1,
+      value: '30000',
+      hex: scriptPubkey
+    })
+    expect(transactions[1]).to.include({
+      blockHeight: 100,
+      confirmations: 2,
+      blockTime: 1600000000,
+      fees: '0'
+    })
+
+    // Only transactions from a height on, and those in the mempool
+    const {
+      transactions: newTransactions
+    } = await electrum.fetchAddress(address, { details: 'txs', from: 101 })
+    expect(newTransactions.map(tx => tx.txid)).to.deep.equal([tx.getId()])
+  })
+
+  it('pages address transactions', async () => {
+    await electrum.fetchInfo()
+
+    const firstPage = await electrum.fetchAddress(address, {
+      details: 'txs',
+      pageSize: 1
+    })
+    expect(firstPage).to.include({ page: 1, totalPages: 2, itemsOnPage: 1 })
+    expect(firstPage.transactions.map(tx => tx.txid)).to.deep.equal([
+      tx.getId()
+    ])
+
+    // Pages only count the transactions on them
+    const response = await electrum.fetchAddress(address, {
+      details: 'txs',
+      pageSize: 5
+    })
+    expect(response).to.include({ page: 1, totalPages: 1, itemsOnPage: 2 })
+  })
+
+  it('fetches each raw transaction once', async () => {
+    await electrum.fetchInfo()
+
+    // The spent transaction is in the history too, so it's looked up twice
+    await electrum.fetchAddress(address, { details: 'txs' })
+    expect(
+      requestedMethods.filter(method => method === 'blockchain.transaction.get')
+    ).to.deep.equal([
+      'blockchain.transaction.get',
+      'blockchain.transaction.get'
+    ])
+  })
+
+  it('runs the tasks of the engine', async () => {
+    const deferred = new Deferred<AddressResponse>()
+    const task = {
+      ...addressMessage(address, undefined, { details: 'txs' }),
+      deferred
+    }
+    tasks.push(task as WsTask<unknown>)
+    // Tasks are picked up as messages come in
+    await electrum.fetchInfo()
+
+    const response = await deferred.promise
+    expect(response.transactions.length).to.equal(2)
+  })
+
+  it('fetches utxos and transactions, and broadcasts', async () => {
+    await electrum.fetchInfo()
+
+    const utxos = await electrum.fetchAddressUtxos(address)
+    expect(utxos.length).to.equal(1)
+    expect(utxos[0]).to.include({ txid: tx.getId(), vout: 1, value: '30000' })
+    expect(utxos[0].height).to.equal(undefined)
+
+    // The height is found in the history of the transaction's output
+    const response = await electrum.fetchTransaction(prevTx.getId())
+    expect(response).to.include({ blockHeight: 100, confirmations: 2 })
+
+    let error: Error | undefined
+    await electrum.fetchTransaction('00'.repeat(32)).catch(e => {
+      error = e
+    })
+    expect(error?.message).to.match(/not found/)
+
+    const transaction: EdgeTransaction = {
+      currencyCode: 'BTC',
+      nativeAmount: '0',
+      networkFee: '0',
+      blockHeight: 0,
+      date: 0,
+      txid: tx.getId(),
+      signedTx: tx.toHex(),
+      ourReceiveAddresses: [],
+      walletId: ''
+    }
+    const { result } = await electrum.broadcastTx(transaction)
+    expect(result).to.equal(tx.getId())
+  })
+
+  it('notifies of new blocks and address transactions', async () => {
+    const blockHeights: number[] = []
+    engineEmitter.on(
+      EngineEvent.BLOCK_HEIGHT_CHANGED,
+      (_uri: string, blockHeight: number) => {
+        blockHeights.push(blockHeight)
+      }
+    )
+    const deferredBlockSub = new Deferred<unknown>()
+    electrum.watchBlocks(deferredBlockSub)
+    await deferredBlockSub.promise
+    websocketClient.send(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'blockchain.headers.subscribe',
+        params: [{ height: 102, hex: header.toString('hex') }]
+      })
+    )
+    await new Promise(resolve => setTimeout(resolve, 100))
+    expect(blockHeights).to.deep.equal([102])
+
+    const newTx = new Promise<SubscribeAddressResponse>(resolve => {
+      engineEmitter.on(
+        EngineEvent.NEW_ADDRESS_TRANSACTION,
+        (_uri: string, response: SubscribeAddressResponse) => {
+          resolve(response)
+        }
+      )
+    })
+    const deferredAddressSub = new Deferred<unknown>()
+    electrum.watchAddresses([address], deferredAddressSub)
+    await deferredAddressSub.promise
+    websocketClient.send(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'blockchain.scripthash.subscribe',
+        params: [scriptHash, 'new status']
+      })
+    )
+    const response = await newTx
+    expect(response.address).to.equal(address)
+    expect(response.tx.txid).to.equal(tx.getId())
+  })
+})
@@ -0,0 +1,277 @@
+import { expect } from 'chai'
+import {
+  EdgeFetchFunction,
+  EdgeFetchOptions,
+  EdgeTransaction
+} from 'edge-core-js/types'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+
+import { EngineEmitter } from '../../../../src/common/plugin/makeEngineEmitter'
+import { addressToScriptPubkey } from '../../../../src/common/utxobased/keymanager/keymanager'
+import { BlockBook } from '../../../../src/common/utxobased/network/BlockBook'
+import {
+  isEsploraUri,
+  makeEsplora
+} from '../../../../src/common/utxobased/network/Esplora'
+import {
+  SocketEmitter,
+  SocketEvent
+} from '../../../../src/common/utxobased/network/MakeSocketEmitter'
+import { makeFakeIo, makeFakeLog } from '../../../utils'
+
+describe('Esplora tests with dummy server', function () {
+  const baseUri = 'https://esplora.example.com/api'
+  const address = '1KRMKfeZcmosxALVYESdPNez1AP1mEtywp'
+  const scriptPubkey = addressToScriptPubkey({ address, coin: 'bitcoin' })
+  const otherAddress = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'
+
+  // A confirmed coinbase paying the address, and a mempool transaction
+  // spending it with a fee of 10000
+  const prevTxid = '11'.repeat(32)
+  const txid = '22'.repeat(32)
+  const transactions: { [txid: string]: unknown } = {
+    [prevTxid]: {
+      txid: prevTxid,
+      fee: 0,
+      status: { confirmed: true, block_height: 100, block_time: 1600000000 },
+      vin: [{ txid: '00'.repeat(32), vout: 0xffffffff, sequence: 0 }],
+      vout: [
+        {
+          scriptpubkey: scriptPubkey,
+          scriptpubkey_address: address,
+          value: 100000
+        }
+      ]
+    },
+    [txid]: {
+      txid,
+      fee: 10000,
+      status: { confirmed: false },
+      vin: [
+        {
+          txid: prevTxid,
+          vout: 0,
+          sequence: 0xffffffff,
+          prevout: { scriptpubkey_address: address, value: 100000 }
+        }
+      ],
+      vout: [
+        { scriptpubkey: '', scriptpubkey_address: otherAddress, value: 60000 },
+        {
+          scriptpubkey: scriptPubkey,
+          scriptpubkey_address: address,
+          value: 30000
+        }
+      ]
+    }
+  }
+
+  const respond = (path: string, opts: EdgeFetchOptions = {}): unknown => {
+    if (opts.method === 'POST' && path === '/tx') return txid
+    switch (path) {
+      case '/blocks/tip/height':
+        return 101
+      case '/blocks/tip/hash':
+        return '33'.repeat(32)
+      case `/address/${address}`:
+        return {
+          chain_stats: {
+            funded_txo_sum: 100000,
+            spent_txo_sum: 0,
+            tx_count: 1
+          },
+          mempool_stats: {
+            funded_txo_sum: 30000,
+            spent_txo_sum: 100000,
+            tx_count: 1
+          }
+        }
+      case `/address/${address}/txs`:
+        return [transactions[txid], transactions[prevTxid]]
+      case `/address/${address}/utxo`:
+        return [{ txid, vout: 1, value: 30000, status: { confirmed: false } }]
+      case `/tx/${prevTxid}/hex`:
+        return 'prevhex'
+      case `/tx/${txid}/hex`:
+        return 'hex'
+    }
+    const [, id] = /^\/tx\/(\w+)$/.exec(path) ?? []
+    return transactions[id]
+  }
+
+  let fetchedPaths: string[]
+  const fakeFetch: EdgeFetchFunction = async (uri, opts) => {
+    const response = await makeFakeIo().fetch(uri, opts)
+    const path = uri.slice(baseUri.length)
+    fetchedPaths.push(path)
+    const body = respond(path, opts)
+    const status = body == null ? 404 : 200
+    return {
+      ...response,
+      ok: status === 200,
+      status,
+      async text(): Promise<string> {
+        if (body == null) return 'Transaction not found'
+        return typeof body === 'string' ? body : JSON.stringify(body)
+      }
+    }
+  }
+
+  let socketEmitter: SocketEmitter
+  let esplora: BlockBook
+
+  const makeTestEsplora = (fetch: EdgeFetchFunction): BlockBook =>
+    makeEsplora({
+      socketEmitter,
+      engineEmitter: new EngineEmitter(),
+      log: makeFakeLog(),
+      walletId: '',
+      onQueueSpaceCB: async () => undefined,
+      wsAddress: `${baseUri}/`,
+      fetch
+    })
+
+  beforeEach(async () => {
+    socketEmitter = new SocketEmitter()
+    fetchedPaths = []
+    esplora = makeTestEsplora(fakeFetch)
+    await esplora.connect()
+    expect(esplora.isConnected).to.equal(true)
+  })
+
+  afterEach(async () => {
+    await esplora.disconnect()
+    expect(esplora.isConnected).to.equal(false)
+  })
+
+  it('recognizes Esplora servers', () => {
+    expect(isEsploraUri('https://mempool.space/api')).to.equal(true)
+    expect(isEsploraUri('http://localhost:3002')).to.equal(true)
+    expect(isEsploraUri('wss://btc1.trezor.io')).to.equal(false)
+  })
+
+  it('answers Blockbook tasks in the Blockbook format', async () => {
+    const { bestHeight } = await esplora.fetchInfo()
+    expect(bestHeight).to.equal(101)
+
+    const response = await esplora.fetchAddress(address)
+    expect(response.balance).to.equal('100000')
+    expect(response.unconfirmedBalance).to.equal('-70000')
+    expect(response.txs).to.equal(1)
+    expect(response.unconfirmedTxs).to.equal(1)
+    expect(response.transactions).to.deep.equal([])
+
+    const { transactions, totalPages } = await esplora.fetchAddress(address, {
+      details: 'txs'
+    })
+    expect(totalPages).to.equal(1)
+    // The newest transaction comes first
+    expect(transactions.map(tx => tx.txid)).to.deep.equal([txid, prevTxid])
+    expect(transactions[0]).to.include({
+      hex: 'hex',
+      blockHeight: -1,
+      confirmations: 0,
+      fees: '10000'
+    })
+    expect(transactions[0].vin[0]).to.include({
+      txid: prevTxid,
+      vout: 0,
+      value: '100000'
+    })
+    expect(transactions[0].vin[0].addresses).to.deep.equal([address])
+    expect(transactions[0].vout[1]).to.include({
+      n: 1,
+      value: '30000',
+      hex: scriptPubkey
+    })
+    expect(transactions[1]).to.include({
+      blockHeight: 100,
+      confirmations: 2,
+      blockTime: 1600000000,
+      fees: '0'
+    })
+
+    // Only transactions from a height on, and those in the mempool
+    const {
+      transactions: newTransactions
+    } = await esplora.fetchAddress(address, { details: 'txs', from: 101 })
+    expect(newTransactions.map(tx => tx.txid)).to.deep.equal([txid])
+  })
+
+  it('pages address transactions from where the last page ended', async () => {
+    const firstPage = await esplora.fetchAddress(address, {
+      details: 'txs',
+      pageSize: 1
+    })
+    expect(firstPage).to.include({ page: 1, totalPages: 2, itemsOnPage: 1 })
+    expect(firstPage.transactions.map(tx => tx.txid)).to.deep.equal([txid])
+
+    const secondPage = await esplora.fetchAddress(address, {
+      details: 'txs',
+      page: 2,
+      pageSize: 1
+    })
+    expect(secondPage).to.include({ page: 2, totalPages: 2, itemsOnPage: 1 })
+    expect(secondPage.transactions.map(tx => tx.txid)).to.deep.equal([prevTxid])
+
+    // The history was only walked once for both pages
+    expect(
+      fetchedPaths.filter(path => path === `/address/${address}/txs`)
+    ).to.deep.equal([`/address/${address}/txs`])
+
+    // Pages only count the transactions on them
+    const response = await esplora.fetchAddress(address, {
+      details: 'txs',
+      pageSize: 5
+    })
+    expect(response).to.include({ page: 1, totalPages: 1, itemsOnPage: 2 })
+  })
+
+  it('fetches utxos and transactions, and broadcasts', async () => {
+    const utxos = await esplora.fetchAddressUtxos(address)
+    expect(utxos.length).to.equal(1)
+    expect(utxos[0]).to.include({ txid, vout: 1, value: '30000' })
+    expect(utxos[0].height).to.equal(undefined)
+
+    const response = await esplora.fetchTransaction(prevTxid)
+    expect(response).to.include({ blockHeight: 100, confirmations: 2 })
+
+    let error: Error | undefined
+    await esplora.fetchTransaction('00'.repeat(32)).catch(e => {
+      error = e
+    })
+    expect(error?.message).to.match(/not found/)
+
+    const transaction: EdgeTransaction = {
+      currencyCode: 'BTC',
+      nativeAmount: '0',
+      networkFee: '0',
+      blockHeight: 0,
+      date: 0,
+      txid,
+      signedTx: 'hex',
+      ourReceiveAddresses: [],
+      walletId: ''
+    }
+    const { result } = await esplora.broadcastTx(transaction)
+    expect(result).to.equal(txid)
+  })
+
+  it('reports servers which cannot be reached as closed', async () => {
+    const closed: string[] = []
+    socketEmitter.on(SocketEvent.CONNECTION_CLOSE, (uri: string) => {
+      closed.push(uri)
+    })
+    const offline = makeTestEsplora(async () => {
+      throw new Error('Network request failed')
+    })
+
+    let error: Error | undefined
+    await offline.connect().catch(e => {
+      error = e
+    })
+    expect(error?.message).to.equal('Network request failed')
+    expect(offline.isConnected).to.equal(false)
+    expect(closed).to.deep.equal([`${baseUri}/`])
+  })
+})